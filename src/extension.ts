@@ -84,7 +84,7 @@ async function registerMcpServer(
 
     // m365-update が既に登録されているか確認
     const existingConfig = mcpConfig.servers["m365-update"] as
-      | { args?: string[] }
+      | { args?: string[]; env?: Record<string, string> }
       | undefined;
     const currentPath = existingConfig?.args?.[0];
 
@@ -94,10 +94,12 @@ async function registerMcpServer(
       console.log("mcp.json path:", mcpJsonPath);
       console.log("MCP server path:", mcpServerPath);
 
+      // ユーザーが追加したフラグ（--no-sync など）と環境変数は引き継ぐ
       mcpConfig.servers["m365-update"] = {
         command: "node",
-        args: [mcpServerPath],
+        args: [mcpServerPath, ...(existingConfig?.args?.slice(1) ?? [])],
         type: "stdio",
+        ...(existingConfig?.env ? { env: existingConfig.env } : {}),
       };
 
       fs.writeFileSync(
@@ -0,0 +1,60 @@
+import { describe, it, expect } from "vitest";
+import { streamJsonArrayItems } from "./jsonStream.js";
+
+async function* toChunks(
+  text: string,
+  size: number,
+): AsyncGenerator<Uint8Array> {
+  const bytes = new TextEncoder().encode(text);
+  for (let i = 0; i < bytes.length; i += size) {
+    yield bytes.slice(i, i + size);
+  }
+}
+
+async function collect<T>(iterable: AsyncIterable<T>): Promise<T[]> {
+  const items: T[] = [];
+  for await (const item of iterable) {
+    items.push(item);
+  }
+  return items;
+}
+
+const payload = {
+  "@odata.context": 'ctx "value" [x]',
+  meta: { value: [99] },
+  value: [
+    { id: 1, title: 'Teams ] { "quoted" }', tags: ["a", ["b"]] },
+    { id: 2, title: "日本語タイトル\\n", description: null },
+    3,
+    "four",
+  ],
+  trailing: true,
+};
+
+describe("streamJsonArrayItems", () => {
+  it("チャンクの区切り位置に関係なく要素を順に返すこと", async () => {
+    const text = JSON.stringify(payload, null, 2);
+
+    for (const size of [1, 2, 3, 7, 64, text.length]) {
+      const items = await collect(
+        streamJsonArrayItems(toChunks(text, size), "value"),
+      );
+      expect(items).toEqual(payload.value);
+    }
+  });
+
+  it("指定キーがない場合は何も返さないこと", async () => {
+    const items = await collect(
+      streamJsonArrayItems(toChunks('{"other":[1,2]}', 4), "value"),
+    );
+    expect(items).toEqual([]);
+  });
+
+  it("配列の途中で終わった場合はエラーにすること", async () => {
+    const truncated = '{"value":[{"id":1},{"id":';
+
+    await expect(
+      collect(streamJsonArrayItems(toChunks(truncated, 5), "value")),
+    ).rejects.toThrow("Unexpected end of JSON stream");
+  });
+});
@@ -0,0 +1,132 @@
+/**
+ * JSON ストリームパーサ
+ *
+ * トップレベルオブジェクトの指定キーの配列（OData の "value" など）を
+ * 要素単位で逐次パースする。レスポンス全体をメモリに保持しない。
+ */
+
+/**
+ * JSON 配列の要素を逐次取り出す
+ *
+ * @param chunks レスポンスボディのチャンク
+ * @param arrayKey トップレベルオブジェクト内の配列のキー
+ * @throws Error 配列の途中でストリームが終わった場合
+ */
+export async function* streamJsonArrayItems<T>(
+  chunks: AsyncIterable<Uint8Array | string>,
+  arrayKey: string,
+): AsyncGenerator<T> {
+  const decoder = new TextDecoder();
+
+  let phase: "seek" | "array" | "done" = "seek";
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+
+  // seek: トップレベルのキー
+  let capturingKey = false;
+  let keyBuffer = "";
+  let lastKey: string | null = null;
+
+  // array: 要素のテキスト
+  let arrayDepth = 0;
+  let item = "";
+  let itemStarted = false;
+
+  for await (const chunk of chunks) {
+    const text =
+      typeof chunk === "string"
+        ? chunk
+        : decoder.decode(chunk, { stream: true });
+    let segmentStart = 0;
+    const pending: T[] = [];
+
+    for (let i = 0; i < text.length && phase !== "done"; i++) {
+      const c = text[i];
+
+      if (inString) {
+        if (escaped) {
+          escaped = false;
+        } else if (c === "\\") {
+          escaped = true;
+        } else if (c === '"') {
+          inString = false;
+          if (capturingKey) {
+            capturingKey = false;
+            lastKey = keyBuffer;
+            continue;
+          }
+        }
+        if (capturingKey) {
+          keyBuffer += c;
+        }
+        continue;
+      }
+
+      if (phase === "seek") {
+        if (c === '"') {
+          inString = true;
+          if (depth === 1) {
+            capturingKey = true;
+            keyBuffer = "";
+          }
+        } else if (c === "," && depth === 1) {
+          lastKey = null;
+        } else if (c === "{" || c === "[") {
+          depth++;
+          if (c === "[" && depth === 2 && lastKey === arrayKey) {
+            phase = "array";
+            arrayDepth = depth;
+            segmentStart = i + 1;
+          }
+        } else if (c === "}" || c === "]") {
+          depth--;
+        }
+        continue;
+      }
+
+      // phase === "array"
+      if (depth === arrayDepth && (c === "," || c === "]")) {
+        item += text.slice(segmentStart, i);
+        if (itemStarted) {
+          pending.push(JSON.parse(item) as T);
+        }
+        item = "";
+        itemStarted = false;
+        segmentStart = i + 1;
+        if (c === "]") {
+          phase = "done";
+        }
+        continue;
+      }
+
+      if (!itemStarted && /\s/.test(c)) {
+        segmentStart = i + 1;
+        continue;
+      }
+      itemStarted = true;
+
+      if (c === '"') {
+        inString = true;
+      } else if (c === "{" || c === "[") {
+        depth++;
+      } else if (c === "}" || c === "]") {
+        depth--;
+      }
+    }
+
+    if (phase === "array") {
+      item += text.slice(segmentStart);
+    }
+
+    yield* pending;
+
+    if (phase === "done") {
+      return;
+    }
+  }
+
+  if (phase === "array") {
+    throw new Error(`Unexpected end of JSON stream inside "${arrayKey}"`);
+  }
+}
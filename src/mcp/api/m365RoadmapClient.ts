@@ -7,6 +7,7 @@
 
 import type { M365RoadmapFeature } from "./types.js";
 import * as logger from "../utils/logger.js";
+import { streamJsonArrayItems } from "./jsonStream.js";
 
 /** API エンドポイント */
 const M365_ROADMAP_API_URL =
@@ -44,6 +45,18 @@ export interface FetchResult {
   etag: string | null;
 }
 
+/**
+ * ストリーミングフェッチ結果
+ */
+export interface FetchStreamResult {
+  /** データが更新されたか */
+  modified: boolean;
+  /** フィーチャーを順に返すストリーム（未更新の場合は空） */
+  features: AsyncIterable<M365RoadmapFeature>;
+  /** 新しい ETag */
+  etag: string | null;
+}
+
 /**
  * 指数バックオフでスリープ
  */
@@ -184,6 +197,80 @@ export async function fetchAllFeaturesWithETag(
   };
 }
 
+/**
+ * 空のフィーチャーストリーム
+ */
+async function* emptyFeatureStream(): AsyncGenerator<M365RoadmapFeature> {}
+
+/**
+ * M365 Roadmap の全フィーチャーをストリームで取得（ETag 対応）
+ *
+ * レスポンスの value 配列を要素単位でパースし、全件をメモリに保持しない。
+ * リトライは fetchAllFeaturesWithETag と同じくレスポンスヘッダー受信までが対象で、
+ * 新しい ETag はストリームを最後まで読み終えた時点でキャッシュする。
+ *
+ * @param useCache ETag キャッシュを使用するか
+ * @returns フェッチ結果
+ */
+export async function fetchFeatureStreamWithETag(
+  useCache: boolean = true,
+): Promise<FetchStreamResult> {
+  logger.info("Fetching M365 Roadmap features (streaming)", {
+    url: M365_ROADMAP_API_URL,
+    cachedETag: useCache ? cachedETag : null,
+  });
+
+  const startTime = Date.now();
+
+  const { response, notModified } = await fetchWithRetry(M365_ROADMAP_API_URL, {
+    ifNoneMatch: useCache ? (cachedETag ?? undefined) : undefined,
+  });
+
+  // 304 Not Modified - データ変更なし
+  if (notModified) {
+    const durationMs = Date.now() - startTime;
+    logger.info("M365 Roadmap not modified (304)", { durationMs });
+    return {
+      modified: false,
+      features: emptyFeatureStream(),
+      etag: cachedETag,
+    };
+  }
+
+  const newETag = response.headers.get("ETag");
+  const body = response.body;
+
+  async function* features(): AsyncGenerator<M365RoadmapFeature> {
+    let count = 0;
+    if (body) {
+      for await (const feature of streamJsonArrayItems<M365RoadmapFeature>(
+        body,
+        "value",
+      )) {
+        count++;
+        yield feature;
+      }
+    }
+
+    // 全件読み終えてから ETag を保存
+    if (newETag) {
+      cachedETag = newETag;
+    }
+
+    logger.info("Fetched M365 Roadmap features", {
+      count,
+      durationMs: Date.now() - startTime,
+      etag: newETag,
+    });
+  }
+
+  return {
+    modified: true,
+    features: features(),
+    etag: newETag,
+  };
+}
+
 /**
  * M365 Roadmap の全フィーチャーを取得（後方互換）
  *
@@ -62,6 +62,59 @@ export interface M365Availability {
   month: string;
 }
 
+/**
+ * ローカル DB に保存されたフィーチャー
+ */
+export interface M365StoredFeature extends M365RoadmapFeature {
+  /** ロードマップから削除された日時（削除されていなければ null） */
+  removedAt: string | null;
+}
+
+/**
+ * 検索結果の並び順の基準
+ */
+export type M365SortField =
+  "relevance" | "modified" | "created" | "gaDate" | "previewDate";
+
+/**
+ * 並び順の方向
+ */
+export type M365SortOrder = "asc" | "desc";
+
+/**
+ * 複数値フィルタの一致条件
+ *
+ * - any: いずれかを含む
+ * - all: すべてを含む
+ */
+export type M365FilterMatch = "any" | "all";
+
+/**
+ * 検索結果の並び順における位置（並び順のキーの値、キーセットページング用）
+ */
+export type M365SearchPosition = (string | number | null)[];
+
+/**
+ * 日付範囲フィルタの対象
+ *
+ * - ga: GA 予定日
+ * - preview: プレビュー予定日
+ * - created / modified: ロードマップへの登録日時 / 更新日時
+ * - availability: 可用性エントリ（いずれかのリング）の年月
+ */
+export type M365DateField =
+  "ga" | "preview" | "created" | "modified" | "availability";
+
+/**
+ * 一致箇所を囲むマーカー
+ */
+export interface M365HighlightMarkers {
+  /** 一致箇所の前に挿入する文字列（例: "**"） */
+  start: string;
+  /** 一致箇所の後に挿入する文字列（例: "**"） */
+  end: string;
+}
+
 /**
  * 検索フィルタ
  */
@@ -72,26 +125,76 @@ export interface M365SearchFilters {
   /** 製品フィルタ */
   products?: string[];
 
+  /** 製品フィルタの一致条件（既定: any） */
+  productsMatch?: M365FilterMatch;
+
+  /** 除外する製品（いずれかを含むフィーチャーを除く） */
+  excludeProducts?: string[];
+
   /** ステータスフィルタ */
   status?: string;
 
   /** プラットフォームフィルタ */
   platforms?: string[];
 
-  /** クラウドインスタンスフィルタ */
+  /** プラットフォームフィルタの一致条件（既定: any） */
+  platformsMatch?: M365FilterMatch;
+
+  /** 除外するプラットフォーム（いずれかを含むフィーチャーを除く） */
+  excludePlatforms?: string[];
+
+  /** クラウドインスタンスフィルタ（いずれかを含む） */
   cloudInstances?: string[];
 
-  /** GA 日付範囲（開始） YYYY-MM 形式 */
+  /** リリースリングフィルタ（いずれかを含む） */
+  releaseRings?: string[];
+
+  /** 可用性の月（YYYY-MM 形式）。availabilityRing と組み合わせると同じ可用性エントリで一致 */
+  availabilityMonth?: string;
+
+  /** 可用性のリング（例: "Targeted Release"） */
+  availabilityRing?: string;
+
+  /** dateFrom / dateTo の対象（既定: ga） */
+  dateField?: M365DateField;
+
+  /**
+   * 日付範囲（開始、この日付を含む）
+   *
+   * ga / preview / availability は YYYY-MM（先頭 7 文字を使用）、
+   * created / modified は YYYY-MM / YYYY-MM-DD / ISO 8601 日時
+   */
   dateFrom?: string;
 
-  /** GA 日付範囲（終了） YYYY-MM 形式 */
+  /** 日付範囲（終了、この日付を含む）。形式は dateFrom と同じ */
   dateTo?: string;
 
+  /** ロードマップから削除されたフィーチャーも含めるか */
+  includeRemoved?: boolean;
+
+  /** 並び順の基準（既定: クエリ指定時は relevance、それ以外は modified） */
+  sortBy?: M365SortField;
+
+  /** 並び順の方向（既定: desc。relevance の desc は関連度の高い順） */
+  sortOrder?: M365SortOrder;
+
+  /** スニペットの一致箇所を囲むマーカー（既定: Markdown の太字） */
+  highlight?: M365HighlightMarkers;
+
+  /** true の場合は検索結果全体のファセット集計も返す */
+  facets?: boolean;
+
   /** 最大件数 */
   limit?: number;
 
   /** オフセット（ページング用） */
   offset?: number;
+
+  /** この位置より後の結果を返す（キーセットページング用。前ページの結果の positions を指定） */
+  after?: M365SearchPosition;
+
+  /** この ID の中から、この順に結果を返す（関連度順のスナップショットのページング用。after より優先） */
+  featureIds?: number[];
 }
 
 /**
@@ -107,6 +210,33 @@ export interface M365SearchResultItem {
   generalAvailabilityDate: string | null;
   previewAvailabilityDate: string | null;
   modified: string;
+  /** ロードマップから削除された日時（削除されていなければ null） */
+  removedAt: string | null;
+  /** 一致語をマーカーで囲んだタイトル（クエリ指定時のみ） */
+  highlightedTitle?: string;
+  /** 説明のうち一致語周辺を抜き出したスニペット（クエリ指定時のみ） */
+  snippet?: string | null;
+}
+
+/**
+ * ファセットの値ごとの件数
+ */
+export interface M365FacetCount {
+  value: string;
+  count: number;
+}
+
+/**
+ * 検索結果全体（ページング前）のファセット集計。各ファセットは件数の多い順
+ */
+export interface M365SearchFacets {
+  products: M365FacetCount[];
+  platforms: M365FacetCount[];
+  statuses: M365FacetCount[];
+  cloudInstances: M365FacetCount[];
+  releaseRings: M365FacetCount[];
+  /** GA 月（YYYY-MM） */
+  gaMonths: M365FacetCount[];
 }
 
 /**
@@ -116,4 +246,9 @@ export interface M365SearchResult {
   results: M365SearchResultItem[];
   totalCount: number;
   hasMore: boolean;
+  /** 次ページを取得するカーソル（続きがなければ null） */
+  nextCursor: string | null;
+  /** 応答サイズの予算に収めるため説明を切り詰めたか */
+  descriptionsTrimmed: boolean;
+  facets?: M365SearchFacets;
 }
@@ -5,12 +5,13 @@
  */
 
 import Database from "better-sqlite3";
-import { readFileSync, existsSync, mkdirSync } from "fs";
+import { existsSync, mkdirSync } from "fs";
 import { join, dirname } from "path";
 import { fileURLToPath } from "url";
 import { homedir } from "os";
 
 import { copyFileSync } from "fs";
+import { runMigrations, assertSchemaSupported } from "./migrations.js";
 
 // ESM-friendly __dirname
 const __filename = fileURLToPath(import.meta.url);
@@ -103,9 +104,16 @@ export function initializeDatabase(
   db.pragma("temp_store = MEMORY");
   db.pragma("foreign_keys = ON");
 
-  // スキーマ適用
-  if (!isSchemaInitialized(db)) {
-    applySchema(db);
+  // スキーママイグレーション（読み取り専用では対応バージョンの確認のみ）
+  try {
+    if (config.readonly) {
+      assertSchemaSupported(db);
+    } else {
+      runMigrations(db);
+    }
+  } catch (error) {
+    db.close();
+    throw error;
   }
 
   return db;
@@ -131,28 +139,6 @@ export function closeDatabase(): void {
   }
 }
 
-/**
- * スキーマが初期化済みか確認
- */
-function isSchemaInitialized(db: Database.Database): boolean {
-  const result = db
-    .prepare(
-      "SELECT name FROM sqlite_master WHERE type='table' AND name='schema_version'",
-    )
-    .get() as { name: string } | undefined;
-
-  return result !== undefined;
-}
-
-/**
- * スキーマを適用
- */
-function applySchema(db: Database.Database): void {
-  const schemaPath = join(__dirname, "schema.sql");
-  const schemaSql = readFileSync(schemaPath, "utf-8");
-  db.exec(schemaSql);
-}
-
 /**
  * データベース統計を取得
  */
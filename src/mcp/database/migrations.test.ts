@@ -0,0 +1,95 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import Database from "better-sqlite3";
+
+import {
+  MIGRATIONS,
+  runMigrations,
+  getSchemaVersion,
+  UnsupportedSchemaVersionError,
+  type Migration,
+} from "./migrations.js";
+
+const LATEST_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+function columnNames(db: Database.Database, table: string): string[] {
+  return (db.pragma(`table_info(${table})`) as { name: string }[]).map(
+    (c) => c.name,
+  );
+}
+
+describe("runMigrations", () => {
+  let db: Database.Database;
+
+  beforeEach(() => {
+    db = new Database(":memory:");
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it("新規 DB に全マイグレーションを適用し、各バージョンを記録すること", () => {
+    const applied = runMigrations(db);
+
+    expect(applied).toEqual(MIGRATIONS.map((m) => m.version));
+    expect(getSchemaVersion(db)).toBe(LATEST_VERSION);
+    const versions = db
+      .prepare("SELECT version FROM schema_version ORDER BY version")
+      .all() as { version: number }[];
+    expect(versions.map((v) => v.version)).toEqual(applied);
+  });
+
+  it("2 回目の実行では何も適用しないこと", () => {
+    runMigrations(db);
+
+    expect(runMigrations(db)).toEqual([]);
+  });
+
+  it("バージョン 1 の DB をデータを保ったまま最新に更新すること", () => {
+    runMigrations(db, MIGRATIONS.slice(0, 1));
+    db.exec("DROP TABLE api_cache");
+    db.prepare(
+      `INSERT INTO m365_features (id, title, status, created, modified)
+       VALUES (1, 'Shared channels', 'Launched', '2026-01-01', '2026-01-01')`,
+    ).run();
+
+    const applied = runMigrations(db);
+
+    expect(applied[0]).toBe(2);
+    expect(columnNames(db, "m365_features")).toEqual(
+      expect.arrayContaining(["removed_at", "content_hash"]),
+    );
+    expect(db.prepare("SELECT etag FROM api_cache WHERE id = 1").get()).toEqual(
+      { etag: null },
+    );
+    expect(db.prepare("SELECT title FROM m365_features").get()).toEqual({
+      title: "Shared channels",
+    });
+  });
+
+  it("失敗したマイグレーションはロールバックしてバージョンを記録しないこと", () => {
+    const failing: Migration = {
+      version: LATEST_VERSION + 1,
+      description: "broken",
+      up: (database) => {
+        database.exec("CREATE TABLE partial (id INTEGER)");
+        throw new Error("boom");
+      },
+    };
+
+    expect(() => runMigrations(db, [...MIGRATIONS, failing])).toThrow("boom");
+    expect(getSchemaVersion(db)).toBe(LATEST_VERSION);
+    expect(
+      db.prepare("SELECT name FROM sqlite_master WHERE name = 'partial'").get(),
+    ).toBeUndefined();
+  });
+
+  it("コードより新しいスキーマの DB は開かないこと", () => {
+    runMigrations(db);
+    db.prepare("INSERT INTO schema_version (version) VALUES (?)").run(
+      LATEST_VERSION + 1,
+    );
+
+    expect(() => runMigrations(db)).toThrow(UnsupportedSchemaVersionError);
+  });
+});
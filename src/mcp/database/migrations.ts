@@ -0,0 +1,319 @@
+/**
+ * スキーママイグレーション
+ *
+ * schema.sql をバージョン 1 とし、以降のスキーマ変更を順序付きのマイグレーションとして適用する。
+ * 適用済みのバージョンは schema_version に記録し、各マイグレーションは 1 トランザクションで実行する。
+ */
+
+import type Database from "better-sqlite3";
+import { readFileSync } from "fs";
+import { join, dirname } from "path";
+import { fileURLToPath } from "url";
+
+// ESM-friendly __dirname
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+/**
+ * マイグレーション定義
+ */
+export interface Migration {
+  /** スキーマバージョン（1 から連番） */
+  version: number;
+  /** 変更内容の説明 */
+  description: string;
+  /** スキーマ変更（トランザクション内で実行される） */
+  up: (db: Database.Database) => void;
+}
+
+/**
+ * DB のスキーマバージョンがコードより新しい場合のエラー
+ */
+export class UnsupportedSchemaVersionError extends Error {
+  constructor(
+    public readonly databaseVersion: number,
+    public readonly supportedVersion: number,
+  ) {
+    super(
+      `Database schema version ${databaseVersion} is newer than supported version ${supportedVersion}. ` +
+        "Update the M365 Update extension or delete the local database to re-sync.",
+    );
+    this.name = "UnsupportedSchemaVersionError";
+  }
+}
+
+/**
+ * 列が存在しない場合のみ追加
+ */
+function addColumnIfMissing(
+  db: Database.Database,
+  table: string,
+  column: string,
+  definition: string,
+): void {
+  const columns = db.pragma(`table_info(${table})`) as { name: string }[];
+  if (!columns.some((c) => c.name === column)) {
+    db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  }
+}
+
+/**
+ * マイグレーション一覧（バージョン昇順）
+ */
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: "Initial schema",
+    up: (db) => {
+      db.exec(readFileSync(join(__dirname, "schema.sql"), "utf-8"));
+    },
+  },
+  {
+    version: 2,
+    description: "API cache table for databases created before ETag support",
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS api_cache (
+            id INTEGER PRIMARY KEY CHECK (id = 1),
+            etag TEXT,
+            last_checked TEXT NOT NULL DEFAULT (datetime('now')),
+            updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+        );
+        INSERT OR IGNORE INTO api_cache (id, last_checked) VALUES (1, datetime('now'));
+      `);
+    },
+  },
+  {
+    version: 3,
+    description: "Field-level feature change history",
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS feature_history (
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            feature_id INTEGER NOT NULL,
+            sync_run TEXT NOT NULL,
+            change_type TEXT NOT NULL,
+            field TEXT,
+            old_value TEXT,
+            new_value TEXT,
+            changed_at TEXT NOT NULL
+        );
+        CREATE INDEX IF NOT EXISTS idx_feature_history_feature ON feature_history(feature_id, changed_at);
+        CREATE INDEX IF NOT EXISTS idx_feature_history_changed_at ON feature_history(changed_at);
+      `);
+    },
+  },
+  {
+    version: 4,
+    description: "Tombstones for features removed from the roadmap",
+    up: (db) => {
+      addColumnIfMissing(db, "m365_features", "removed_at", "TEXT");
+    },
+  },
+  {
+    version: 5,
+    description: "Sync run log",
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS sync_runs (
+            id TEXT PRIMARY KEY,
+            trigger TEXT NOT NULL,
+            started_at TEXT NOT NULL,
+            ended_at TEXT,
+            outcome TEXT NOT NULL DEFAULT 'running',
+            http_status INTEGER,
+            records_inserted INTEGER NOT NULL DEFAULT 0,
+            records_updated INTEGER NOT NULL DEFAULT 0,
+            records_removed INTEGER NOT NULL DEFAULT 0,
+            etag TEXT,
+            error TEXT
+        );
+        CREATE INDEX IF NOT EXISTS idx_sync_runs_started_at ON sync_runs(started_at);
+      `);
+    },
+  },
+  {
+    version: 6,
+    description: "Content hash for differential sync",
+    up: (db) => {
+      addColumnIfMissing(db, "m365_features", "content_hash", "TEXT");
+    },
+  },
+  {
+    version: 7,
+    description: "Sync lease replacing the sync_status lock flag",
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS sync_lease (
+            id INTEGER PRIMARY KEY CHECK (id = 1),
+            owner_id TEXT NOT NULL,
+            owner_pid INTEGER NOT NULL,
+            owner_host TEXT NOT NULL,
+            acquired_at TEXT NOT NULL,
+            expires_at TEXT NOT NULL
+        );
+        UPDATE sync_checkpoint SET sync_status = 'idle' WHERE sync_status = 'syncing';
+      `);
+    },
+  },
+  {
+    version: 8,
+    description: "Trigram FTS index for Japanese / CJK queries",
+    up: (db) => {
+      // unicode61 は空白のない CJK の連続を 1 トークンにするため、部分一致できる trigram を併用する
+      db.exec(`
+        CREATE VIRTUAL TABLE IF NOT EXISTS m365_features_trigram USING fts5(
+            title,
+            description,
+            content='m365_features',
+            content_rowid='id',
+            tokenize='trigram'
+        );
+
+        CREATE TRIGGER IF NOT EXISTS m365_features_trigram_ai AFTER INSERT ON m365_features BEGIN
+            INSERT INTO m365_features_trigram(rowid, title, description)
+            VALUES (new.id, new.title, new.description);
+        END;
+
+        CREATE TRIGGER IF NOT EXISTS m365_features_trigram_au AFTER UPDATE ON m365_features BEGIN
+            INSERT INTO m365_features_trigram(m365_features_trigram, rowid, title, description)
+            VALUES ('delete', old.id, old.title, old.description);
+            INSERT INTO m365_features_trigram(rowid, title, description)
+            VALUES (new.id, new.title, new.description);
+        END;
+
+        CREATE TRIGGER IF NOT EXISTS m365_features_trigram_ad AFTER DELETE ON m365_features BEGIN
+            INSERT INTO m365_features_trigram(m365_features_trigram, rowid, title, description)
+            VALUES ('delete', old.id, old.title, old.description);
+        END;
+
+        INSERT INTO m365_features_trigram(m365_features_trigram) VALUES ('rebuild');
+      `);
+    },
+  },
+  {
+    version: 9,
+    description: "FTS vocabulary view for spelling suggestions",
+    up: (db) => {
+      db.exec(`
+        CREATE VIRTUAL TABLE IF NOT EXISTS m365_features_vocab
+        USING fts5vocab(m365_features_fts, row);
+      `);
+    },
+  },
+  {
+    version: 10,
+    description: "Saved searches",
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS saved_searches (
+            name TEXT PRIMARY KEY COLLATE NOCASE,
+            description TEXT,
+            filters TEXT NOT NULL,
+            created_at TEXT NOT NULL,
+            updated_at TEXT NOT NULL
+        );
+      `);
+    },
+  },
+  {
+    version: 11,
+    description: "Search result snapshots for relevance-sorted cursors",
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS search_snapshots (
+            id TEXT PRIMARY KEY,
+            feature_ids TEXT NOT NULL,
+            created_at TEXT NOT NULL
+        );
+        CREATE INDEX IF NOT EXISTS idx_search_snapshots_created_at ON search_snapshots(created_at);
+      `);
+    },
+  },
+];
+
+/**
+ * 適用済みの最新スキーマバージョンを取得（未初期化の場合は 0）
+ */
+export function getSchemaVersion(db: Database.Database): number {
+  const table = db
+    .prepare(
+      "SELECT name FROM sqlite_master WHERE type='table' AND name='schema_version'",
+    )
+    .get() as { name: string } | undefined;
+  if (!table) {
+    return 0;
+  }
+
+  const row = db
+    .prepare("SELECT MAX(version) as version FROM schema_version")
+    .get() as { version: number | null };
+  return row.version ?? 0;
+}
+
+/**
+ * DB のスキーマバージョンがコードの対応範囲内か確認
+ *
+ * @throws UnsupportedSchemaVersionError DB の方が新しい場合
+ */
+export function assertSchemaSupported(
+  db: Database.Database,
+  migrations: Migration[] = MIGRATIONS,
+): number {
+  const current = getSchemaVersion(db);
+  const latest = migrations[migrations.length - 1]?.version ?? 0;
+  if (current > latest) {
+    throw new UnsupportedSchemaVersionError(current, latest);
+  }
+  return current;
+}
+
+/**
+ * 未適用のマイグレーションを順に適用
+ *
+ * @returns 適用したバージョン一覧
+ * @throws UnsupportedSchemaVersionError DB の方が新しい場合
+ */
+export function runMigrations(
+  db: Database.Database,
+  migrations: Migration[] = MIGRATIONS,
+): number[] {
+  const current = assertSchemaSupported(db, migrations);
+  const applied: number[] = [];
+
+  for (const migration of migrations) {
+    if (migration.version <= current) {
+      continue;
+    }
+
+    // 同じ DB を開く別プロセスと競合しないよう書き込みロックを取ってから再確認
+    const apply = db.transaction(() => {
+      if (getSchemaVersion(db) >= migration.version) {
+        return false;
+      }
+      migration.up(db);
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS schema_version (
+            version INTEGER PRIMARY KEY,
+            applied_at TEXT NOT NULL DEFAULT (datetime('now'))
+        )
+      `);
+      db.prepare(
+        "INSERT OR REPLACE INTO schema_version (version) VALUES (?)",
+      ).run(migration.version);
+      return true;
+    });
+
+    if (apply.immediate()) {
+      applied.push(migration.version);
+    }
+  }
+
+  if (applied.length > 0) {
+    console.error(
+      `[m365-update] Applied schema migrations: ${applied.join(", ")}`,
+    );
+  }
+
+  return applied;
+}
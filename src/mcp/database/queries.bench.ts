@@ -0,0 +1,81 @@
+/**
+ * 検索クエリのベンチマーク（npm run bench で実行。通常のテストには含めない）
+ */
+
+import { bench, describe } from "vitest";
+import Database from "better-sqlite3";
+
+import { runMigrations } from "./migrations.js";
+import {
+  getFeatureById,
+  replaceFeaturePlatforms,
+  replaceFeatureProducts,
+  searchFeatures,
+  upsertFeature,
+} from "./queries.js";
+
+const FEATURE_COUNT = 20000;
+const PRODUCTS = ["Microsoft Teams", "Outlook", "SharePoint", "Microsoft Viva"];
+const PLATFORMS = ["Web", "Desktop", "iOS", "Android", "Mac"];
+
+/** Key Highlights 相当の広い検索（日付範囲のみ、最大件数） */
+const KEY_HIGHLIGHTS_FILTERS = {
+  dateFrom: "2026-01",
+  dateTo: "2026-12",
+  limit: 10000,
+};
+
+/**
+ * 20,000 件の合成データの DB を作成
+ */
+function createDatabase(): Database.Database {
+  const db = new Database(":memory:");
+  runMigrations(db);
+
+  db.transaction(() => {
+    for (let id = 1; id <= FEATURE_COUNT; id++) {
+      const products = [
+        PRODUCTS[id % PRODUCTS.length],
+        PRODUCTS[(id + 1) % PRODUCTS.length],
+      ];
+      const platforms = PLATFORMS.slice(0, (id % PLATFORMS.length) + 1);
+      upsertFeature(db, {
+        id,
+        title: `Feature ${id} for ${products[0]}`,
+        description: `Synthetic roadmap item ${id} available on ${platforms.join(", ")}.`,
+        cloudInstances: [],
+        platforms,
+        releaseRings: [],
+        products,
+        generalAvailabilityDate: `${2025 + (id % 2)}-${String((id % 12) + 1).padStart(2, "0")}`,
+        previewAvailabilityDate: null,
+        status: "Rolling out",
+        created: "2025-01-01T00:00:00.000Z",
+        modified: `2026-01-${String((id % 28) + 1).padStart(2, "0")}T00:00:00.000Z`,
+        availabilities: [],
+      });
+      replaceFeatureProducts(db, id, products);
+      replaceFeaturePlatforms(db, id, platforms);
+    }
+  })();
+
+  return db;
+}
+
+const db = createDatabase();
+
+describe("searchFeatures（20,000 件の合成データ）", () => {
+  bench("Key Highlights の広い検索（10,000 件）", () => {
+    searchFeatures(db, KEY_HIGHLIGHTS_FILTERS);
+  });
+
+  bench("キーワード検索（関連度順、50 件）", () => {
+    searchFeatures(db, { query: "Teams Web", limit: 50 });
+  });
+});
+
+describe("getFeatureById（20,000 件の合成データ）", () => {
+  bench("関連データ付きの 1 件", () => {
+    getFeatureById(db, 7);
+  });
+});
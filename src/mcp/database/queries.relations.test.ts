@@ -0,0 +1,85 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import Database from "better-sqlite3";
+
+import { runMigrations } from "./migrations.js";
+import {
+  getFeatureById,
+  replaceFeaturePlatforms,
+  replaceFeatureProducts,
+  searchFeatures,
+  upsertFeature,
+} from "./queries.js";
+
+const PRODUCTS = ["Microsoft Teams", "Outlook", "SharePoint", "Microsoft Viva"];
+const PLATFORMS = ["Web", "Desktop", "iOS", "Android", "Mac"];
+
+describe("検索結果の関連データの読み込み", () => {
+  let db: Database.Database;
+  /** 実行した SQL（記録中のみ） */
+  let executed: string[] | null = null;
+
+  beforeEach(() => {
+    db = new Database(":memory:", {
+      verbose: (sql) => executed?.push(String(sql)),
+    });
+    runMigrations(db);
+
+    for (let id = 1; id <= 40; id++) {
+      const products = [
+        PRODUCTS[id % PRODUCTS.length],
+        PRODUCTS[(id + 1) % PRODUCTS.length],
+      ];
+      const platforms = PLATFORMS.slice(0, (id % PLATFORMS.length) + 1);
+      upsertFeature(db, {
+        id,
+        title: `Feature ${id} for ${products[0]}`,
+        description: null,
+        cloudInstances: [],
+        platforms,
+        releaseRings: [],
+        products,
+        generalAvailabilityDate: "2026-03",
+        previewAvailabilityDate: null,
+        status: "Rolling out",
+        created: "2026-01-01T00:00:00.000Z",
+        modified: "2026-01-01T00:00:00.000Z",
+        availabilities: [],
+      });
+      replaceFeatureProducts(db, id, products);
+      replaceFeaturePlatforms(db, id, platforms);
+    }
+  });
+
+  afterEach(() => {
+    executed = null;
+    db.close();
+  });
+
+  /** searchFeatures が実行した SQL の数 */
+  function countQueries(limit: number): number {
+    executed = [];
+    const result = searchFeatures(db, { limit });
+    expect(result.results).toHaveLength(limit);
+    const count = executed.length;
+    executed = null;
+    return count;
+  }
+
+  it("結果の件数に関係なく一定の数のクエリで製品・プラットフォームを読み込むこと", () => {
+    // 結果・件数・製品・プラットフォーム
+    expect(countQueries(2)).toBe(4);
+    expect(countQueries(40)).toBe(4);
+  });
+
+  it("検索結果と getFeatureById が同じ関連データを返すこと", () => {
+    const item = searchFeatures(db, { limit: 40 }).results.find(
+      (r) => r.id === 7,
+    );
+    const feature = getFeatureById(db, 7);
+
+    expect(feature?.products).toEqual(["Microsoft Teams", "Microsoft Viva"]);
+    expect(feature?.platforms).toEqual(["Desktop", "Web", "iOS"]);
+    expect([...(item?.products ?? [])].sort()).toEqual(feature?.products);
+    expect([...(item?.platforms ?? [])].sort()).toEqual(feature?.platforms);
+  });
+});
@@ -0,0 +1,568 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import Database from "better-sqlite3";
+
+import { runMigrations } from "./migrations.js";
+import {
+  getSearchResultIds,
+  isRelevanceOrdered,
+  searchFeatures,
+} from "./queries.js";
+import { insertFeature } from "./testUtils.js";
+
+describe("searchFeatures の並び順", () => {
+  let db: Database.Database;
+
+  beforeEach(() => {
+    db = new Database(":memory:");
+    runMigrations(db);
+
+    insertFeature(db, {
+      id: 1,
+      title: "Copilot Pages in Loop",
+      generalAvailabilityDate: "2026-06",
+      modified: "2026-01-01T00:00:00.000Z",
+    });
+    insertFeature(db, {
+      id: 2,
+      title: "Teams meeting recap",
+      description: "Works with Copilot and Pages",
+      generalAvailabilityDate: "2026-03",
+      modified: "2026-05-01T00:00:00.000Z",
+    });
+    insertFeature(db, {
+      id: 3,
+      title: "Outlook Copilot Pages -- sharing",
+      modified: "2026-04-01T00:00:00.000Z",
+    });
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it("クエリ指定時は既定で bm25 の関連度順（タイトル一致を優先）にすること", () => {
+    const ids = searchFeatures(db, { query: "Copilot Pages" }).results.map(
+      (r) => r.id,
+    );
+
+    expect(ids[ids.length - 1]).toBe(2);
+    expect(ids.slice(0, 2).sort()).toEqual([1, 3]);
+  });
+
+  it("クエリ未指定時は modified の新しい順にすること", () => {
+    const ids = searchFeatures(db, {}).results.map((r) => r.id);
+
+    expect(ids).toEqual([2, 3, 1]);
+  });
+
+  it("GA 日付順では日付のないフィーチャーを方向に関係なく末尾にすること", () => {
+    const asc = searchFeatures(db, { sortBy: "gaDate", sortOrder: "asc" });
+    const desc = searchFeatures(db, { sortBy: "gaDate", sortOrder: "desc" });
+
+    expect(asc.results.map((r) => r.id)).toEqual([2, 1, 3]);
+    expect(desc.results.map((r) => r.id)).toEqual([1, 2, 3]);
+  });
+
+  it("LIKE 検索ではタイトル一致を説明のみの一致より上位にすること", () => {
+    insertFeature(db, {
+      id: 4,
+      title: "Release notes",
+      description: "See -- for details",
+      modified: "2026-06-01T00:00:00.000Z",
+    });
+
+    const result = searchFeatures(db, { query: "--" });
+
+    expect(result.results.map((r) => r.id)).toEqual([3, 4]);
+  });
+});
+
+describe("searchFeatures のスニペット", () => {
+  let db: Database.Database;
+
+  beforeEach(() => {
+    db = new Database(":memory:");
+    runMigrations(db);
+
+    insertFeature(db, {
+      id: 1,
+      title: "Microsoft Teams: Meeting recap",
+      description:
+        "Intelligent recap summarizes the meeting. " +
+        "It is available after the meeting ends for scheduled meetings and channel meetings. " +
+        "Users can review AI generated notes and share the recap with Copilot in Loop.",
+    });
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it("一致語をマーカーで囲んだタイトルとスニペットを返し、説明サマリは変えないこと", () => {
+    const [item] = searchFeatures(db, {
+      query: "copilot",
+      highlight: { start: "<mark>", end: "</mark>" },
+    }).results;
+
+    expect(item.highlightedTitle).toBe("Microsoft Teams: Meeting recap");
+    expect(item.snippet).toContain("<mark>Copilot</mark>");
+    expect(item.snippet?.startsWith("...")).toBe(true);
+    expect(item.description).not.toContain("<mark>");
+  });
+
+  it("LIKE 検索でも一致箇所を既定の Markdown 太字で囲むこと", () => {
+    const [item] = searchFeatures(db, { query: ":" }).results;
+
+    expect(item.highlightedTitle).toBe("Microsoft Teams**:** Meeting recap");
+    expect(item.snippet?.startsWith("Intelligent recap")).toBe(true);
+    expect(item.snippet?.endsWith("...")).toBe(true);
+  });
+
+  it("クエリ未指定時はスニペットを返さないこと", () => {
+    const [item] = searchFeatures(db, {}).results;
+
+    expect(item).not.toHaveProperty("snippet");
+    expect(item).not.toHaveProperty("highlightedTitle");
+  });
+});
+
+describe("searchFeatures の検索構文", () => {
+  let db: Database.Database;
+
+  beforeEach(() => {
+    db = new Database(":memory:");
+    runMigrations(db);
+
+    insertFeature(db, {
+      id: 1,
+      title: "Teams shared channels on Android",
+      products: ["Microsoft Teams"],
+      platforms: ["Android"],
+    });
+    insertFeature(db, {
+      id: 2,
+      title: "Shared channels in Teams desktop",
+      products: ["Microsoft Teams"],
+      status: "Rolling out",
+    });
+    insertFeature(db, {
+      id: 3,
+      title: "Loop workspaces",
+      description: "Channels shared with Whiteboard",
+      products: ["Microsoft Loop"],
+    });
+    insertFeature(db, {
+      id: 4,
+      title: "Whiteboard templates",
+      products: ["Microsoft Whiteboard"],
+    });
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  function searchIds(query: string): number[] {
+    return searchFeatures(db, { query })
+      .results.map((r) => r.id)
+      .sort();
+  }
+
+  it("フレーズと除外語で絞り込むこと", () => {
+    expect(searchIds('"shared channels" -Android')).toEqual([2]);
+    expect(searchIds("shared channels")).toEqual([1, 2, 3]);
+  });
+
+  it("タイトル指定の OR と製品・ステータス指定を組み合わせられること", () => {
+    expect(searchIds("title:Loop OR title:Whiteboard")).toEqual([3, 4]);
+    expect(searchIds('product:Teams status:"rolling out"')).toEqual([2]);
+    expect(searchIds("Whiteboard OR product:Teams")).toEqual([1, 2, 3, 4]);
+    expect(searchIds("channels -platform:Android")).toEqual([2, 3]);
+  });
+
+  it("ページングに関係なく検索結果全体のファセットを集計すること", () => {
+    const result = searchFeatures(db, {
+      query: "channels",
+      limit: 1,
+      facets: true,
+    });
+
+    expect(result.results).toHaveLength(1);
+    expect(result.facets?.products).toEqual([
+      { value: "Microsoft Teams", count: 2 },
+      { value: "Microsoft Loop", count: 1 },
+    ]);
+    expect(result.facets?.statuses).toEqual([
+      { value: "In development", count: 2 },
+      { value: "Rolling out", count: 1 },
+    ]);
+    expect(result.facets?.platforms).toEqual([{ value: "Android", count: 1 }]);
+    expect(searchFeatures(db, { query: "channels" })).not.toHaveProperty(
+      "facets",
+    );
+  });
+});
+
+describe("searchFeatures のクラウドインスタンス・リリースリング・可用性フィルタ", () => {
+  let db: Database.Database;
+
+  beforeEach(() => {
+    db = new Database(":memory:");
+    runMigrations(db);
+
+    insertFeature(db, {
+      id: 1,
+      cloudInstances: ["Worldwide (Standard Multi-Tenant)"],
+      releaseRings: ["Preview"],
+      availabilities: [
+        { ring: "Preview", year: 2026, month: "January" },
+        { ring: "Targeted Release", year: 2026, month: "March" },
+      ],
+    });
+    insertFeature(db, {
+      id: 2,
+      cloudInstances: ["GCC High", "DoD"],
+      releaseRings: ["General Availability"],
+      availabilities: [
+        { ring: "Preview", year: 2026, month: "Mar" },
+        { ring: "General Availability", year: 2026, month: "June" },
+      ],
+    });
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  function searchIds(filters: Parameters<typeof searchFeatures>[1]) {
+    return searchFeatures(db, filters)
+      .results.map((r) => r.id)
+      .sort();
+  }
+
+  it("クラウドインスタンスとリリースリングのいずれかを含むフィーチャーに絞り込むこと", () => {
+    expect(searchIds({ cloudInstances: ["GCC High"] })).toEqual([2]);
+    expect(
+      searchIds({ releaseRings: ["Preview", "General Availability"] }),
+    ).toEqual([1, 2]);
+  });
+
+  it("可用性の月とリングを同じエントリで一致させること", () => {
+    expect(searchIds({ availabilityMonth: "2026-03" })).toEqual([1, 2]);
+    expect(
+      searchIds({
+        availabilityMonth: "2026-03",
+        availabilityRing: "Targeted Release",
+      }),
+    ).toEqual([1]);
+    expect(
+      searchIds({ availabilityMonth: "2026-06", availabilityRing: "Preview" }),
+    ).toEqual([]);
+  });
+});
+
+describe("searchFeatures の製品・プラットフォームの一致条件と除外", () => {
+  let db: Database.Database;
+
+  beforeEach(() => {
+    db = new Database(":memory:");
+    runMigrations(db);
+
+    insertFeature(db, {
+      id: 1,
+      products: ["Microsoft Teams", "Outlook"],
+      platforms: ["iOS", "Android", "Web"],
+    });
+    insertFeature(db, {
+      id: 2,
+      products: ["Microsoft Teams"],
+      platforms: ["iOS"],
+    });
+    insertFeature(db, {
+      id: 3,
+      products: ["Outlook"],
+      platforms: ["Android", "Desktop"],
+    });
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  function searchIds(filters: Parameters<typeof searchFeatures>[1]) {
+    return searchFeatures(db, filters)
+      .results.map((r) => r.id)
+      .sort();
+  }
+
+  it("all の場合は指定値をすべて含むフィーチャーに絞り込むこと", () => {
+    const products = ["Microsoft Teams", "Outlook"];
+    expect(searchIds({ products })).toEqual([1, 2, 3]);
+    expect(searchIds({ products, productsMatch: "all" })).toEqual([1]);
+    expect(
+      searchIds({ platforms: ["iOS", "Android"], platformsMatch: "all" }),
+    ).toEqual([1]);
+  });
+
+  it("all で同じ値を重複して指定しても一致すること", () => {
+    expect(
+      searchIds({ platforms: ["iOS", "iOS"], platformsMatch: "all" }),
+    ).toEqual([1, 2]);
+  });
+
+  it("除外リストのいずれかを含むフィーチャーを除くこと", () => {
+    expect(searchIds({ excludeProducts: ["Outlook"] })).toEqual([2]);
+    expect(
+      searchIds({ products: ["Outlook"], excludePlatforms: ["Web"] }),
+    ).toEqual([3]);
+  });
+});
+
+describe("searchFeatures のキーセットページング", () => {
+  let db: Database.Database;
+
+  beforeEach(() => {
+    db = new Database(":memory:");
+    runMigrations(db);
+
+    for (let id = 1; id <= 7; id++) {
+      insertFeature(db, {
+        id,
+        title: id % 2 === 0 ? "Copilot in Teams" : "Copilot",
+        description: id % 3 === 0 ? "Copilot agents" : null,
+        generalAvailabilityDate: id % 4 === 0 ? null : `2026-0${(id % 3) + 1}`,
+        modified: `2026-01-0${(id % 2) + 1}T00:00:00.000Z`,
+      });
+    }
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  /** after を使って pageSize 件ずつ最後まで取得した id の列 */
+  function pageThrough(
+    filters: Parameters<typeof searchFeatures>[1],
+    pageSize: number,
+  ): number[] {
+    const ids: number[] = [];
+    let after: Parameters<typeof searchFeatures>[1]["after"];
+    for (;;) {
+      const page = searchFeatures(db, { ...filters, limit: pageSize, after });
+      ids.push(...page.results.map((r) => r.id));
+      if (page.results.length < pageSize) {
+        return ids;
+      }
+      after = page.positions[page.positions.length - 1];
+    }
+  }
+
+  it.each([
+    { query: "Copilot" },
+    { query: "Copilot", sortOrder: "asc" as const },
+    { sortBy: "gaDate" as const },
+    { sortBy: "gaDate" as const, sortOrder: "asc" as const },
+  ])("位置で続きを取得すると全件と同じ順序になること: %o", (filters) => {
+    const all = searchFeatures(db, filters).results.map((r) => r.id);
+
+    expect(all).toHaveLength(7);
+    expect(pageThrough(filters, 2)).toEqual(all);
+    expect(pageThrough(filters, 3)).toEqual(all);
+  });
+
+  it("ページの間に追加・削除されたフィーチャーで結果が重複・欠落しないこと", () => {
+    const first = searchFeatures(db, { sortBy: "gaDate", limit: 3 });
+    const firstIds = first.results.map((r) => r.id);
+
+    // 1 ページ目より前に並ぶフィーチャーの追加と、1 ページ目の削除
+    insertFeature(db, {
+      id: 100,
+      title: "Copilot",
+      generalAvailabilityDate: "2027-01",
+    });
+    db.prepare("DELETE FROM m365_features WHERE id = ?").run(firstIds[0]);
+
+    const rest = searchFeatures(db, {
+      sortBy: "gaDate",
+      after: first.positions[first.positions.length - 1],
+    }).results.map((r) => r.id);
+
+    expect(rest).toHaveLength(4);
+    expect(rest.some((id) => firstIds.includes(id) || id === 100)).toBe(false);
+  });
+
+  it("getSearchResultIds は全件と同じ順序の ID を返すこと", () => {
+    const filters = { query: "Copilot", sortOrder: "asc" as const };
+
+    expect(getSearchResultIds(db, filters)).toEqual(
+      searchFeatures(db, filters).results.map((r) => r.id),
+    );
+  });
+
+  it("featureIds 指定時はその順で、条件に一致するものだけ返すこと", () => {
+    db.prepare("DELETE FROM m365_features WHERE id = ?").run(5);
+
+    const result = searchFeatures(db, {
+      query: "Copilot",
+      featureIds: [6, 5, 1, 3],
+    });
+
+    expect(result.results.map((r) => r.id)).toEqual([6, 1, 3]);
+    expect(result.totalCount).toBe(6);
+  });
+
+  it("関連度順かどうかを判定すること", () => {
+    expect(isRelevanceOrdered({ query: "Copilot" })).toBe(true);
+    expect(isRelevanceOrdered({ query: "Copilot", sortBy: "gaDate" })).toBe(
+      false,
+    );
+    expect(isRelevanceOrdered({ sortBy: "relevance" })).toBe(false);
+  });
+});
+
+describe("searchFeatures の日付範囲", () => {
+  let db: Database.Database;
+
+  beforeEach(() => {
+    db = new Database(":memory:");
+    runMigrations(db);
+
+    insertFeature(db, {
+      id: 1,
+      generalAvailabilityDate: "2026-06",
+      previewAvailabilityDate: "2026-03",
+      created: "2026-01-10T08:00:00.000Z",
+      availabilities: [{ ring: "Preview", year: 2026, month: "March" }],
+    });
+    insertFeature(db, {
+      id: 2,
+      generalAvailabilityDate: "2026-03",
+      previewAvailabilityDate: null,
+      created: "2026-01-31T23:00:00.000Z",
+      availabilities: [
+        { ring: "General Availability", year: 2026, month: "Jun" },
+      ],
+    });
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  function searchIds(filters: Parameters<typeof searchFeatures>[1]) {
+    return searchFeatures(db, filters)
+      .results.map((r) => r.id)
+      .sort();
+  }
+
+  it("dateField で GA 日付以外の日付を対象にできること", () => {
+    expect(searchIds({ dateFrom: "2026-03", dateTo: "2026-03" })).toEqual([2]);
+    expect(
+      searchIds({
+        dateField: "preview",
+        dateFrom: "2026-03",
+        dateTo: "2026-03",
+      }),
+    ).toEqual([1]);
+    expect(
+      searchIds({
+        dateField: "availability",
+        dateFrom: "2026-06",
+        dateTo: "2026-12",
+      }),
+    ).toEqual([2]);
+    expect(
+      searchIds({
+        dateField: "availability",
+        dateFrom: "2026-01",
+        availabilityRing: "General Availability",
+      }),
+    ).toEqual([2]);
+  });
+
+  it("作成日時は日付のみの終了日をその日の終わりまで含めること", () => {
+    expect(
+      searchIds({
+        dateField: "created",
+        dateFrom: "2026-01-10",
+        dateTo: "2026-01-10",
+      }),
+    ).toEqual([1]);
+    expect(searchIds({ dateField: "created", dateTo: "2026-01" })).toEqual([
+      1, 2,
+    ]);
+    expect(
+      searchIds({ dateField: "created", dateFrom: "2026-01-10T09:00:00.000Z" }),
+    ).toEqual([2]);
+  });
+});
+
+describe("searchFeatures の日本語検索", () => {
+  let db: Database.Database;
+
+  beforeEach(() => {
+    db = new Database(":memory:");
+    runMigrations(db);
+
+    insertFeature(db, {
+      id: 1,
+      title: "Microsoft Teams: Intelligent recap for meetings",
+      modified: "2026-02-01T00:00:00.000Z",
+    });
+    insertFeature(db, {
+      id: 2,
+      title: "Word: Real-time co-authoring for encrypted documents",
+      modified: "2026-01-01T00:00:00.000Z",
+    });
+    insertFeature(db, {
+      id: 3,
+      title: "日本語のお知らせ",
+      description: "ホワイトボードで共同編集できるようになりました",
+      modified: "2026-03-01T00:00:00.000Z",
+    });
+    insertFeature(db, {
+      id: 4,
+      title: "Outlook: Password reset and profile photos",
+      description: "Set a keyword to find your profile",
+      modified: "2026-01-15T00:00:00.000Z",
+    });
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  function searchIds(query: string): number[] {
+    return searchFeatures(db, { query })
+      .results.map((r) => r.id)
+      .sort();
+  }
+
+  it("カタカナの部分一致と 2 文字の語で日本語のテキストを検索できること", () => {
+    expect(searchIds("ワイトボー")).toEqual([3]);
+    expect(searchIds("お知")).toEqual([3]);
+  });
+
+  it("日本語の語を英語のロードマップ用語に展開すること", () => {
+    expect(searchIds("チームズ")).toEqual([1]);
+    expect(searchIds("会議")).toEqual([1]);
+    expect(searchIds("共同編集")).toEqual([2, 3]);
+  });
+
+  it("空白のない日本語の連続に含まれる辞書の語も展開すること", () => {
+    expect(searchIds("チームズ会議")).toEqual([1]);
+    expect(searchIds("アウトルックのプロファイル")).toEqual([4]);
+  });
+
+  it("展開した英語の語は別の単語の一部に一致しないこと", () => {
+    // "file" は "profile" に、"Word" は "password" / "keyword" に一致させない
+    expect(searchIds("ファイル")).toEqual([]);
+    expect(searchIds("ワード")).toEqual([]);
+  });
+
+  it("trigram 検索でも一致箇所をハイライトすること", () => {
+    const [item] = searchFeatures(db, { query: "ワイトボー" }).results;
+
+    expect(item.snippet).toContain("ホ**ワイトボー**ド");
+  });
+});
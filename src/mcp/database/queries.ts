@@ -6,13 +6,47 @@
 
 import type Database from "better-sqlite3";
 import type {
+  M365FacetCount,
+  M365HighlightMarkers,
   M365RoadmapFeature,
+  M365SearchFacets,
   M365SearchFilters,
+  M365SearchPosition,
   M365SearchResultItem,
+  M365SortField,
+  M365StoredFeature,
 } from "../api/types.js";
+import {
+  compileSearchQuery,
+  escapeLikePattern,
+  parseSearchQuery,
+} from "./searchQuery.js";
+import { expandSearchQuery } from "./queryExpansion.js";
+import { MONTH_NAMES, yearMonthToIndex } from "../utils/months.js";
 
-function escapeLikePattern(value: string): string {
-  return value.replace(/[\\%_]/g, "\\$&");
+/** DB ごとの準備済みステートメント（SQL → ステートメント） */
+const statementCache = new WeakMap<
+  Database.Database,
+  Map<string, Database.Statement>
+>();
+
+/**
+ * 準備済みステートメントを取得（同じ SQL は DB ごとに 1 回だけ準備する）
+ *
+ * 関連データの取得など、繰り返し実行する固定の SQL に使う
+ */
+function prepareCached(db: Database.Database, sql: string): Database.Statement {
+  let cache = statementCache.get(db);
+  if (!cache) {
+    cache = new Map();
+    statementCache.set(db, cache);
+  }
+  let statement = cache.get(sql);
+  if (!statement) {
+    statement = db.prepare(sql);
+    cache.set(sql, statement);
+  }
+  return statement;
 }
 
 export function buildFtsPrefixQuery(query: string): string | null {
@@ -26,6 +60,97 @@ export function buildFtsPrefixQuery(query: string): string | null {
   return tokens.length > 0 ? tokens.join(" ") : null;
 }
 
+/**
+ * 製品・プラットフォーム・クラウドインスタンス・リリースリング・可用性フィルタの
+ * WHERE 句を構築（f.id を対象）
+ */
+function buildRelationFilterClause(
+  filters: Pick<
+    M365SearchFilters,
+    | "products"
+    | "productsMatch"
+    | "excludeProducts"
+    | "platforms"
+    | "platformsMatch"
+    | "excludePlatforms"
+    | "cloudInstances"
+    | "releaseRings"
+    | "availabilityMonth"
+    | "availabilityRing"
+  >,
+): { clause: string; params: unknown[] } {
+  let clause = "";
+  const params: unknown[] = [];
+
+  // 製品・プラットフォームフィルタ（all は指定値をすべて持つフィーチャーに絞る）
+  for (const { table, column, values, match, excluded } of [
+    {
+      table: "feature_products",
+      column: "product",
+      values: filters.products,
+      match: filters.productsMatch,
+      excluded: filters.excludeProducts,
+    },
+    {
+      table: "feature_platforms",
+      column: "platform",
+      values: filters.platforms,
+      match: filters.platformsMatch,
+      excluded: filters.excludePlatforms,
+    },
+  ]) {
+    if (values && values.length > 0) {
+      const distinct = [...new Set(values)];
+      const placeholders = distinct.map(() => "?").join(", ");
+      if (match === "all" && distinct.length > 1) {
+        clause += ` AND f.id IN (SELECT feature_id FROM ${table} WHERE ${column} IN (${placeholders}) GROUP BY feature_id HAVING COUNT(*) = ?)`;
+        params.push(...distinct, distinct.length);
+      } else {
+        clause += ` AND f.id IN (SELECT feature_id FROM ${table} WHERE ${column} IN (${placeholders}))`;
+        params.push(...distinct);
+      }
+    }
+    if (excluded && excluded.length > 0) {
+      const placeholders = excluded.map(() => "?").join(", ");
+      clause += ` AND f.id NOT IN (SELECT feature_id FROM ${table} WHERE ${column} IN (${placeholders}))`;
+      params.push(...excluded);
+    }
+  }
+
+  // クラウドインスタンスフィルタ
+  if (filters.cloudInstances && filters.cloudInstances.length > 0) {
+    const placeholders = filters.cloudInstances.map(() => "?").join(", ");
+    clause += ` AND f.id IN (SELECT feature_id FROM feature_cloud_instances WHERE cloud_instance IN (${placeholders}))`;
+    params.push(...filters.cloudInstances);
+  }
+
+  // リリースリングフィルタ
+  if (filters.releaseRings && filters.releaseRings.length > 0) {
+    const placeholders = filters.releaseRings.map(() => "?").join(", ");
+    clause += ` AND f.id IN (SELECT feature_id FROM feature_release_rings WHERE release_ring IN (${placeholders}))`;
+    params.push(...filters.releaseRings);
+  }
+
+  // 可用性フィルタ（月とリングは同じ可用性エントリで一致させる）
+  if (filters.availabilityMonth || filters.availabilityRing) {
+    let availabilityWhere = "1=1";
+    if (filters.availabilityMonth) {
+      // 月は英語名（"February" や "Feb"）で保存されている
+      const [year, month] = filters.availabilityMonth.split("-").map(Number);
+      const monthName = MONTH_NAMES[month - 1].toLowerCase();
+      availabilityWhere += " AND year = ? AND lower(month) IN (?, ?)";
+      params.push(year, monthName, monthName.slice(0, 3));
+    }
+    if (filters.availabilityRing) {
+      availabilityWhere += " AND ring = ?";
+      params.push(filters.availabilityRing);
+    }
+    clause += ` AND f.id IN (SELECT feature_id FROM feature_availabilities WHERE ${availabilityWhere})`;
+  }
+
+  return { clause, params };
+}
+
 // ============================================================
 // 同期チェックポイント
 // ============================================================
@@ -62,23 +187,6 @@ export function getSyncCheckpoint(
   return row ?? null;
 }
 
-/**
- * 同期開始（ロック取得）
- */
-export function startSync(db: Database.Database): boolean {
-  const result = db
-    .prepare(
-      `
-        UPDATE sync_checkpoint
-        SET sync_status = 'syncing', updated_at = datetime('now')
-        WHERE id = 1 AND sync_status != 'syncing'
-    `,
-    )
-    .run();
-
-  return result.changes > 0;
-}
-
 /**
  * 同期成功で完了
  */
@@ -122,6 +230,277 @@ export function completeSyncFailure(
   ).run(errorMessage);
 }
 
+// ============================================================
+// 同期リース
+// ============================================================
+
+/**
+ * 同期リース（同期を実行中のプロセス）
+ */
+export interface SyncLease {
+  ownerId: string;
+  ownerPid: number;
+  ownerHost: string;
+  acquiredAt: string;
+  expiresAt: string;
+}
+
+/**
+ * 同期リースを取得
+ */
+export function getSyncLease(db: Database.Database): SyncLease | null {
+  const row = db
+    .prepare(
+      `
+        SELECT
+            owner_id as ownerId,
+            owner_pid as ownerPid,
+            owner_host as ownerHost,
+            acquired_at as acquiredAt,
+            expires_at as expiresAt
+        FROM sync_lease
+        WHERE id = 1
+    `,
+    )
+    .get() as SyncLease | undefined;
+
+  return row ?? null;
+}
+
+/**
+ * 同期リースを書き込み（既存のリースは置き換え）
+ */
+export function upsertSyncLease(db: Database.Database, lease: SyncLease): void {
+  db.prepare(
+    `
+        INSERT INTO sync_lease (id, owner_id, owner_pid, owner_host, acquired_at, expires_at)
+        VALUES (1, ?, ?, ?, ?, ?)
+        ON CONFLICT(id) DO UPDATE SET
+            owner_id = excluded.owner_id,
+            owner_pid = excluded.owner_pid,
+            owner_host = excluded.owner_host,
+            acquired_at = excluded.acquired_at,
+            expires_at = excluded.expires_at
+    `,
+  ).run(
+    lease.ownerId,
+    lease.ownerPid,
+    lease.ownerHost,
+    lease.acquiredAt,
+    lease.expiresAt,
+  );
+}
+
+/**
+ * 保持中の同期リースの有効期限を延長
+ *
+ * @returns 延長できた場合 true（他のプロセスに奪われていた場合は false）
+ */
+export function extendSyncLease(
+  db: Database.Database,
+  ownerId: string,
+  expiresAt: string,
+): boolean {
+  const result = db
+    .prepare(
+      "UPDATE sync_lease SET expires_at = ? WHERE id = 1 AND owner_id = ?",
+    )
+    .run(expiresAt, ownerId);
+  return result.changes > 0;
+}
+
+/**
+ * 保持中の同期リースを削除
+ */
+export function deleteSyncLease(db: Database.Database, ownerId: string): void {
+  db.prepare("DELETE FROM sync_lease WHERE id = 1 AND owner_id = ?").run(
+    ownerId,
+  );
+}
+
+// ============================================================
+// 同期実行ログ
+// ============================================================
+
+/**
+ * 同期のきっかけ
+ */
+export type SyncTrigger = "startup" | "scheduled" | "tool" | "forced";
+
+/**
+ * 同期実行の結果種別
+ */
+export type SyncOutcome =
+  "running" | "success" | "not_modified" | "error" | "skipped" | "abandoned";
+
+/**
+ * 同期実行ログ
+ */
+export interface SyncRun {
+  id: string;
+  trigger: SyncTrigger;
+  startedAt: string;
+  endedAt: string | null;
+  outcome: SyncOutcome;
+  httpStatus: number | null;
+  recordsInserted: number;
+  recordsUpdated: number;
+  recordsRemoved: number;
+  etag: string | null;
+  error: string | null;
+}
+
+/**
+ * 同期実行ログを開始
+ *
+ * @param id 実行ごとに一意な ID
+ * @param startedAt 開始日時（ISO 8601）
+ */
+export function startSyncRun(
+  db: Database.Database,
+  id: string,
+  trigger: SyncTrigger,
+  startedAt: string,
+): void {
+  db.prepare(
+    `
+        INSERT INTO sync_runs (id, trigger, started_at, outcome)
+        VALUES (?, ?, ?, 'running')
+    `,
+  ).run(id, trigger, startedAt);
+}
+
+/**
+ * 同期実行ログを完了
+ */
+export function finishSyncRun(
+  db: Database.Database,
+  id: string,
+  result: {
+    outcome: Exclude<SyncOutcome, "running">;
+    httpStatus?: number | null;
+    recordsInserted?: number;
+    recordsUpdated?: number;
+    recordsRemoved?: number;
+    etag?: string | null;
+    error?: string | null;
+  },
+): void {
+  db.prepare(
+    `
+        UPDATE sync_runs
+        SET
+            ended_at = ?,
+            outcome = ?,
+            http_status = ?,
+            records_inserted = ?,
+            records_updated = ?,
+            records_removed = ?,
+            etag = ?,
+            error = ?
+        WHERE id = ?
+    `,
+  ).run(
+    new Date().toISOString(),
+    result.outcome,
+    result.httpStatus ?? null,
+    result.recordsInserted ?? 0,
+    result.recordsUpdated ?? 0,
+    result.recordsRemoved ?? 0,
+    result.etag ?? null,
+    result.error ?? null,
+    id,
+  );
+}
+
+/**
+ * 実行中のまま残った同期実行ログを中断扱いにする
+ *
+ * 同期中に終了したプロセスのリースを引き継ぐときに使う
+ *
+ * @returns 中断扱いにした件数
+ */
+export function abandonSyncRun(
+  db: Database.Database,
+  id: string,
+  endedAt: string,
+): number {
+  return db
+    .prepare(
+      `
+        UPDATE sync_runs
+        SET ended_at = ?, outcome = 'abandoned', error = 'Sync did not finish (lease taken over)'
+        WHERE id = ? AND outcome = 'running'
+    `,
+    )
+    .run(endedAt, id).changes;
+}
+
+/**
+ * 最後に完了した同期実行ログを取得（成功または 304 のもの。なければ null）
+ */
+export function getLatestCompletedSyncRun(
+  db: Database.Database,
+): SyncRun | null {
+  const row = db
+    .prepare(
+      `
+        SELECT
+            id,
+            trigger,
+            started_at as startedAt,
+            ended_at as endedAt,
+            outcome,
+            http_status as httpStatus,
+            records_inserted as recordsInserted,
+            records_updated as recordsUpdated,
+            records_removed as recordsRemoved,
+            etag,
+            error
+        FROM sync_runs
+        WHERE outcome IN ('success', 'not_modified') AND ended_at IS NOT NULL
+        ORDER BY ended_at DESC
+        LIMIT 1
+    `,
+    )
+    .get() as SyncRun | undefined;
+
+  return row ?? null;
+}
+
+/**
+ * 同期実行ログを取得（新しい順）
+ *
+ * @param since この日時以降に開始した実行のみ取得（ISO 8601）
+ */
+export function getSyncRuns(
+  db: Database.Database,
+  options: { since?: string; limit: number },
+): SyncRun[] {
+  return db
+    .prepare(
+      `
+        SELECT
+            id,
+            trigger,
+            started_at as startedAt,
+            ended_at as endedAt,
+            outcome,
+            http_status as httpStatus,
+            records_inserted as recordsInserted,
+            records_updated as recordsUpdated,
+            records_removed as recordsRemoved,
+            etag,
+            error
+        FROM sync_runs
+        WHERE started_at >= ?
+        ORDER BY started_at DESC
+        LIMIT ?
+    `,
+    )
+    .all(options.since ?? "", options.limit) as SyncRun[];
+}
+
 // ============================================================
 // ETag キャッシュ
 // ============================================================
@@ -130,24 +509,17 @@ export function completeSyncFailure(
  * 保存された ETag を取得
  */
 export function getStoredETag(db: Database.Database): string | null {
-  try {
-    const row = db.prepare("SELECT etag FROM api_cache WHERE id = 1").get() as
-      | { etag: string | null }
-      | undefined;
-    return row?.etag ?? null;
-  } catch {
-    // テーブルが存在しない場合（古い DB）
-    return null;
-  }
+  const row = db.prepare("SELECT etag FROM api_cache WHERE id = 1").get() as
+    { etag: string | null } | undefined;
+  return row?.etag ?? null;
 }
 
 /**
  * ETag を保存
  */
 export function saveETag(db: Database.Database, etag: string): void {
-  try {
-    db.prepare(
-      `
+  db.prepare(
+    `
         INSERT INTO api_cache (id, etag, last_checked, updated_at)
         VALUES (1, ?, datetime('now'), datetime('now'))
         ON CONFLICT(id) DO UPDATE SET
@@ -155,20 +527,7 @@ export function saveETag(db: Database.Database, etag: string): void {
             last_checked = datetime('now'),
             updated_at = datetime('now')
       `,
-    ).run(etag);
-  } catch {
-    // テーブルが存在しない場合は無視
-  }
-}
-
-/**
- * 最新の modified 日時を取得
- */
-export function getLastModified(db: Database.Database): string | null {
-  const row = db
-    .prepare("SELECT MAX(modified) as lastModified FROM m365_features")
-    .get() as { lastModified: string | null } | undefined;
-  return row?.lastModified ?? null;
+  ).run(etag);
 }
 
 // ============================================================
@@ -177,22 +536,27 @@ export function getLastModified(db: Database.Database): string | null {
 
 /**
  * フィーチャーを UPSERT
+ *
+ * @param contentHash 関連データを含むコンテンツハッシュ（差分同期用）
  */
 export function upsertFeature(
   db: Database.Database,
   feature: M365RoadmapFeature,
+  contentHash: string | null = null,
 ): void {
   db.prepare(
     `
-        INSERT INTO m365_features (id, title, description, status, general_availability_date, preview_availability_date, created, modified)
-        VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+        INSERT INTO m365_features (id, title, description, status, general_availability_date, preview_availability_date, created, modified, content_hash)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
         ON CONFLICT(id) DO UPDATE SET
             title = excluded.title,
             description = excluded.description,
             status = excluded.status,
             general_availability_date = excluded.general_availability_date,
             preview_availability_date = excluded.preview_availability_date,
-            modified = excluded.modified
+            created = excluded.created,
+            modified = excluded.modified,
+            content_hash = excluded.content_hash
     `,
   ).run(
     feature.id,
@@ -203,6 +567,7 @@ export function upsertFeature(
     feature.previewAvailabilityDate,
     feature.created,
     feature.modified,
+    contentHash,
   );
 }
 
@@ -316,183 +681,978 @@ export function getFeatureCount(db: Database.Database): number {
   return result.count;
 }
 
-// ============================================================
-// 検索クエリ
-// ============================================================
-
 /**
- * フィーチャーを検索
+ * フィーチャーを関連データ込みで一括取得（差分同期・検証用）
+ *
+ * 関連テーブルはテーブルごとに 1 回だけ読み込む
+ *
+ * @param ids 取得するフィーチャー ID（省略時は全件）
+ * @returns フィーチャー ID → フィーチャー（contentHash は保存済みのハッシュ）
  */
-export function searchFeatures(
+export function getStoredFeatures(
   db: Database.Database,
-  filters: M365SearchFilters,
-): { results: M365SearchResultItem[]; totalCount: number } {
-  // limit が指定されていない場合は全件返す（-1 = 全件）
-  const limit = filters.limit ?? 10000;
-  const offset = filters.offset ?? 0;
-
-  let whereClause = "1=1";
-  const params: unknown[] = [];
-
-  // FTS 検索
-  let useFts = false;
-  let ftsQuery: string | null = null;
-  if (filters.query && filters.query.trim()) {
-    const builtFtsQuery = buildFtsPrefixQuery(filters.query);
-    if (builtFtsQuery) {
-      useFts = true;
-      ftsQuery = builtFtsQuery;
-    } else {
-      const likeQuery = `%${escapeLikePattern(filters.query.trim())}%`;
-      whereClause +=
-        " AND (f.title LIKE ? ESCAPE '\\\\' OR COALESCE(f.description, '') LIKE ? ESCAPE '\\\\')";
-      params.push(likeQuery, likeQuery);
-    }
-  }
-
-  // ステータスフィルタ
-  if (filters.status) {
-    whereClause += " AND f.status = ?";
-    params.push(filters.status);
-  }
-
-  // GA 日付範囲
-  if (filters.dateFrom) {
-    whereClause += " AND f.general_availability_date >= ?";
-    params.push(filters.dateFrom);
-  }
-  if (filters.dateTo) {
-    whereClause += " AND f.general_availability_date <= ?";
-    params.push(filters.dateTo);
-  }
-
-  // 製品フィルタ
-  if (filters.products && filters.products.length > 0) {
-    const placeholders = filters.products.map(() => "?").join(", ");
-    whereClause += ` AND f.id IN (SELECT feature_id FROM feature_products WHERE product IN (${placeholders}))`;
-    params.push(...filters.products);
-  }
-
-  // プラットフォームフィルタ
-  if (filters.platforms && filters.platforms.length > 0) {
-    const placeholders = filters.platforms.map(() => "?").join(", ");
-    whereClause += ` AND f.id IN (SELECT feature_id FROM feature_platforms WHERE platform IN (${placeholders}))`;
-    params.push(...filters.platforms);
+  ids?: number[],
+): Map<number, M365StoredFeature & { contentHash: string | null }> {
+  const features = new Map<
+    number,
+    M365StoredFeature & { contentHash: string | null }
+  >();
+  if (ids && ids.length === 0) {
+    return features;
   }
 
-  let sql: string;
-  let countSql: string;
-
-  if (useFts) {
-    sql = `
-            SELECT 
-                f.id,
-                f.title,
-                f.description,
-                f.status,
-                f.general_availability_date as generalAvailabilityDate,
-                f.preview_availability_date as previewAvailabilityDate,
-                f.modified
-            FROM m365_features f
-            JOIN m365_features_fts fts ON f.id = fts.rowid
-            WHERE m365_features_fts MATCH ?
-            AND ${whereClause}
-            ORDER BY f.modified DESC
-            LIMIT ? OFFSET ?
-        `;
-
-    countSql = `
-            SELECT COUNT(*) as count
-            FROM m365_features f
-            JOIN m365_features_fts fts ON f.id = fts.rowid
-            WHERE m365_features_fts MATCH ?
-            AND ${whereClause}
-        `;
-
-        params.unshift(ftsQuery);
-  } else {
-    sql = `
-            SELECT 
-                f.id,
-                f.title,
-                f.description,
-                f.status,
-                f.general_availability_date as generalAvailabilityDate,
-                f.preview_availability_date as previewAvailabilityDate,
-                f.modified
-            FROM m365_features f
-            WHERE ${whereClause}
-            ORDER BY f.modified DESC
-            LIMIT ? OFFSET ?
-        `;
-
-    countSql = `
-            SELECT COUNT(*) as count
-            FROM m365_features f
-            WHERE ${whereClause}
-        `;
-  }
+  const idsJson = ids ? JSON.stringify(ids) : null;
+  const whereId = (column: string): string =>
+    idsJson ? ` WHERE ${column} IN (SELECT value FROM json_each(?))` : "";
+  const params = idsJson ? [idsJson] : [];
 
-  // 結果取得
-  const rows = db.prepare(sql).all(...params, limit, offset) as Array<{
+  const rows = db
+    .prepare(
+      `
+        SELECT
+            id,
+            title,
+            description,
+            status,
+            general_availability_date as generalAvailabilityDate,
+            preview_availability_date as previewAvailabilityDate,
+            created,
+            modified,
+            removed_at as removedAt,
+            content_hash as contentHash
+        FROM m365_features${whereId("id")}
+    `,
+    )
+    .all(...params) as Array<{
     id: number;
     title: string;
     description: string | null;
     status: string;
     generalAvailabilityDate: string | null;
     previewAvailabilityDate: string | null;
+    created: string;
     modified: string;
+    removedAt: string | null;
+    contentHash: string | null;
   }>;
 
-  // 件数取得
-  const countResult = db.prepare(countSql).get(...params) as { count: number };
+  for (const row of rows) {
+    features.set(row.id, {
+      ...row,
+      products: [],
+      platforms: [],
+      cloudInstances: [],
+      releaseRings: [],
+      availabilities: [],
+    });
+  }
 
-  // 各フィーチャーの製品・プラットフォームを取得
-  const results: M365SearchResultItem[] = rows.map((row) => {
-    const products = db
-      .prepare("SELECT product FROM feature_products WHERE feature_id = ?")
-      .all(row.id) as { product: string }[];
-    const platforms = db
-      .prepare("SELECT platform FROM feature_platforms WHERE feature_id = ?")
-      .all(row.id) as { platform: string }[];
+  const appendValues = (
+    table: string,
+    columns: string,
+    apply: (feature: M365StoredFeature, row: Record<string, unknown>) => void,
+  ): void => {
+    const rowsToApply = prepareCached(
+      db,
+      `SELECT feature_id as featureId, ${columns} FROM ${table}${whereId("feature_id")} ORDER BY rowid`,
+    ).all(...params) as Record<string, unknown>[];
+    for (const row of rowsToApply) {
+      const feature = features.get(row.featureId as number);
+      if (feature) {
+        apply(feature, row);
+      }
+    }
+  };
 
-    // description の最初の 200 文字をサマリとして返す
-    const descriptionSummary = row.description
-      ? row.description.length > 200
-        ? row.description.substring(0, 200) + "..."
-        : row.description
-      : null;
+  appendValues("feature_products", "product", (f, row) =>
+    f.products.push(row.product as string),
+  );
+  appendValues("feature_platforms", "platform", (f, row) =>
+    f.platforms.push(row.platform as string),
+  );
+  appendValues("feature_cloud_instances", "cloud_instance", (f, row) =>
+    f.cloudInstances.push(row.cloud_instance as string),
+  );
+  appendValues("feature_release_rings", "release_ring", (f, row) =>
+    f.releaseRings.push(row.release_ring as string),
+  );
+  appendValues("feature_availabilities", "ring, year, month", (f, row) =>
+    f.availabilities.push({
+      ring: row.ring as string,
+      year: row.year as number,
+      month: row.month as string,
+    }),
+  );
 
-    return {
-      id: row.id,
-      title: row.title,
-      description: descriptionSummary,
+  return features;
+}
+
+// ============================================================
+// 削除検出（トゥームストーン）
+// ============================================================
+
+/**
+ * 削除されていないフィーチャー ID を取得
+ */
+export function getActiveFeatureIds(db: Database.Database): number[] {
+  const rows = db
+    .prepare("SELECT id FROM m365_features WHERE removed_at IS NULL")
+    .all() as { id: number }[];
+  return rows.map((r) => r.id);
+}
+
+/**
+ * 削除済みフィーチャー ID を取得
+ */
+export function getRemovedFeatureIds(db: Database.Database): number[] {
+  const rows = db
+    .prepare("SELECT id FROM m365_features WHERE removed_at IS NOT NULL")
+    .all() as { id: number }[];
+  return rows.map((r) => r.id);
+}
+
+/**
+ * フィーチャーを削除済みとしてマーク（行は残す）
+ */
+export function markFeatureRemoved(
+  db: Database.Database,
+  featureId: number,
+  removedAt: string,
+): void {
+  db.prepare("UPDATE m365_features SET removed_at = ? WHERE id = ?").run(
+    removedAt,
+    featureId,
+  );
+}
+
+/**
+ * 削除済みマークを解除（ロードマップに再掲載された場合）
+ */
+export function clearFeatureRemoved(
+  db: Database.Database,
+  featureId: number,
+): void {
+  db.prepare("UPDATE m365_features SET removed_at = NULL WHERE id = ?").run(
+    featureId,
+  );
+}
+
+// ============================================================
+// 変更履歴
+// ============================================================
+
+/**
+ * 変更種別
+ */
+export type FeatureChangeType = "added" | "changed" | "removed" | "restored";
+
+/**
+ * フィールド単位の変更
+ */
+export interface FeatureFieldChange {
+  field: string;
+  oldValue: string | null;
+  newValue: string | null;
+}
+
+/**
+ * 変更履歴エントリ
+ */
+export interface FeatureHistoryEntry {
+  featureId: number;
+  syncRun: string;
+  changeType: FeatureChangeType;
+  field: string | null;
+  oldValue: string | null;
+  newValue: string | null;
+  changedAt: string;
+}
+
+/**
+ * 変更履歴を記録
+ *
+ * changes が空の場合（added / removed / restored）はフィールドなしの 1 行を記録する
+ */
+export function insertFeatureHistory(
+  db: Database.Database,
+  featureId: number,
+  syncRun: string,
+  changeType: FeatureChangeType,
+  changes: FeatureFieldChange[],
+  changedAt: string,
+): void {
+  const insert = db.prepare(
+    `
+        INSERT INTO feature_history (feature_id, sync_run, change_type, field, old_value, new_value, changed_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?)
+    `,
+  );
+
+  if (changes.length === 0) {
+    insert.run(featureId, syncRun, changeType, null, null, null, changedAt);
+    return;
+  }
+
+  for (const change of changes) {
+    insert.run(
+      featureId,
+      syncRun,
+      changeType,
+      change.field,
+      change.oldValue,
+      change.newValue,
+      changedAt,
+    );
+  }
+}
+
+/**
+ * フィーチャーの変更履歴を取得（古い順）
+ */
+export function getFeatureHistory(
+  db: Database.Database,
+  featureId: number,
+): FeatureHistoryEntry[] {
+  return db
+    .prepare(
+      `
+        SELECT
+            feature_id as featureId,
+            sync_run as syncRun,
+            change_type as changeType,
+            field,
+            old_value as oldValue,
+            new_value as newValue,
+            changed_at as changedAt
+        FROM feature_history
+        WHERE feature_id = ?
+        ORDER BY changed_at, id
+    `,
+    )
+    .all(featureId) as FeatureHistoryEntry[];
+}
+
+/**
+ * 変更履歴エントリ（フィーチャー情報付き）
+ */
+export interface FeatureChangeEntry extends FeatureHistoryEntry {
+  title: string;
+  status: string;
+}
+
+/**
+ * 指定条件以降の変更履歴を取得（古い順）
+ *
+ * @param since この日時以降（ISO 8601）の変更を取得
+ * @param syncRun 指定した同期実行の変更のみ取得
+ * @param fields 指定したフィールドの変更のみ取得
+ */
+export function getFeatureChanges(
+  db: Database.Database,
+  options: {
+    since?: string;
+    syncRun?: string;
+    fields?: string[];
+  } & Pick<M365SearchFilters, "products" | "platforms" | "status">,
+): FeatureChangeEntry[] {
+  let whereClause = "1=1";
+  const params: unknown[] = [];
+
+  if (options.fields && options.fields.length > 0) {
+    const placeholders = options.fields.map(() => "?").join(", ");
+    whereClause += ` AND h.field IN (${placeholders})`;
+    params.push(...options.fields);
+  }
+
+  if (options.since) {
+    whereClause += " AND h.changed_at >= ?";
+    params.push(options.since);
+  }
+
+  if (options.syncRun) {
+    whereClause += " AND h.sync_run = ?";
+    params.push(options.syncRun);
+  }
+
+  if (options.status) {
+    whereClause += " AND f.status = ?";
+    params.push(options.status);
+  }
+
+  const relationFilter = buildRelationFilterClause(options);
+  whereClause += relationFilter.clause;
+  params.push(...relationFilter.params);
+
+  return db
+    .prepare(
+      `
+        SELECT
+            h.feature_id as featureId,
+            h.sync_run as syncRun,
+            h.change_type as changeType,
+            h.field,
+            h.old_value as oldValue,
+            h.new_value as newValue,
+            h.changed_at as changedAt,
+            f.title,
+            f.status
+        FROM feature_history h
+        JOIN m365_features f ON f.id = h.feature_id
+        WHERE ${whereClause}
+        ORDER BY h.changed_at, h.id
+    `,
+    )
+    .all(...params) as FeatureChangeEntry[];
+}
+
+// ============================================================
+// 検索クエリ
+// ============================================================
+
+/** 年月を表す日付フィルタの対象 → 列 */
+const MONTH_DATE_COLUMNS = {
+  ga: "f.general_availability_date",
+  preview: "f.preview_availability_date",
+} as const;
+
+/** 日時を表す日付フィルタの対象 → 列（ISO 8601） */
+const TIMESTAMP_DATE_COLUMNS = {
+  created: "f.created",
+  modified: "f.modified",
+} as const;
+
+/**
+ * feature_availabilities の年と月名（"February" / "Feb"）から通算月数を求める式
+ */
+const AVAILABILITY_MONTH_INDEX_EXPR =
+  "(year * 12 + (instr('janfebmaraprmayjunjulaugsepoctnovdec', lower(substr(month, 1, 3))) - 1) / 3)";
+
+/**
+ * 日付のみ（YYYY-MM / YYYY-MM-DD）の終了日を、その翌月・翌日の開始（排他的な上限）に変換
+ *
+ * @returns 日時が指定されている場合は null（その日時を含む上限として扱う）
+ */
+function toExclusiveUpperBound(value: string): string | null {
+  const match = /^(\d{4})-(\d{2})(?:-(\d{2}))?$/.exec(value);
+  if (!match) {
+    return null;
+  }
+  const [year, month, day] = [match[1], match[2], match[3]].map(Number);
+  const next = match[3]
+    ? new Date(Date.UTC(year, month - 1, day + 1))
+    : new Date(Date.UTC(year, month, 1));
+  return next.toISOString().slice(0, match[3] ? 10 : 7);
+}
+
+/**
+ * 日付範囲フィルタの WHERE 句を構築（f.id を対象）
+ */
+function buildDateFilterClause(
+  filters: Pick<
+    M365SearchFilters,
+    "dateField" | "dateFrom" | "dateTo" | "availabilityRing"
+  >,
+): { clause: string; params: unknown[] } {
+  let clause = "";
+  const params: unknown[] = [];
+  const { dateFrom, dateTo } = filters;
+  const dateField = filters.dateField ?? "ga";
+
+  if (!dateFrom && !dateTo) {
+    return { clause, params };
+  }
+
+  if (dateField === "availability") {
+    let availabilityWhere = "1=1";
+    if (dateFrom) {
+      availabilityWhere += ` AND ${AVAILABILITY_MONTH_INDEX_EXPR} >= ?`;
+      params.push(yearMonthToIndex(dateFrom));
+    }
+    if (dateTo) {
+      availabilityWhere += ` AND ${AVAILABILITY_MONTH_INDEX_EXPR} <= ?`;
+      params.push(yearMonthToIndex(dateTo));
+    }
+    // リング指定時は同じ可用性エントリで一致させる
+    if (filters.availabilityRing) {
+      availabilityWhere += " AND ring = ?";
+      params.push(filters.availabilityRing);
+    }
+    clause += ` AND f.id IN (SELECT feature_id FROM feature_availabilities WHERE ${availabilityWhere})`;
+    return { clause, params };
+  }
+
+  if (dateField === "created" || dateField === "modified") {
+    const column = TIMESTAMP_DATE_COLUMNS[dateField];
+    if (dateFrom) {
+      clause += ` AND ${column} >= ?`;
+      params.push(dateFrom);
+    }
+    if (dateTo) {
+      const upper = toExclusiveUpperBound(dateTo);
+      clause += ` AND ${column} ${upper ? "<" : "<="} ?`;
+      params.push(upper ?? dateTo);
+    }
+    return { clause, params };
+  }
+
+  const column = MONTH_DATE_COLUMNS[dateField];
+  if (dateFrom) {
+    clause += ` AND ${column} >= ?`;
+    params.push(dateFrom.slice(0, 7));
+  }
+  if (dateTo) {
+    clause += ` AND ${column} <= ?`;
+    params.push(dateTo.slice(0, 7));
+  }
+  return { clause, params };
+}
+
+/**
+ * bm25 の列ごとの重み（title, description）。タイトル一致を説明一致より重視する
+ */
+const BM25_TITLE_WEIGHT = 10.0;
+const BM25_DESCRIPTION_WEIGHT = 1.0;
+
+/** 一致箇所マーカーの既定値（Markdown の太字） */
+const DEFAULT_HIGHLIGHT_MARKERS: M365HighlightMarkers = {
+  start: "**",
+  end: "**",
+};
+
+/** スニペットの最大トークン数（FTS5 snippet() の上限は 64） */
+const SNIPPET_MAX_TOKENS = 24;
+const TRIGRAM_SNIPPET_MAX_TOKENS = 64;
+
+/** LIKE 検索時のスニペットで一致箇所の前後に残す文字数 */
+const SNIPPET_CONTEXT_CHARS = 80;
+
+const SNIPPET_ELLIPSIS = "...";
+
+/**
+ * 検索クエリの構成要素
+ */
+interface SearchQuery {
+  /** FROM 句（FTS 使用時は m365_features_fts を JOIN） */
+  from: string;
+  /** WHERE 句 */
+  where: string;
+  /** WHERE 句のパラメータ */
+  params: unknown[];
+  /** 関連度の ORDER BY 式（昇順で関連度の高い順、クエリ未指定時は null） */
+  relevance: { expr: string; params: unknown[] } | null;
+  /** 一致箇所の取り出し方（クエリ未指定時は null） */
+  highlight:
+    | { type: "fts"; select: string; params: unknown[] }
+    | { type: "like"; literal: string; markers: M365HighlightMarkers }
+    | null;
+}
+
+/**
+ * 検索フィルタから FROM / WHERE 句と関連度式を構築
+ */
+function buildSearchQuery(filters: M365SearchFilters): SearchQuery {
+  let from = "m365_features f";
+  let where = "1=1";
+  const params: unknown[] = [];
+  let relevance: SearchQuery["relevance"] = null;
+  let highlight: SearchQuery["highlight"] = null;
+  const markers = filters.highlight ?? DEFAULT_HIGHLIGHT_MARKERS;
+
+  // 検索構文を解析して FTS 検索（記号のみのクエリなど FTS にできない場合は LIKE）
+  const query = filters.query?.trim();
+  if (query) {
+    const parsed = buildFtsPrefixQuery(query) ? parseSearchQuery(query) : null;
+    const compiled = parsed
+      ? compileSearchQuery(expandSearchQuery(parsed))
+      : null;
+    if (compiled?.match) {
+      const index = compiled.index;
+      // trigram のトークンは 1 文字単位のため、スニペットは上限まで広げる
+      const snippetTokens =
+        index === "m365_features_trigram"
+          ? TRIGRAM_SNIPPET_MAX_TOKENS
+          : SNIPPET_MAX_TOKENS;
+      from += ` JOIN ${index} fts ON f.id = fts.rowid`;
+      where += ` AND ${index} MATCH ?`;
+      params.push(compiled.match);
+      relevance = {
+        expr: `bm25(${index}, ${BM25_TITLE_WEIGHT}, ${BM25_DESCRIPTION_WEIGHT})`,
+        params: [],
+      };
+      highlight = {
+        type: "fts",
+        select:
+          `highlight(${index}, 0, ?, ?) as highlightedTitle, ` +
+          `snippet(${index}, 1, ?, ?, '${SNIPPET_ELLIPSIS}', ${snippetTokens}) as snippet`,
+        params: [markers.start, markers.end, markers.start, markers.end],
+      };
+    }
+
+    if (compiled) {
+      // 製品・プラットフォーム・ステータス指定や FTS で表せない条件
+      where += compiled.clause;
+      params.push(...compiled.params);
+    } else {
+      const likeQuery = `%${escapeLikePattern(query)}%`;
+      where +=
+        " AND (f.title LIKE ? ESCAPE '\\' OR COALESCE(f.description, '') LIKE ? ESCAPE '\\')";
+      params.push(likeQuery, likeQuery);
+      // LIKE では bm25 が使えないため、タイトル一致を説明のみの一致より上位にする
+      relevance = {
+        expr: "CASE WHEN f.title LIKE ? ESCAPE '\\' THEN 0 ELSE 1 END",
+        params: [likeQuery],
+      };
+      highlight = { type: "like", literal: query, markers };
+    }
+  }
+
+  // 削除済みフィーチャーは既定で除外
+  if (!filters.includeRemoved) {
+    where += " AND f.removed_at IS NULL";
+  }
+
+  // ステータスフィルタ
+  if (filters.status) {
+    where += " AND f.status = ?";
+    params.push(filters.status);
+  }
+
+  // 日付範囲
+  const dateFilter = buildDateFilterClause(filters);
+  where += dateFilter.clause;
+  params.push(...dateFilter.params);
+
+  // 製品・プラットフォームフィルタ
+  const relationFilter = buildRelationFilterClause(filters);
+  where += relationFilter.clause;
+  params.push(...relationFilter.params);
+
+  return { from, where, params, relevance, highlight };
+}
+
+/**
+ * テキスト中の literal（大文字小文字を区別しない）をすべてマーカーで囲む
+ */
+function markLiteral(
+  text: string,
+  literal: string,
+  markers: M365HighlightMarkers,
+): string {
+  const pattern = new RegExp(
+    literal.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"),
+    "gi",
+  );
+  return text.replace(
+    pattern,
+    (match) => `${markers.start}${match}${markers.end}`,
+  );
+}
+
+/**
+ * LIKE 検索用: 説明から最初の一致箇所の前後を抜き出したスニペットを作成
+ *
+ * 一致しない場合は先頭から抜き出す（FTS5 snippet() と同じ振る舞い）
+ */
+function buildLiteralSnippet(
+  text: string,
+  literal: string,
+  markers: M365HighlightMarkers,
+): string {
+  const index = text.toLowerCase().indexOf(literal.toLowerCase());
+  const start = index < 0 ? 0 : Math.max(0, index - SNIPPET_CONTEXT_CHARS);
+  const end = Math.min(
+    text.length,
+    (index < 0 ? 0 : index + literal.length) + SNIPPET_CONTEXT_CHARS,
+  );
+
+  return (
+    (start > 0 ? SNIPPET_ELLIPSIS : "") +
+    markLiteral(text.slice(start, end), literal, markers) +
+    (end < text.length ? SNIPPET_ELLIPSIS : "")
+  );
+}
+
+/** 並び順の基準 → 列 */
+const SORT_COLUMNS: Record<Exclude<M365SortField, "relevance">, string> = {
+  modified: "f.modified",
+  created: "f.created",
+  gaDate: "f.general_availability_date",
+  previewDate: "f.preview_availability_date",
+};
+
+/**
+ * 並び順のキー（ORDER BY の式と方向）
+ */
+interface SearchSortKey {
+  expr: string;
+  params: unknown[];
+  descending: boolean;
+}
+
+/**
+ * 並び順のキーを構築
+ *
+ * - featureIds 指定時はその順
+ * - relevance はクエリ未指定時は modified にフォールバック
+ * - 日付が NULL のものは方向に関係なく末尾
+ * - 同順位は modified の新しい順、最後に id で順序を確定
+ */
+function buildSearchSortKeys(
+  filters: M365SearchFilters,
+  relevance: SearchQuery["relevance"],
+): SearchSortKey[] {
+  if (filters.featureIds) {
+    // スナップショットのページングは指定 ID の順
+    return [
+      {
+        expr: "(SELECT key FROM json_each(?) WHERE value = f.id)",
+        params: [JSON.stringify(filters.featureIds)],
+        descending: false,
+      },
+    ];
+  }
+
+  const sortBy = filters.sortBy ?? (relevance ? "relevance" : "modified");
+  const descending = (filters.sortOrder ?? "desc") === "desc";
+  const tieBreakers: SearchSortKey[] = [
+    { expr: "f.modified", params: [], descending: true },
+    { expr: "f.id", params: [], descending: false },
+  ];
+
+  if (sortBy === "relevance" && relevance) {
+    // 関連度式は昇順で関連度の高い順
+    return [
+      {
+        expr: relevance.expr,
+        params: relevance.params,
+        descending: !descending,
+      },
+      ...tieBreakers,
+    ];
+  }
+
+  const column = SORT_COLUMNS[sortBy === "relevance" ? "modified" : sortBy];
+  return [
+    { expr: `${column} IS NULL`, params: [], descending: false },
+    { expr: column, params: [], descending },
+    ...tieBreakers,
+  ];
+}
+
+/**
+ * キーセットページング: 並び順で position より後の行に絞る WHERE 句を構築
+ *
+ * @throws Error position が並び順のキーと対応しない場合
+ */
+function buildKeysetClause(
+  keys: SearchSortKey[],
+  position: M365SearchPosition,
+): { clause: string; params: unknown[] } {
+  if (position.length !== keys.length) {
+    throw new Error("Search position does not match the sort order");
+  }
+
+  // (k0 > v0) OR (k0 IS v0 AND k1 > v1) OR ...（降順のキーは <）
+  const conditions: string[] = [];
+  const params: unknown[] = [];
+  keys.forEach((key, i) => {
+    const parts: string[] = [];
+    for (let j = 0; j < i; j++) {
+      parts.push(`${keys[j].expr} IS ?`);
+      params.push(...keys[j].params, position[j]);
+    }
+    parts.push(`${key.expr} ${key.descending ? "<" : ">"} ?`);
+    params.push(...key.params, position[i]);
+    conditions.push(`(${parts.join(" AND ")})`);
+  });
+
+  return { clause: ` AND (${conditions.join(" OR ")})`, params };
+}
+
+/**
+ * ページングの WHERE 句（スナップショットの ID への限定、または位置より後）
+ */
+function buildPagingClause(
+  filters: M365SearchFilters,
+  keys: SearchSortKey[],
+): { clause: string; params: unknown[] } {
+  if (filters.featureIds) {
+    return {
+      clause: " AND f.id IN (SELECT value FROM json_each(?))",
+      params: [JSON.stringify(filters.featureIds)],
+    };
+  }
+  return filters.after
+    ? buildKeysetClause(keys, filters.after)
+    : { clause: "", params: [] };
+}
+
+/**
+ * 検索結果 1 件分の一致箇所（タイトルのハイライトと説明のスニペット）を作成
+ */
+function buildMatchHighlight(
+  row: {
+    title: string;
+    description: string | null;
+    highlightedTitle?: string;
+    snippet?: string | null;
+  },
+  highlight: SearchQuery["highlight"],
+): Pick<M365SearchResultItem, "highlightedTitle" | "snippet"> {
+  if (!highlight) {
+    return {};
+  }
+
+  if (highlight.type === "fts") {
+    return {
+      highlightedTitle: row.highlightedTitle ?? row.title,
+      snippet: row.description ? (row.snippet ?? null) : null,
+    };
+  }
+
+  return {
+    highlightedTitle: markLiteral(
+      row.title,
+      highlight.literal,
+      highlight.markers,
+    ),
+    snippet: row.description
+      ? buildLiteralSnippet(
+          row.description,
+          highlight.literal,
+          highlight.markers,
+        )
+      : null,
+  };
+}
+
+/** ファセットごとに返す値の上限 */
+const FACET_VALUE_LIMIT = 10;
+
+/** ファセット → 集計対象（JOIN と値の式） */
+const FACET_SOURCES: Record<
+  keyof M365SearchFacets,
+  { join: string; value: string }
+> = {
+  products: {
+    join: "JOIN feature_products fc ON fc.feature_id = f.id",
+    value: "fc.product",
+  },
+  platforms: {
+    join: "JOIN feature_platforms fc ON fc.feature_id = f.id",
+    value: "fc.platform",
+  },
+  statuses: { join: "", value: "f.status" },
+  cloudInstances: {
+    join: "JOIN feature_cloud_instances fc ON fc.feature_id = f.id",
+    value: "fc.cloud_instance",
+  },
+  releaseRings: {
+    join: "JOIN feature_release_rings fc ON fc.feature_id = f.id",
+    value: "fc.release_ring",
+  },
+  gaMonths: { join: "", value: "substr(f.general_availability_date, 1, 7)" },
+};
+
+/**
+ * 検索条件に一致するフィーチャー全体（ページング前）のファセットを集計
+ */
+function getSearchFacets(
+  db: Database.Database,
+  query: SearchQuery,
+): M365SearchFacets {
+  const facets = {} as M365SearchFacets;
+
+  for (const [name, source] of Object.entries(FACET_SOURCES)) {
+    facets[name as keyof M365SearchFacets] = db
+      .prepare(
+        `
+            SELECT ${source.value} as value, COUNT(*) as count
+            FROM ${query.from} ${source.join}
+            WHERE ${query.where} AND ${source.value} IS NOT NULL
+            GROUP BY value
+            ORDER BY count DESC, value ASC
+            LIMIT ?
+        `,
+      )
+      .all(...query.params, FACET_VALUE_LIMIT) as M365FacetCount[];
+  }
+
+  return facets;
+}
+
+/**
+ * フィーチャーを検索
+ */
+export function searchFeatures(
+  db: Database.Database,
+  filters: M365SearchFilters,
+): {
+  results: M365SearchResultItem[];
+  totalCount: number;
+  /** 各結果の並び順の位置（次ページの after に指定） */
+  positions: M365SearchPosition[];
+  facets?: M365SearchFacets;
+} {
+  // limit が指定されていない場合は全件返す（-1 = 全件）
+  const limit = filters.limit ?? 10000;
+  const offset = filters.offset ?? 0;
+
+  const query = buildSearchQuery(filters);
+  const sortKeys = buildSearchSortKeys(filters, query.relevance);
+  const keyset = buildPagingClause(filters, sortKeys);
+  const highlightSelect =
+    query.highlight?.type === "fts"
+      ? `,\n                ${query.highlight.select}`
+      : "";
+  const highlightParams =
+    query.highlight?.type === "fts" ? query.highlight.params : [];
+
+  const sql = `
+            SELECT 
+                f.id,
+                f.title,
+                f.description,
+                f.status,
+                f.general_availability_date as generalAvailabilityDate,
+                f.preview_availability_date as previewAvailabilityDate,
+                f.modified,
+                f.removed_at as removedAt${highlightSelect},
+                ${sortKeys.map((key, i) => `${key.expr} as sortKey${i}`).join(", ")}
+            FROM ${query.from}
+            WHERE ${query.where}${keyset.clause}
+            ORDER BY ${sortKeys.map((key) => `${key.expr} ${key.descending ? "DESC" : "ASC"}`).join(", ")}
+            LIMIT ? OFFSET ?
+        `;
+
+  const countSql = `
+            SELECT COUNT(*) as count
+            FROM ${query.from}
+            WHERE ${query.where}
+        `;
+
+  // 結果取得
+  const rows = db
+    .prepare(sql)
+    .all(
+      ...highlightParams,
+      ...sortKeys.flatMap((key) => key.params),
+      ...query.params,
+      ...keyset.params,
+      ...sortKeys.flatMap((key) => key.params),
+      limit,
+      offset,
+    ) as Array<{
+    id: number;
+    title: string;
+    description: string | null;
+    status: string;
+    generalAvailabilityDate: string | null;
+    previewAvailabilityDate: string | null;
+    modified: string;
+    removedAt: string | null;
+    highlightedTitle?: string;
+    snippet?: string | null;
+    [sortKey: `sortKey${number}`]: string | number | null;
+  }>;
+
+  // 件数取得
+  const countResult = db.prepare(countSql).get(...query.params) as {
+    count: number;
+  };
+
+  // 製品・プラットフォームは結果全体でまとめて取得
+  const ids = rows.map((row) => row.id);
+  const productsMap = getFeatureValuesMap(
+    db,
+    "feature_products",
+    "product",
+    ids,
+  );
+  const platformsMap = getFeatureValuesMap(
+    db,
+    "feature_platforms",
+    "platform",
+    ids,
+  );
+
+  const results: M365SearchResultItem[] = rows.map((row) => {
+    // description の最初の 200 文字をサマリとして返す
+    const descriptionSummary = row.description
+      ? row.description.length > 200
+        ? row.description.substring(0, 200) + "..."
+        : row.description
+      : null;
+
+    return {
+      id: row.id,
+      title: row.title,
+      description: descriptionSummary,
       status: row.status,
-      products: products.map((p) => p.product),
-      platforms: platforms.map((p) => p.platform),
+      products: productsMap.get(row.id) ?? [],
+      platforms: platformsMap.get(row.id) ?? [],
       generalAvailabilityDate: row.generalAvailabilityDate,
       previewAvailabilityDate: row.previewAvailabilityDate,
       modified: row.modified,
+      removedAt: row.removedAt,
+      ...buildMatchHighlight(row, query.highlight),
     };
   });
 
   return {
     results,
     totalCount: countResult.count,
+    positions: rows.map((row) => sortKeys.map((_, i) => row[`sortKey${i}`])),
+    ...(filters.facets ? { facets: getSearchFacets(db, query) } : {}),
   };
 }
 
+/**
+ * 関連度順に並ぶ検索か（関連度はコーパス全体の統計に依存し、同期で変わる）
+ */
+export function isRelevanceOrdered(filters: M365SearchFilters): boolean {
+  return (
+    (filters.sortBy ?? "relevance") === "relevance" &&
+    buildSearchQuery(filters).relevance !== null
+  );
+}
+
+/**
+ * 検索条件に一致するフィーチャーの ID を並び順どおりにすべて取得
+ */
+export function getSearchResultIds(
+  db: Database.Database,
+  filters: M365SearchFilters,
+): number[] {
+  const query = buildSearchQuery(filters);
+  const sortKeys = buildSearchSortKeys(filters, query.relevance);
+
+  const rows = db
+    .prepare(
+      `
+            SELECT f.id
+            FROM ${query.from}
+            WHERE ${query.where}
+            ORDER BY ${sortKeys.map((key) => `${key.expr} ${key.descending ? "DESC" : "ASC"}`).join(", ")}
+        `,
+    )
+    .all(...query.params, ...sortKeys.flatMap((key) => key.params)) as {
+    id: number;
+  }[];
+  return rows.map((r) => r.id);
+}
+
 /**
  * ID でフィーチャーを取得
  */
 export function getFeatureById(
   db: Database.Database,
   id: number,
-): M365RoadmapFeature | null {
-  const row = db
-    .prepare(
-      `
-        SELECT 
+): M365StoredFeature | null {
+  const row = prepareCached(
+    db,
+    `
+        SELECT
             id,
             title,
             description,
@@ -500,12 +1660,12 @@ export function getFeatureById(
             general_availability_date as generalAvailabilityDate,
             preview_availability_date as previewAvailabilityDate,
             created,
-            modified
+            modified,
+            removed_at as removedAt
         FROM m365_features
         WHERE id = ?
     `,
-    )
-    .get(id) as
+  ).get(id) as
     | {
         id: number;
         title: string;
@@ -515,6 +1675,7 @@ export function getFeatureById(
         previewAvailabilityDate: string | null;
         created: string;
         modified: string;
+        removedAt: string | null;
       }
     | undefined;
 
@@ -523,27 +1684,22 @@ export function getFeatureById(
   }
 
   // 関連データ取得
-  const products = db
-    .prepare("SELECT product FROM feature_products WHERE feature_id = ?")
-    .all(id) as { product: string }[];
-  const platforms = db
-    .prepare("SELECT platform FROM feature_platforms WHERE feature_id = ?")
-    .all(id) as { platform: string }[];
-  const cloudInstances = db
-    .prepare(
-      "SELECT cloud_instance FROM feature_cloud_instances WHERE feature_id = ?",
-    )
-    .all(id) as { cloud_instance: string }[];
-  const releaseRings = db
-    .prepare(
-      "SELECT release_ring FROM feature_release_rings WHERE feature_id = ?",
-    )
-    .all(id) as { release_ring: string }[];
-  const availabilities = db
-    .prepare(
-      "SELECT ring, year, month FROM feature_availabilities WHERE feature_id = ?",
-    )
-    .all(id) as { ring: string; year: number; month: string }[];
+  const values = <T>(sql: string): T[] => prepareCached(db, sql).all(id) as T[];
+  const products = values<{ product: string }>(
+    "SELECT product FROM feature_products WHERE feature_id = ? ORDER BY product",
+  );
+  const platforms = values<{ platform: string }>(
+    "SELECT platform FROM feature_platforms WHERE feature_id = ? ORDER BY platform",
+  );
+  const cloudInstances = values<{ cloud_instance: string }>(
+    "SELECT cloud_instance FROM feature_cloud_instances WHERE feature_id = ? ORDER BY cloud_instance",
+  );
+  const releaseRings = values<{ release_ring: string }>(
+    "SELECT release_ring FROM feature_release_rings WHERE feature_id = ? ORDER BY release_ring",
+  );
+  const availabilities = values<{ ring: string; year: number; month: string }>(
+    "SELECT ring, year, month FROM feature_availabilities WHERE feature_id = ?",
+  );
 
   return {
     id: row.id,
@@ -559,6 +1715,7 @@ export function getFeatureById(
     cloudInstances: cloudInstances.map((c) => c.cloud_instance),
     releaseRings: releaseRings.map((r) => r.release_ring),
     availabilities,
+    removedAt: row.removedAt,
   };
 }
 
@@ -566,6 +1723,56 @@ export function getFeatureById(
 // メタデータ取得
 // ============================================================
 
+/**
+ * 複数フィーチャーの関連テーブルの値をまとめて取得（1 回のクエリ）
+ *
+ * @returns フィーチャー ID → 値の一覧（値の昇順）
+ */
+function getFeatureValuesMap(
+  db: Database.Database,
+  table: "feature_products" | "feature_platforms",
+  column: "product" | "platform",
+  featureIds: number[],
+): Map<number, string[]> {
+  const map = new Map<number, string[]>();
+  if (featureIds.length === 0) {
+    return map;
+  }
+
+  const rows = prepareCached(
+    db,
+    `
+        SELECT feature_id as featureId, ${column} as value
+        FROM ${table}
+        WHERE feature_id IN (SELECT value FROM json_each(?))
+        ORDER BY ${column}
+    `,
+  ).all(JSON.stringify(featureIds)) as {
+    featureId: number;
+    value: string;
+  }[];
+
+  for (const row of rows) {
+    const values = map.get(row.featureId) ?? [];
+    values.push(row.value);
+    map.set(row.featureId, values);
+  }
+
+  return map;
+}
+
+/**
+ * 複数フィーチャーの製品をまとめて取得
+ *
+ * @returns フィーチャー ID → 製品一覧
+ */
+export function getFeatureProductsMap(
+  db: Database.Database,
+  featureIds: number[],
+): Map<number, string[]> {
+  return getFeatureValuesMap(db, "feature_products", "product", featureIds);
+}
+
 /**
  * 全製品一覧を取得
  */
@@ -588,6 +1795,40 @@ export function getAllPlatforms(db: Database.Database): string[] {
   return rows.map((r) => r.platform);
 }
 
+/**
+ * 全クラウドインスタンス一覧を取得
+ */
+export function getAllCloudInstances(db: Database.Database): string[] {
+  const rows = db
+    .prepare(
+      "SELECT DISTINCT cloud_instance FROM feature_cloud_instances ORDER BY cloud_instance",
+    )
+    .all() as { cloud_instance: string }[];
+  return rows.map((r) => r.cloud_instance);
+}
+
+/**
+ * 全リリースリング一覧を取得
+ */
+export function getAllReleaseRings(db: Database.Database): string[] {
+  const rows = db
+    .prepare(
+      "SELECT DISTINCT release_ring FROM feature_release_rings ORDER BY release_ring",
+    )
+    .all() as { release_ring: string }[];
+  return rows.map((r) => r.release_ring);
+}
+
+/**
+ * 可用性のリング一覧を取得
+ */
+export function getAllAvailabilityRings(db: Database.Database): string[] {
+  const rows = db
+    .prepare("SELECT DISTINCT ring FROM feature_availabilities ORDER BY ring")
+    .all() as { ring: string }[];
+  return rows.map((r) => r.ring);
+}
+
 /**
  * 全ステータス一覧を取得
  */
@@ -597,3 +1838,277 @@ export function getAllStatuses(db: Database.Database): string[] {
     .all() as { status: string }[];
   return rows.map((r) => r.status);
 }
+
+/**
+ * FTS インデックスの語彙（小文字の語と、その語を含むフィーチャー数）を取得
+ */
+export function getSearchVocabulary(
+  db: Database.Database,
+): { term: string; docCount: number }[] {
+  return db
+    .prepare("SELECT term, doc as docCount FROM m365_features_vocab")
+    .all() as { term: string; docCount: number }[];
+}
+
+// ============================================================
+// 関連フィーチャー
+// ============================================================
+
+/**
+ * 語ごとの出現フィーチャー数を FTS インデックスの語彙から取得
+ *
+ * @param terms 小文字の語
+ * @returns 語 → 含まれるフィーチャー数（語彙にない語は含まない）
+ */
+export function getSearchTermDocCounts(
+  db: Database.Database,
+  terms: string[],
+): Map<string, number> {
+  if (terms.length === 0) {
+    return new Map();
+  }
+
+  const rows = prepareCached(
+    db,
+    "SELECT term, doc FROM m365_features_vocab WHERE term IN (SELECT value FROM json_each(?))",
+  ).all(JSON.stringify(terms)) as { term: string; doc: number }[];
+  return new Map(rows.map((row) => [row.term, row.doc]));
+}
+
+/**
+ * いずれかの語を含むフィーチャーを関連度順に取得（削除済みを除く）
+ *
+ * @returns id と bm25 の値（小さいほど関連度が高い）
+ */
+export function findFeaturesByTerms(
+  db: Database.Database,
+  terms: string[],
+  excludeId: number,
+  limit: number,
+): { id: number; rank: number }[] {
+  if (terms.length === 0) {
+    return [];
+  }
+
+  const match = terms
+    .map((term) => `"${term.replace(/"/g, '""')}"`)
+    .join(" OR ");
+  return prepareCached(
+    db,
+    `
+        SELECT f.id, bm25(m365_features_fts, ${BM25_TITLE_WEIGHT}, ${BM25_DESCRIPTION_WEIGHT}) as rank
+        FROM m365_features_fts
+        JOIN m365_features f ON f.id = m365_features_fts.rowid
+        WHERE m365_features_fts MATCH ? AND f.id != ? AND f.removed_at IS NULL
+        ORDER BY rank
+        LIMIT ?
+    `,
+  ).all(match, excludeId, limit) as { id: number; rank: number }[];
+}
+
+/**
+ * いずれかの製品を持つフィーチャーを、共通の製品が多い順（同数は更新の新しい順）に取得（削除済みを除く）
+ */
+export function findFeaturesSharingProducts(
+  db: Database.Database,
+  products: string[],
+  excludeId: number,
+  limit: number,
+): number[] {
+  if (products.length === 0) {
+    return [];
+  }
+
+  const rows = prepareCached(
+    db,
+    `
+        SELECT fp.feature_id as id
+        FROM feature_products fp
+        JOIN m365_features f ON f.id = fp.feature_id
+        WHERE fp.product IN (SELECT value FROM json_each(?))
+          AND fp.feature_id != ?
+          AND f.removed_at IS NULL
+        GROUP BY fp.feature_id
+        ORDER BY COUNT(*) DESC, f.modified DESC
+        LIMIT ?
+    `,
+  ).all(JSON.stringify(products), excludeId, limit) as { id: number }[];
+  return rows.map((row) => row.id);
+}
+
+// ============================================================
+// 保存済み検索
+// ============================================================
+
+/**
+ * 保存済み検索
+ */
+export interface SavedSearch {
+  name: string;
+  description: string | null;
+  /** search_m365_roadmap の検索パラメータ（相対日付は実行時に展開） */
+  filters: Record<string, unknown>;
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface SavedSearchRow {
+  name: string;
+  description: string | null;
+  filters: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+const SAVED_SEARCH_COLUMNS = `
+            name,
+            description,
+            filters,
+            created_at as createdAt,
+            updated_at as updatedAt
+`;
+
+function toSavedSearch(row: SavedSearchRow): SavedSearch {
+  return {
+    ...row,
+    filters: JSON.parse(row.filters) as Record<string, unknown>,
+  };
+}
+
+/**
+ * 保存済み検索を名前順に取得
+ */
+export function getSavedSearches(db: Database.Database): SavedSearch[] {
+  const rows = db
+    .prepare(
+      `
+        SELECT ${SAVED_SEARCH_COLUMNS}
+        FROM saved_searches
+        ORDER BY name
+    `,
+    )
+    .all() as SavedSearchRow[];
+  return rows.map(toSavedSearch);
+}
+
+/**
+ * 名前（大文字小文字を区別しない）で保存済み検索を取得
+ */
+export function getSavedSearch(
+  db: Database.Database,
+  name: string,
+): SavedSearch | null {
+  const row = db
+    .prepare(
+      `
+        SELECT ${SAVED_SEARCH_COLUMNS}
+        FROM saved_searches
+        WHERE name = ?
+    `,
+    )
+    .get(name) as SavedSearchRow | undefined;
+  return row ? toSavedSearch(row) : null;
+}
+
+/**
+ * 保存済み検索を作成または更新（同名の場合は作成日時を残して置き換え）
+ */
+export function upsertSavedSearch(
+  db: Database.Database,
+  search: {
+    name: string;
+    description: string | null;
+    filters: Record<string, unknown>;
+  },
+): SavedSearch {
+  const now = new Date().toISOString();
+  const row = db
+    .prepare(
+      `
+        INSERT INTO saved_searches (name, description, filters, created_at, updated_at)
+        VALUES (?, ?, ?, ?, ?)
+        ON CONFLICT(name) DO UPDATE SET
+            name = excluded.name,
+            description = excluded.description,
+            filters = excluded.filters,
+            updated_at = excluded.updated_at
+        RETURNING ${SAVED_SEARCH_COLUMNS}
+    `,
+    )
+    .get(
+      search.name,
+      search.description,
+      JSON.stringify(search.filters),
+      now,
+      now,
+    ) as SavedSearchRow;
+  return toSavedSearch(row);
+}
+
+/**
+ * 保存済み検索を削除
+ *
+ * @returns 削除した場合は true
+ */
+export function deleteSavedSearch(
+  db: Database.Database,
+  name: string,
+): boolean {
+  return (
+    db.prepare("DELETE FROM saved_searches WHERE name = ?").run(name).changes >
+    0
+  );
+}
+
+// ============================================================
+// 検索スナップショット
+// ============================================================
+
+/**
+ * 検索結果の ID の並びを保存（関連度順のカーソル用）
+ *
+ * @param id スナップショットごとに一意な ID
+ * @param createdAt 作成日時（ISO 8601）
+ */
+export function insertSearchSnapshot(
+  db: Database.Database,
+  id: string,
+  featureIds: number[],
+  createdAt: string,
+): void {
+  db.prepare(
+    `
+        INSERT INTO search_snapshots (id, feature_ids, created_at)
+        VALUES (?, ?, ?)
+    `,
+  ).run(id, JSON.stringify(featureIds), createdAt);
+}
+
+/**
+ * 保存した検索結果の ID の並びを取得
+ *
+ * @returns 存在しない（期限切れで削除済みを含む）場合は null
+ */
+export function getSearchSnapshot(
+  db: Database.Database,
+  id: string,
+): number[] | null {
+  const row = db
+    .prepare("SELECT feature_ids FROM search_snapshots WHERE id = ?")
+    .get(id) as { feature_ids: string } | undefined;
+  return row ? (JSON.parse(row.feature_ids) as number[]) : null;
+}
+
+/**
+ * 指定日時より前に作成した検索スナップショットを削除
+ *
+ * @returns 削除した件数
+ */
+export function deleteSearchSnapshotsBefore(
+  db: Database.Database,
+  before: string,
+): number {
+  return db
+    .prepare("DELETE FROM search_snapshots WHERE created_at < ?")
+    .run(before).changes;
+}
@@ -0,0 +1,95 @@
+import { describe, it, expect } from "vitest";
+import { expandSearchQuery, findExpansionKeys } from "./queryExpansion.js";
+import { compileSearchQuery, parseSearchQuery } from "./searchQuery.js";
+
+function expand(query: string) {
+  const parsed = parseSearchQuery(query);
+  if (!parsed) {
+    throw new Error(`Empty query: ${query}`);
+  }
+  return expandSearchQuery(parsed);
+}
+
+describe("findExpansionKeys", () => {
+  it("空白のない日本語の連続から辞書の語を最長一致で探すこと", () => {
+    expect(findExpansionKeys("チームズ会議")).toEqual(["チームズ", "会議"]);
+    expect(findExpansionKeys("会議室の予約")).toEqual(["会議室"]);
+    expect(findExpansionKeys("Microsoft365グループ")).toEqual(["グループ"]);
+    expect(findExpansionKeys("プロファイル")).toEqual(["プロファイル"]);
+  });
+
+  it("曖昧な語と英語の語は展開しないこと", () => {
+    expect(findExpansionKeys("ワード")).toEqual([]);
+    expect(findExpansionKeys("チーム")).toEqual([]);
+    expect(findExpansionKeys("Teams")).toEqual([]);
+  });
+});
+
+describe("expandSearchQuery", () => {
+  it("英語の語を完全一致の語として OR に展開すること", () => {
+    expect(expand("title:チームズ")).toEqual({
+      type: "or",
+      children: [
+        { type: "term", value: "チームズ", phrase: false, field: "title" },
+        {
+          type: "term",
+          value: "Teams",
+          phrase: false,
+          field: "title",
+          exact: true,
+        },
+      ],
+    });
+  });
+
+  it("複数の辞書の語を含む語はすべての展開を含むものを候補にすること", () => {
+    expect(expand("チームズ会議")).toEqual({
+      type: "or",
+      children: [
+        { type: "term", value: "チームズ会議", phrase: false, field: null },
+        {
+          type: "and",
+          children: [
+            {
+              type: "term",
+              value: "Teams",
+              phrase: false,
+              field: null,
+              exact: true,
+            },
+            {
+              type: "or",
+              children: [
+                {
+                  type: "term",
+                  value: "meeting",
+                  phrase: false,
+                  field: null,
+                  exact: true,
+                },
+                {
+                  type: "term",
+                  value: "meetings",
+                  phrase: false,
+                  field: null,
+                  exact: true,
+                },
+              ],
+            },
+          ],
+        },
+      ],
+    });
+  });
+
+  it("展開した語は trigram ではなく unicode61 の単語単位で検索すること", () => {
+    const compiled = compileSearchQuery(expand("ホワイトボード"));
+
+    expect(compiled.index).toBe("m365_features_trigram");
+    expect(compiled.match).toBeNull();
+    expect(compiled.clause).toContain(
+      "f.id IN (SELECT rowid FROM m365_features_fts WHERE m365_features_fts MATCH ?)",
+    );
+    expect(compiled.params).toEqual(['"ホワイトボード"', '"Whiteboard"']);
+  });
+});
@@ -0,0 +1,166 @@
+/**
+ * 検索クエリの日英展開
+ *
+ * ロードマップは英語のみのため、日本語の代表的な語を英語のロードマップ用語に展開する。
+ * 空白で区切られていない日本語の連続からも辞書の語を最長一致で探し、
+ * 英語の語は trigram の部分一致ではなく単語単位の完全一致で検索する。
+ * 例: `チームズ` → `(チームズ OR Teams)`、`チームズ会議` → `(チームズ会議 OR (Teams AND (meeting OR meetings)))`
+ */
+
+import { containsCjk, type SearchQueryNode } from "./searchQuery.js";
+
+/**
+ * 日本語の語 → 英語のロードマップ用語（複数語はフレーズとして検索）
+ *
+ * 英語の語は完全一致のため、よく使われる複数形も並べる。
+ * 別の語の一部として現れる曖昧な語（ワード → "password" など、チーム → チームズ）は登録しない。
+ * 他の語を含む長い語（グループ ⊃ ループ、プロファイル ⊃ ファイル）は、最長一致で誤って展開しないよう登録する
+ */
+export const JA_EN_QUERY_EXPANSIONS: Record<string, string[]> = {
+  // 製品
+  チームズ: ["Teams"],
+  アウトルック: ["Outlook"],
+  シェアポイント: ["SharePoint"],
+  ワンドライブ: ["OneDrive"],
+  エクセル: ["Excel"],
+  パワーポイント: ["PowerPoint"],
+  ループ: ["Loop"],
+  ホワイトボード: ["Whiteboard"],
+  プランナー: ["Planner"],
+  コパイロット: ["Copilot"],
+  ビバ: ["Viva"],
+  // 会議・コミュニケーション
+  会議: ["meeting", "meetings"],
+  会議室: ["Teams Rooms", "meeting room"],
+  ウェビナー: ["webinar"],
+  タウンホール: ["town hall"],
+  ブレイクアウトルーム: ["breakout rooms"],
+  通話: ["calling", "call"],
+  電話: ["phone", "calling"],
+  チャット: ["chat"],
+  チャネル: ["channel", "channels"],
+  メール: ["email", "mail"],
+  予定表: ["calendar"],
+  カレンダー: ["calendar"],
+  画面共有: ["screen sharing"],
+  録画: ["recording"],
+  文字起こし: ["transcription", "transcript"],
+  字幕: ["captions"],
+  翻訳: ["translation"],
+  議事録: ["meeting notes", "recap"],
+  要約: ["summary", "recap"],
+  // ドキュメント・コラボレーション
+  共同編集: ["co-authoring", "coauthoring", "real-time collaboration"],
+  共有: ["sharing", "share"],
+  ファイル: ["file", "files"],
+  プロファイル: ["profile"],
+  グループ: ["group", "groups"],
+  検索: ["search"],
+  タスク: ["tasks"],
+  承認: ["approvals"],
+  通知: ["notification", "notifications"],
+  // 管理・セキュリティ
+  管理センター: ["admin center"],
+  管理者: ["admin"],
+  セキュリティ: ["security"],
+  秘密度ラベル: ["sensitivity label"],
+  情報保護: ["information protection"],
+  電子情報開示: ["eDiscovery"],
+  保持: ["retention"],
+  条件付きアクセス: ["conditional access"],
+  多要素認証: ["multifactor authentication", "MFA"],
+  ゲスト: ["guest", "guests"],
+  外部ユーザー: ["external users", "guest"],
+  // AI・その他
+  エージェント: ["agent", "agents"],
+  生成AI: ["generative AI"],
+  モバイル: ["mobile"],
+  廃止: ["retirement", "retire"],
+};
+
+/** 辞書の語（最長一致のため長い順） */
+const EXPANSION_KEYS = Object.keys(JA_EN_QUERY_EXPANSIONS).sort(
+  (a, b) => b.length - a.length,
+);
+
+/**
+ * 日本語を含む語から辞書の語を先頭から最長一致で探す（重複は除く）
+ */
+export function findExpansionKeys(value: string): string[] {
+  if (!containsCjk(value)) {
+    return [];
+  }
+
+  const keys = new Set<string>();
+  let i = 0;
+  while (i < value.length) {
+    const key = EXPANSION_KEYS.find((k) => value.startsWith(k, i));
+    if (key) {
+      keys.add(key);
+      i += key.length;
+    } else {
+      i++;
+    }
+  }
+  return [...keys];
+}
+
+/**
+ * 辞書の語を英語の完全一致の語（複数の場合は OR）に変換（フィールド指定は元の語に合わせる）
+ */
+function toExpansionNode(
+  key: string,
+  source: SearchQueryNode & { type: "term" },
+): SearchQueryNode {
+  const terms = JA_EN_QUERY_EXPANSIONS[key].map((value) => ({
+    type: "term" as const,
+    value,
+    phrase: value.includes(" "),
+    field: source.field,
+    exact: true,
+  }));
+  return terms.length === 1 ? terms[0] : { type: "or", children: terms };
+}
+
+/**
+ * 構文木のタイトル・説明を対象とする語を、辞書に従って英語の語との OR に展開
+ *
+ * 1 つの語に辞書の語が複数含まれる場合は、それぞれの展開をすべて含むもの（AND）を候補にする
+ */
+export function expandSearchQuery(node: SearchQueryNode): SearchQueryNode {
+  switch (node.type) {
+    case "term": {
+      const keys =
+        node.field === null ||
+        node.field === "title" ||
+        node.field === "description"
+          ? findExpansionKeys(node.value)
+          : [];
+      if (keys.length === 0) {
+        return node;
+      }
+      const expansions = keys.map((key) => toExpansionNode(key, node));
+      if (expansions.length > 1) {
+        return {
+          type: "or",
+          children: [node, { type: "and", children: expansions }],
+        };
+      }
+      const [expansion] = expansions;
+      return {
+        type: "or",
+        children: [
+          node,
+          ...(expansion.type === "or" ? expansion.children : [expansion]),
+        ],
+      };
+    }
+    case "not":
+      return { type: "not", child: expandSearchQuery(node.child) };
+    default:
+      return {
+        type: node.type,
+        children: node.children.map(expandSearchQuery),
+      };
+  }
+}
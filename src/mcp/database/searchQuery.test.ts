@@ -0,0 +1,105 @@
+import { describe, it, expect } from "vitest";
+import {
+  compileSearchQuery,
+  parseSearchQuery,
+  SearchQueryParseError,
+  type SearchQueryNode,
+} from "./searchQuery.js";
+
+function compile(query: string) {
+  return compileSearchQuery(parseSearchQuery(query) as SearchQueryNode);
+}
+
+describe("parseSearchQuery", () => {
+  it("フレーズ・否定・OR・グループ・フィールド指定を解析すること", () => {
+    expect(
+      parseSearchQuery('"shared channels" -(Android OR title:iOS)'),
+    ).toEqual({
+      type: "and",
+      children: [
+        { type: "term", value: "shared channels", phrase: true, field: null },
+        {
+          type: "not",
+          child: {
+            type: "or",
+            children: [
+              { type: "term", value: "Android", phrase: false, field: null },
+              { type: "term", value: "iOS", phrase: false, field: "title" },
+            ],
+          },
+        },
+      ],
+    });
+  });
+
+  it("演算子は大文字のみ、未知のフィールドと語中のハイフンは語として扱うこと", () => {
+    expect(parseSearchQuery("loop or Viva:Goals e-mail")).toEqual({
+      type: "and",
+      children: [
+        { type: "term", value: "loop", phrase: false, field: null },
+        { type: "term", value: "or", phrase: false, field: null },
+        { type: "term", value: "Viva:Goals", phrase: false, field: null },
+        { type: "term", value: "e-mail", phrase: false, field: null },
+      ],
+    });
+  });
+
+  it.each([
+    ['"shared channels', "Unterminated quoted phrase"],
+    ["Loop OR", "Expected a term after OR"],
+    ["(Loop OR Whiteboard", 'Missing closing ")"'],
+    ["Loop)", 'Unexpected ")"'],
+    ["title: Loop", 'Expected a term after "title:"'],
+    ["title:(product:Teams)", "cannot be nested"],
+  ])("構文の誤り %s を位置付きで報告すること", (query, message) => {
+    expect(() => parseSearchQuery(query)).toThrow(SearchQueryParseError);
+    expect(() => parseSearchQuery(query)).toThrow(message);
+  });
+});
+
+describe("compileSearchQuery", () => {
+  it("全文検索の条件を FTS5 の文字列リテラルに閉じ込めること", () => {
+    expect(compile('Copilot "shared channels" -Android')).toEqual({
+      index: "m365_features_fts",
+      match: '(("Copilot"* AND "shared channels") NOT "Android"*)',
+      clause: "",
+      params: [],
+    });
+    expect(compile('title:"a"" OR b*" NEAR')).toEqual({
+      index: "m365_features_fts",
+      match: '(title : "a" AND "OR b*" AND "NEAR"*)',
+      clause: "",
+      params: [],
+    });
+  });
+
+  it("製品などのフィールド指定と FTS で表せない組み合わせを SQL の条件にすること", () => {
+    const compiled = compile(
+      "Loop product:Teams (Whiteboard OR status:launched)",
+    );
+
+    expect(compiled.match).toBe('("Loop"*)');
+    expect(compiled.params).toEqual(["%Teams%", '"Whiteboard"*', "%launched%"]);
+    expect(compiled.clause).toContain("feature_products");
+    expect(compiled.clause).toContain("m365_features_fts MATCH ?");
+    expect(compiled.clause).toContain("f.status LIKE ?");
+  });
+
+  it("否定のみのクエリは MATCH を使わず NOT の条件にすること", () => {
+    const compiled = compile("-Android");
+
+    expect(compiled.match).toBeNull();
+    expect(compiled.clause).toBe(
+      " AND NOT f.id IN (SELECT rowid FROM m365_features_fts WHERE m365_features_fts MATCH ?)",
+    );
+    expect(compiled.params).toEqual(['"Android"*']);
+  });
+
+  it("CJK の語を含むクエリは trigram で検索し、3 文字未満の語は LIKE にすること", () => {
+    const compiled = compile("ホワイトボード 会議 -title:AI");
+
+    expect(compiled.index).toBe("m365_features_trigram");
+    expect(compiled.match).toBe('("ホワイトボード")');
+    expect(compiled.params).toEqual(["%会議%", "%会議%", "%AI%"]);
+  });
+});
@@ -0,0 +1,543 @@
+/**
+ * 検索クエリパーサ
+ *
+ * search_m365_roadmap の query を構文解析し、FTS5 の MATCH 式と SQL の WHERE 句に変換する。
+ *
+ * 構文:
+ * - `Copilot Loop` : すべての語を含む（AND は省略可）
+ * - `"shared channels"` : フレーズ一致
+ * - `Loop OR Whiteboard` : いずれかを含む
+ * - `-Android` / `NOT Android` : 含まない
+ * - `(Loop OR Whiteboard) Teams` : グループ化
+ * - `title:Loop` / `description:...` / `product:Teams` / `platform:iOS` / `status:"Rolling out"` : フィールド指定
+ *
+ * 利用者の入力は FTS5 の文字列リテラルまたは SQL パラメータとしてのみ埋め込む。
+ */
+
+/** フィールド指定に使えるフィールド */
+export type SearchQueryField =
+  "title" | "description" | "product" | "platform" | "status";
+
+const SEARCH_QUERY_FIELDS: SearchQueryField[] = [
+  "title",
+  "description",
+  "product",
+  "platform",
+  "status",
+];
+
+/** 語・フレーズの最大数 */
+const MAX_QUERY_TERMS = 32;
+
+/** グループ・否定の最大ネスト */
+const MAX_QUERY_DEPTH = 16;
+
+/**
+ * クエリの構文木
+ */
+export type SearchQueryNode =
+  | {
+      type: "term";
+      value: string;
+      /** true の場合はフレーズ一致、false の場合は前方一致 */
+      phrase: boolean;
+      field: SearchQueryField | null;
+      /**
+       * true の場合は unicode61 の索引で単語単位に完全一致させる
+       * （日英展開で追加した英語の語。trigram の部分一致で "password" が "Word" に一致しないように）
+       */
+      exact?: boolean;
+    }
+  | { type: "and"; children: SearchQueryNode[] }
+  | { type: "or"; children: SearchQueryNode[] }
+  | { type: "not"; child: SearchQueryNode };
+
+/**
+ * 全文検索に使う FTS5 テーブル
+ *
+ * - m365_features_fts: unicode61（英語などの単語単位、前方一致）
+ * - m365_features_trigram: trigram（日本語などの CJK を含むクエリ向け、3 文字以上の部分一致）
+ */
+export type SearchIndex = "m365_features_fts" | "m365_features_trigram";
+
+/**
+ * FTS5 の MATCH 式と SQL の WHERE 句に変換したクエリ
+ */
+export interface CompiledSearchQuery {
+  /** MATCH 式で検索する FTS5 テーブル */
+  index: SearchIndex;
+  /** index に JOIN して使う MATCH 式（全文検索の条件がない場合は null） */
+  match: string | null;
+  /** MATCH 以外の条件（" AND ..." 形式、f.id を対象） */
+  clause: string;
+  /** clause のパラメータ */
+  params: unknown[];
+}
+
+/**
+ * クエリの構文エラー
+ */
+export class SearchQueryParseError extends Error {
+  constructor(
+    message: string,
+    public readonly position: number,
+  ) {
+    super(`${message} (at position ${position + 1})`);
+    this.name = "SearchQueryParseError";
+  }
+}
+
+type Token =
+  | { type: "word" | "phrase"; value: string; position: number }
+  | { type: "field"; value: SearchQueryField; position: number }
+  | {
+      type: "and" | "or" | "not" | "lparen" | "rparen";
+      position: number;
+    };
+
+/**
+ * クエリ文字列をトークンに分割
+ */
+function tokenize(input: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < input.length) {
+    const c = input[i];
+
+    if (/\s/.test(c)) {
+      i++;
+    } else if (c === "(") {
+      tokens.push({ type: "lparen", position: i++ });
+    } else if (c === ")") {
+      tokens.push({ type: "rparen", position: i++ });
+    } else if (c === '"') {
+      const end = input.indexOf('"', i + 1);
+      if (end < 0) {
+        throw new SearchQueryParseError("Unterminated quoted phrase", i);
+      }
+      const value = input.slice(i + 1, end).trim();
+      if (!value) {
+        throw new SearchQueryParseError("Empty quoted phrase", i);
+      }
+      tokens.push({ type: "phrase", value, position: i });
+      i = end + 1;
+    } else if (
+      c === "-" &&
+      i + 1 < input.length &&
+      !/[\s)]/.test(input[i + 1])
+    ) {
+      // 語頭のマイナスは否定（語中のハイフンは語の一部）
+      tokens.push({ type: "not", position: i++ });
+    } else {
+      const start = i;
+      while (i < input.length && !/[\s()"]/.test(input[i])) {
+        i++;
+      }
+      const word = input.slice(start, i);
+
+      if (word === "AND" || word === "OR" || word === "NOT") {
+        tokens.push({
+          type: word.toLowerCase() as "and" | "or" | "not",
+          position: start,
+        });
+        continue;
+      }
+
+      // 既知のフィールド名 + ":" のみフィールド指定とし、それ以外の ":" は語の一部として扱う
+      const separator = word.indexOf(":");
+      const field = word.slice(0, separator).toLowerCase() as SearchQueryField;
+      if (separator > 0 && SEARCH_QUERY_FIELDS.includes(field)) {
+        tokens.push({ type: "field", value: field, position: start });
+        const rest = word.slice(separator + 1);
+        if (rest) {
+          tokens.push({
+            type: "word",
+            value: rest,
+            position: start + separator + 1,
+          });
+        }
+        continue;
+      }
+
+      tokens.push({ type: "word", value: word, position: start });
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * クエリ文字列を構文解析
+ *
+ * 再帰下降で解析し、優先順位は NOT > AND（暗黙を含む） > OR
+ *
+ * @returns 構文木（空のクエリの場合は null）
+ * @throws SearchQueryParseError 構文が不正な場合
+ */
+export function parseSearchQuery(input: string): SearchQueryNode | null {
+  const tokens = tokenize(input);
+  if (tokens.length === 0) {
+    return null;
+  }
+
+  let index = 0;
+  let termCount = 0;
+
+  const peek = (): Token | undefined => tokens[index];
+  const endPosition = (): number => peek()?.position ?? input.length;
+  const startsOperand = (token: Token | undefined): boolean =>
+    token !== undefined &&
+    ["word", "phrase", "field", "not", "lparen"].includes(token.type);
+
+  const expectOperandAfter = (operator: string): void => {
+    if (!startsOperand(peek())) {
+      throw new SearchQueryParseError(
+        `Expected a term after ${operator}`,
+        endPosition(),
+      );
+    }
+  };
+
+  const checkDepth = (depth: number, position: number): void => {
+    if (depth >= MAX_QUERY_DEPTH) {
+      throw new SearchQueryParseError("Query is nested too deeply", position);
+    }
+  };
+
+  function parseOr(
+    field: SearchQueryField | null,
+    depth: number,
+  ): SearchQueryNode {
+    const children = [parseAnd(field, depth)];
+    while (peek()?.type === "or") {
+      index++;
+      expectOperandAfter("OR");
+      children.push(parseAnd(field, depth));
+    }
+    return children.length === 1 ? children[0] : { type: "or", children };
+  }
+
+  function parseAnd(
+    field: SearchQueryField | null,
+    depth: number,
+  ): SearchQueryNode {
+    const children = [parseUnary(field, depth)];
+    for (;;) {
+      const token = peek();
+      if (token?.type === "and") {
+        index++;
+        expectOperandAfter("AND");
+      } else if (!startsOperand(token)) {
+        break;
+      }
+      children.push(parseUnary(field, depth));
+    }
+    return children.length === 1 ? children[0] : { type: "and", children };
+  }
+
+  function parseUnary(
+    field: SearchQueryField | null,
+    depth: number,
+  ): SearchQueryNode {
+    const token = peek();
+    if (token?.type !== "not") {
+      return parsePrimary(field, depth);
+    }
+
+    index++;
+    checkDepth(depth, token.position);
+    expectOperandAfter("NOT");
+    return { type: "not", child: parseUnary(field, depth + 1) };
+  }
+
+  function parsePrimary(
+    field: SearchQueryField | null,
+    depth: number,
+  ): SearchQueryNode {
+    const token = peek();
+    if (!token) {
+      throw new SearchQueryParseError("Expected a term", input.length);
+    }
+
+    switch (token.type) {
+      case "lparen": {
+        index++;
+        checkDepth(depth, token.position);
+        if (peek()?.type === "rparen") {
+          throw new SearchQueryParseError("Empty group", token.position);
+        }
+        const node = parseOr(field, depth + 1);
+        if (peek()?.type !== "rparen") {
+          throw new SearchQueryParseError(
+            'Missing closing ")"',
+            token.position,
+          );
+        }
+        index++;
+        return node;
+      }
+      case "field": {
+        index++;
+        if (field) {
+          throw new SearchQueryParseError(
+            `Field "${token.value}:" cannot be nested inside "${field}:"`,
+            token.position,
+          );
+        }
+        // フィールド名の直後（空白なし）に語・フレーズ・グループが必要
+        const next = peek();
+        if (
+          !next ||
+          !["word", "phrase", "lparen"].includes(next.type) ||
+          next.position !== token.position + token.value.length + 1
+        ) {
+          throw new SearchQueryParseError(
+            `Expected a term after "${token.value}:"`,
+            token.position,
+          );
+        }
+        return parsePrimary(token.value, depth);
+      }
+      case "word":
+      case "phrase":
+        index++;
+        if (++termCount > MAX_QUERY_TERMS) {
+          throw new SearchQueryParseError(
+            `Too many terms (maximum ${MAX_QUERY_TERMS})`,
+            token.position,
+          );
+        }
+        return {
+          type: "term",
+          value: token.value,
+          phrase: token.type === "phrase",
+          field,
+        };
+      default:
+        throw new SearchQueryParseError(
+          token.type === "rparen" ? 'Unexpected ")"' : "Expected a term",
+          token.position,
+        );
+    }
+  }
+
+  const node = parseOr(null, 0);
+  const rest = peek();
+  if (rest) {
+    throw new SearchQueryParseError('Unexpected ")"', rest.position);
+  }
+  return node;
+}
+
+// ============================================================
+// コンパイル
+// ============================================================
+
+/**
+ * LIKE パターンの特殊文字（\ % _）をエスケープ（ESCAPE '\' と組み合わせて使う）
+ */
+export function escapeLikePattern(value: string): string {
+  return value.replace(/[\\%_]/g, "\\$&");
+}
+
+/** trigram で検索できる語の最小文字数 */
+const TRIGRAM_MIN_LENGTH = 3;
+
+/**
+ * CJK（漢字・ひらがな・カタカナ・ハングル）を含むか
+ */
+export function containsCjk(text: string): boolean {
+  return /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]/u.test(
+    text,
+  );
+}
+
+function isTextTerm(node: SearchQueryNode & { type: "term" }): boolean {
+  return (
+    node.field === null ||
+    node.field === "title" ||
+    node.field === "description"
+  );
+}
+
+/**
+ * FTS5 で検索できる語か（文字・数字を含み、タイトル・説明が対象）
+ *
+ * trigram は 3 文字未満の語に一致しないため、その場合は LIKE で検索する
+ */
+function isFtsTerm(
+  node: SearchQueryNode & { type: "term" },
+  index: SearchIndex,
+): boolean {
+  if (node.exact) {
+    return isTextTerm(node) && index === "m365_features_fts";
+  }
+  return (
+    isTextTerm(node) &&
+    /[\p{L}\p{N}]/u.test(node.value) &&
+    (index === "m365_features_fts" ||
+      [...node.value].length >= TRIGRAM_MIN_LENGTH)
+  );
+}
+
+/**
+ * クエリに CJK の語が含まれる場合は trigram を使う（完全一致の語は常に unicode61 で検索する）
+ */
+function selectSearchIndex(node: SearchQueryNode): SearchIndex {
+  switch (node.type) {
+    case "term":
+      return isTextTerm(node) && !node.exact && containsCjk(node.value)
+        ? "m365_features_trigram"
+        : "m365_features_fts";
+    case "not":
+      return selectSearchIndex(node.child);
+    default:
+      return node.children.some(
+        (c) => selectSearchIndex(c) === "m365_features_trigram",
+      )
+        ? "m365_features_trigram"
+        : "m365_features_fts";
+  }
+}
+
+/**
+ * 部分木を 1 つの FTS5 MATCH 式で表せるか
+ *
+ * FTS5 の NOT は二項演算子のため、否定は同じ AND 内に肯定の条件がある場合のみ表せる
+ */
+function isFtsExpressible(node: SearchQueryNode, index: SearchIndex): boolean {
+  switch (node.type) {
+    case "term":
+      return isFtsTerm(node, index);
+    case "or":
+      return node.children.every((c) => isFtsExpressible(c, index));
+    case "and":
+      return (
+        node.children.some((c) => c.type !== "not") &&
+        node.children.every((c) =>
+          isFtsExpressible(c.type === "not" ? c.child : c, index),
+        )
+      );
+    case "not":
+      return false;
+  }
+}
+
+/**
+ * FTS5 の MATCH 式に変換（isFtsExpressible な部分木のみ）
+ *
+ * 語は必ず FTS5 の文字列リテラルとして埋め込み、演算子として解釈させない。
+ * trigram は部分一致のため、完全一致の語は単語単位で一致させるため前方一致（*）を付けない
+ */
+function toFtsExpression(node: SearchQueryNode, index: SearchIndex): string {
+  switch (node.type) {
+    case "term": {
+      const prefix =
+        !node.phrase && !node.exact && index === "m365_features_fts";
+      const literal = `"${node.value.replace(/"/g, '""')}"${prefix ? "*" : ""}`;
+      return node.field ? `${node.field} : ${literal}` : literal;
+    }
+    case "or":
+      return `(${node.children.map((c) => toFtsExpression(c, index)).join(" OR ")})`;
+    case "and": {
+      const positives = node.children.filter((c) => c.type !== "not");
+      let expression = `(${positives.map((c) => toFtsExpression(c, index)).join(" AND ")})`;
+      for (const child of node.children) {
+        if (child.type === "not") {
+          expression = `(${expression} NOT ${toFtsExpression(child.child, index)})`;
+        }
+      }
+      return expression;
+    }
+    case "not":
+      throw new Error("NOT cannot be expressed as a standalone FTS5 query");
+  }
+}
+
+/**
+ * SQL の条件式に変換（f.id を対象）
+ */
+function toSqlCondition(
+  node: SearchQueryNode,
+  index: SearchIndex,
+  params: unknown[],
+): string {
+  if (isFtsExpressible(node, index)) {
+    params.push(toFtsExpression(node, index));
+    return `f.id IN (SELECT rowid FROM ${index} WHERE ${index} MATCH ?)`;
+  }
+
+  switch (node.type) {
+    case "term": {
+      if (node.exact) {
+        // trigram で検索するクエリの中でも、完全一致の語は unicode61 の索引で検索
+        params.push(toFtsExpression(node, "m365_features_fts"));
+        return "f.id IN (SELECT rowid FROM m365_features_fts WHERE m365_features_fts MATCH ?)";
+      }
+      const pattern = `%${escapeLikePattern(node.value)}%`;
+      switch (node.field) {
+        case "product":
+          params.push(pattern);
+          return "EXISTS (SELECT 1 FROM feature_products fp WHERE fp.feature_id = f.id AND fp.product LIKE ? ESCAPE '\\')";
+        case "platform":
+          params.push(pattern);
+          return "EXISTS (SELECT 1 FROM feature_platforms fpl WHERE fpl.feature_id = f.id AND fpl.platform LIKE ? ESCAPE '\\')";
+        case "status":
+          params.push(pattern);
+          return "f.status LIKE ? ESCAPE '\\'";
+        case "title":
+          params.push(pattern);
+          return "f.title LIKE ? ESCAPE '\\'";
+        case "description":
+          params.push(pattern);
+          return "COALESCE(f.description, '') LIKE ? ESCAPE '\\'";
+        default:
+          // 記号のみの語（trigram では 3 文字未満の語も）は FTS5 で検索できないため LIKE で検索
+          params.push(pattern, pattern);
+          return "(f.title LIKE ? ESCAPE '\\' OR COALESCE(f.description, '') LIKE ? ESCAPE '\\')";
+      }
+    }
+    case "and":
+      return `(${node.children.map((c) => toSqlCondition(c, index, params)).join(" AND ")})`;
+    case "or":
+      return `(${node.children.map((c) => toSqlCondition(c, index, params)).join(" OR ")})`;
+    case "not":
+      return `NOT ${toSqlCondition(node.child, index, params)}`;
+  }
+}
+
+/**
+ * 構文木を FTS5 の MATCH 式と SQL の条件に変換
+ *
+ * トップレベルの AND のうち FTS5 で表せる条件は MATCH 式にまとめ（bm25 やスニペットに使う）、
+ * 製品・プラットフォーム・ステータスの指定や FTS5 で表せない組み合わせは SQL の条件にする。
+ * CJK の語を含むクエリは trigram のテーブルで検索する。
+ */
+export function compileSearchQuery(node: SearchQueryNode): CompiledSearchQuery {
+  const index = selectSearchIndex(node);
+  const conjuncts = node.type === "and" ? node.children : [node];
+  const ftsConjuncts = conjuncts.filter((c) =>
+    isFtsExpressible(c.type === "not" ? c.child : c, index),
+  );
+  const hasPositiveFts = ftsConjuncts.some((c) => c.type !== "not");
+
+  const matchNode: SearchQueryNode | null = hasPositiveFts
+    ? { type: "and", children: ftsConjuncts }
+    : null;
+  const sqlConjuncts = hasPositiveFts
+    ? conjuncts.filter((c) => !ftsConjuncts.includes(c))
+    : conjuncts;
+
+  const params: unknown[] = [];
+  const clause = sqlConjuncts
+    .map((c) => ` AND ${toSqlCondition(c, index, params)}`)
+    .join("");
+
+  return {
+    index,
+    match: matchNode ? toFtsExpression(matchNode, index) : null,
+    clause,
+    params,
+  };
+}
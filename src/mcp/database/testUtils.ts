@@ -0,0 +1,44 @@
+/**
+ * テスト用のデータベースヘルパー
+ */
+
+import type Database from "better-sqlite3";
+import type { M365RoadmapFeature } from "../api/types.js";
+import {
+  replaceFeatureAvailabilities,
+  replaceFeatureCloudInstances,
+  replaceFeaturePlatforms,
+  replaceFeatureProducts,
+  replaceFeatureReleaseRings,
+  upsertFeature,
+} from "./queries.js";
+
+/**
+ * フィーチャーを関連テーブルも含めて書き込む（指定しない項目は既定値）
+ */
+export function insertFeature(
+  db: Database.Database,
+  overrides: Partial<M365RoadmapFeature> & { id: number },
+): void {
+  const feature: M365RoadmapFeature = {
+    title: "Untitled",
+    description: null,
+    cloudInstances: [],
+    platforms: [],
+    releaseRings: [],
+    products: [],
+    generalAvailabilityDate: null,
+    previewAvailabilityDate: null,
+    status: "In development",
+    created: "2026-01-01T00:00:00.000Z",
+    modified: "2026-01-01T00:00:00.000Z",
+    availabilities: [],
+    ...overrides,
+  };
+  upsertFeature(db, feature);
+  replaceFeatureProducts(db, feature.id, feature.products);
+  replaceFeaturePlatforms(db, feature.id, feature.platforms);
+  replaceFeatureCloudInstances(db, feature.id, feature.cloudInstances);
+  replaceFeatureReleaseRings(db, feature.id, feature.releaseRings);
+  replaceFeatureAvailabilities(db, feature.id, feature.availabilities);
+}
@@ -3,13 +3,16 @@
  * MCP Server エントリポイント
  *
  * stdio トランスポートで MCP Server を起動
- * 同期はバックグラウンドで実行（起動をブロックしない）
+ * 同期はバックグラウンドで定期実行（起動をブロックしない）
  */
 
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import { createMCPServer } from "./server.js";
 import { getDatabase, closeDatabase } from "./database/database.js";
-import { isSyncNeeded, performSync } from "./services/sync.service.js";
+import {
+  createSyncScheduler,
+  resolveSyncSchedulerConfig,
+} from "./services/syncScheduler.service.js";
 import * as logger from "./utils/logger.js";
 import { readFileSync } from "fs";
 import { join, dirname } from "path";
@@ -35,35 +38,6 @@ function getPackageVersion(): string {
 
 const PACKAGE_VERSION = getPackageVersion();
 
-// データ古さの閾値（時間）- バックグラウンド同期用
-const STALENESS_HOURS = 1; // 1時間ごとに同期試行
-
-/**
- * バックグラウンド同期を実行
- */
-async function backgroundSync(
-  db: ReturnType<typeof getDatabase>,
-): Promise<void> {
-  if (!isSyncNeeded(db, STALENESS_HOURS)) {
-    logger.info("Data is fresh, skipping background sync");
-    return;
-  }
-
-  logger.info("Starting background sync");
-  try {
-    const result = await performSync(db);
-    if (result.success) {
-      logger.info("Background sync completed", {
-        recordsProcessed: result.recordsProcessed,
-        durationMs: result.durationMs,
-      });
-    }
-  } catch (error) {
-    const err = error as Error;
-    logger.warn("Background sync failed", { error: err.message });
-  }
-}
-
 /**
  * メイン関数
  */
@@ -89,20 +63,21 @@ async function main(): Promise<void> {
 
   logger.info("MCP Server running on stdio");
 
-  // バックグラウンドで同期（非同期、起動をブロックしない）
-  backgroundSync(db).catch((error) => {
-    logger.warn("Background sync error", { error: (error as Error).message });
-  });
+  // バックグラウンドで定期同期（非同期、起動をブロックしない）
+  const scheduler = createSyncScheduler(db, resolveSyncSchedulerConfig());
+  scheduler.start();
 
   // クリーンアップ
   process.on("SIGINT", () => {
     logger.info("Received SIGINT, shutting down");
+    scheduler.stop();
     closeDatabase();
     process.exit(0);
   });
 
   process.on("SIGTERM", () => {
     logger.info("Received SIGTERM, shutting down");
+    scheduler.stop();
     closeDatabase();
     process.exit(0);
   });
@@ -0,0 +1,138 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import Database from "better-sqlite3";
+
+import { runMigrations } from "../database/migrations.js";
+import { insertFeature } from "../database/testUtils.js";
+import { PROMPTS, getPrompt } from "./roadmapPrompts.js";
+
+const NOW = new Date("2026-03-15T00:00:00.000Z");
+
+/**
+ * プロンプトのメッセージに埋め込まれた JSON データ
+ */
+function getPromptData(text: string): Record<string, unknown> {
+  return JSON.parse(text.slice(text.indexOf("{"))) as Record<string, unknown>;
+}
+
+describe("roadmapPrompts", () => {
+  let db: Database.Database;
+
+  beforeEach(() => {
+    db = new Database(":memory:");
+    runMigrations(db);
+
+    insertFeature(db, {
+      id: 1,
+      title: "Teams meeting recap",
+      products: ["Microsoft Teams"],
+      generalAvailabilityDate: "2026-03",
+      status: "Rolling out",
+    });
+    insertFeature(db, {
+      id: 2,
+      title: "Teams town hall updates",
+      products: ["Microsoft Teams"],
+      generalAvailabilityDate: "2026-04",
+      modified: "2026-03-02T00:00:00.000Z",
+    });
+    insertFeature(db, {
+      id: 3,
+      title: "Outlook new calendar",
+      products: ["Outlook"],
+      previewAvailabilityDate: "2026-04",
+    });
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it("すべてのプロンプトを名前と引数付きで一覧すること", () => {
+    expect(PROMPTS.map((p) => p.name)).toEqual([
+      "m365_monthly_briefing",
+      "m365_feature_impact_review",
+      "m365_admin_next_month",
+    ]);
+    expect(
+      PROMPTS.map((p) =>
+        p.arguments.filter((a) => a.required).map((a) => a.name),
+      ),
+    ).toEqual([["product"], ["id"], []]);
+  });
+
+  it("月次ブリーフィングに製品の GA 予定と当月の更新を埋め込むこと", () => {
+    const result = getPrompt(
+      db,
+      "m365_monthly_briefing",
+      { product: "teams" },
+      NOW,
+    );
+
+    expect(result.messages).toHaveLength(1);
+    const text = result.messages[0].content.text;
+    expect(text).toContain("Microsoft Teams");
+    const data = getPromptData(text) as {
+      products: string[];
+      period: { from: string; to: string };
+      reachingGeneralAvailability: { features: Array<{ id: number }> };
+      updatedOnRoadmap: { features: Array<{ id: number }> };
+    };
+    expect(data.products).toEqual(["Microsoft Teams"]);
+    expect(data.period).toEqual({ from: "2026-03", to: "2026-03" });
+    expect(data.reachingGeneralAvailability.features.map((f) => f.id)).toEqual([
+      1,
+    ]);
+    expect(data.updatedOnRoadmap.features.map((f) => f.id)).toEqual([2]);
+  });
+
+  it("影響レビューにフィーチャーの詳細と参考 URL を埋め込むこと", () => {
+    const result = getPrompt(db, "m365_feature_impact_review", { id: "1" });
+
+    const data = getPromptData(result.messages[0].content.text) as {
+      feature: { id: number; roadmapUrl: string };
+      history: unknown[];
+      relatedFeatures: unknown[];
+    };
+    expect(result.description).toContain("Teams meeting recap");
+    expect(data.feature.id).toBe(1);
+    expect(data.feature.roadmapUrl).toContain("searchterms=1");
+    expect(data.history).toEqual([]);
+  });
+
+  it("翌月の GA とプレビューを管理者向けプロンプトに埋め込むこと", () => {
+    const result = getPrompt(db, "m365_admin_next_month", {}, NOW);
+
+    const data = getPromptData(result.messages[0].content.text) as {
+      month: string;
+      reachingGeneralAvailability: { features: Array<{ id: number }> };
+      reachingPreview: { features: Array<{ id: number }> };
+    };
+    expect(data.month).toBe("2026-04");
+    expect(data.reachingGeneralAvailability.features.map((f) => f.id)).toEqual([
+      2,
+    ]);
+    expect(data.reachingPreview.features.map((f) => f.id)).toEqual([3]);
+  });
+
+  it("不正な引数や不明なプロンプトはエラーになること", () => {
+    expect(() => getPrompt(db, "m365_monthly_briefing", {})).toThrow(
+      "Missing required prompt argument: product",
+    );
+    expect(() =>
+      getPrompt(db, "m365_monthly_briefing", { product: "Yammer" }),
+    ).toThrow("Unknown product: Yammer");
+    expect(() =>
+      getPrompt(db, "m365_monthly_briefing", {
+        product: "Teams",
+        month: "2026-13",
+      }),
+    ).toThrow("Invalid prompt argument: month");
+    expect(() =>
+      getPrompt(db, "m365_feature_impact_review", { id: "abc" }),
+    ).toThrow("Invalid prompt argument: id");
+    expect(() =>
+      getPrompt(db, "m365_feature_impact_review", { id: "999" }),
+    ).toThrow("Feature not found: 999");
+    expect(() => getPrompt(db, "unknown")).toThrow("Unknown prompt: unknown");
+  });
+});
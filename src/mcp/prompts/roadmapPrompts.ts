@@ -0,0 +1,371 @@
+/**
+ * MCP プロンプト
+ *
+ * 定型のロードマップ業務（製品別の月次ブリーフィング、フィーチャーの影響レビュー、
+ * 翌月に向けた管理者の準備）のプロンプトテンプレート。
+ * ローカル DB から関連データを取得してプロンプトのメッセージに埋め込む
+ */
+
+import type Database from "better-sqlite3";
+import type { M365SearchFilters, M365SearchResultItem } from "../api/types.js";
+import {
+  getAllProducts,
+  getFeatureById,
+  getFeatureHistory,
+  searchFeatures,
+} from "../database/queries.js";
+import { formatFeatureTimeline } from "../services/history.service.js";
+import { findRelatedFeatures } from "../services/related.service.js";
+import { resolveRelativeDateRange } from "../utils/dateRange.js";
+import { normalizeOptionalString } from "../utils/params.js";
+import { generateReferenceUrls } from "../utils/referenceUrls.js";
+
+/**
+ * プロンプト定義（prompts/list の要素）
+ */
+export interface PromptDefinition {
+  name: string;
+  description: string;
+  arguments: Array<{ name: string; description: string; required: boolean }>;
+}
+
+/**
+ * プロンプトの内容（prompts/get の結果）
+ */
+export interface PromptResult {
+  description: string;
+  messages: Array<{
+    role: "user";
+    content: { type: "text"; text: string };
+  }>;
+  [key: string]: unknown;
+}
+
+/** 1 つの区分に埋め込むフィーチャーの最大数 */
+const MAX_PROMPT_FEATURES = 50;
+
+/** 影響レビューに含める関連フィーチャーの数 */
+const RELATED_FEATURE_COUNT = 5;
+
+const LANGUAGE_INSTRUCTION =
+  "Write in the language the user is using in this chat (Japanese if unsure).";
+
+/**
+ * プロンプト一覧
+ */
+export const PROMPTS: PromptDefinition[] = [
+  {
+    name: "m365_monthly_briefing",
+    description:
+      "Monthly M365 briefing for a product: features reaching GA and roadmap updates in the month.",
+    arguments: [
+      {
+        name: "product",
+        description:
+          'Product name or part of it (e.g., "Microsoft Teams", "SharePoint").',
+        required: true,
+      },
+      {
+        name: "month",
+        description:
+          'Month as YYYY-MM or a relative expression such as "last-month" (default: this month).',
+        required: false,
+      },
+    ],
+  },
+  {
+    name: "m365_feature_impact_review",
+    description:
+      "Impact review of a roadmap feature: details, schedule changes and related features.",
+    arguments: [
+      {
+        name: "id",
+        description: "M365 Roadmap feature ID (e.g., 487848).",
+        required: true,
+      },
+    ],
+  },
+  {
+    name: "m365_admin_next_month",
+    description:
+      "What admins should prepare for next month: features reaching GA or preview next month.",
+    arguments: [
+      {
+        name: "product",
+        description:
+          "Optional product name or part of it to focus on (default: all products).",
+        required: false,
+      },
+    ],
+  },
+];
+
+/**
+ * プロンプトで扱うフィーチャーの要約
+ */
+function summarizeFeature(item: M365SearchResultItem) {
+  return {
+    id: item.id,
+    title: item.title,
+    status: item.status,
+    products: item.products,
+    generalAvailabilityDate: item.generalAvailabilityDate,
+    previewAvailabilityDate: item.previewAvailabilityDate,
+    description: item.description,
+    roadmapUrl: generateReferenceUrls(item.id).roadmapUrlJa,
+  };
+}
+
+/**
+ * 検索して区分ごとのデータ（件数と先頭の一部）にまとめる
+ */
+function collectFeatures(
+  db: Database.Database,
+  filters: M365SearchFilters,
+): { totalCount: number; features: ReturnType<typeof summarizeFeature>[] } {
+  const result = searchFeatures(db, {
+    ...filters,
+    limit: MAX_PROMPT_FEATURES,
+  });
+  return {
+    totalCount: result.totalCount,
+    features: result.results.map(summarizeFeature),
+  };
+}
+
+/**
+ * 製品名の引数を DB 上の製品名に解決（完全一致、なければ部分一致。大文字小文字を区別しない）
+ */
+function resolveProducts(db: Database.Database, value: string): string[] {
+  const lower = value.toLowerCase();
+  const products = getAllProducts(db);
+  const exact = products.filter((product) => product.toLowerCase() === lower);
+  if (exact.length > 0) {
+    return exact;
+  }
+
+  const partial = products.filter((product) =>
+    product.toLowerCase().includes(lower),
+  );
+  if (partial.length === 0) {
+    throw new Error(
+      `Unknown product: ${value} (see m365-roadmap://guide for available products)`,
+    );
+  }
+  return partial;
+}
+
+/**
+ * 月の引数を YYYY-MM の範囲に解決
+ */
+function resolveMonthRange(
+  value: string | undefined,
+  now: Date,
+): { from: string; to: string } {
+  if (value === undefined) {
+    const month = now.toISOString().slice(0, 7);
+    return { from: month, to: month };
+  }
+  if (/^\d{4}-(0[1-9]|1[0-2])$/.test(value)) {
+    return { from: value, to: value };
+  }
+
+  const range = resolveRelativeDateRange(value, now);
+  if (!range) {
+    throw new Error(
+      'Invalid prompt argument: month (must be YYYY-MM or a relative expression such as "last-month")',
+    );
+  }
+  return { from: range.from.slice(0, 7), to: range.to.slice(0, 7) };
+}
+
+/**
+ * 指示文とデータから 1 件のユーザーメッセージを作成
+ */
+function createPromptResult(
+  description: string,
+  instructions: string[],
+  data: unknown,
+): PromptResult {
+  return {
+    description,
+    messages: [
+      {
+        role: "user",
+        content: {
+          type: "text",
+          text: [
+            ...instructions,
+            LANGUAGE_INSTRUCTION,
+            "",
+            "Data from the local M365 Roadmap cache (JSON):",
+            JSON.stringify(data, null, 2),
+          ].join("\n"),
+        },
+      },
+    ],
+  };
+}
+
+function buildMonthlyBriefing(
+  db: Database.Database,
+  args: Record<string, string>,
+  now: Date,
+): PromptResult {
+  const product = normalizeOptionalString(args.product);
+  if (!product) {
+    throw new Error("Missing required prompt argument: product");
+  }
+  const products = resolveProducts(db, product);
+  const { from, to } = resolveMonthRange(
+    normalizeOptionalString(args.month),
+    now,
+  );
+  const period = from === to ? from : `${from} to ${to}`;
+
+  return createPromptResult(
+    `Monthly M365 briefing for ${product} (${period})`,
+    [
+      `Write a monthly Microsoft 365 briefing for ${products.join(", ")} covering ${period}, for colleagues who are not IT specialists.`,
+      "Start with a short summary of the most important changes, then list features reaching general availability and other notable roadmap updates.",
+      "For each feature, explain in one or two plain sentences what changes for users, and include its roadmapUrl.",
+      "If totalCount is larger than the number of features listed, mention that more items exist and suggest search_m365_roadmap for the full list.",
+    ],
+    {
+      products,
+      period: { from, to },
+      reachingGeneralAvailability: collectFeatures(db, {
+        products,
+        dateField: "ga",
+        dateFrom: from,
+        dateTo: to,
+        sortBy: "gaDate",
+        sortOrder: "asc",
+      }),
+      updatedOnRoadmap: collectFeatures(db, {
+        products,
+        dateField: "modified",
+        dateFrom: from,
+        dateTo: to,
+        sortBy: "modified",
+      }),
+    },
+  );
+}
+
+function buildFeatureImpactReview(
+  db: Database.Database,
+  args: Record<string, string>,
+): PromptResult {
+  const value = normalizeOptionalString(args.id);
+  const id = value && /^\d+$/.test(value) ? Number(value) : NaN;
+  if (!Number.isSafeInteger(id) || id <= 0) {
+    throw new Error(
+      "Invalid prompt argument: id (must be a positive integer roadmap feature ID)",
+    );
+  }
+
+  const feature = getFeatureById(db, id);
+  if (!feature) {
+    throw new Error(`Feature not found: ${id}`);
+  }
+
+  const related = findRelatedFeatures(db, id, RELATED_FEATURE_COUNT);
+  const urls = generateReferenceUrls(id);
+
+  return createPromptResult(
+    `Impact review of M365 Roadmap feature ${id}: ${feature.title}`,
+    [
+      `Review the impact of Microsoft 365 Roadmap feature ${id} ("${feature.title}") on our organization.`,
+      "Cover: what changes and for whom, the rollout timeline (including any schedule changes in the history), " +
+        "affected cloud instances and platforms, recommended admin actions and user communication, and open questions to verify.",
+      "Mention related features that should be reviewed together.",
+      "Include the roadmapUrl and learnSearchUrl so readers can check the official pages.",
+    ],
+    {
+      feature: {
+        ...feature,
+        roadmapUrl: urls.roadmapUrlJa,
+        learnSearchUrl: urls.learnSearchUrlJa,
+      },
+      history: formatFeatureTimeline(getFeatureHistory(db, id)),
+      relatedFeatures: (related?.related ?? []).map((item) => ({
+        id: item.id,
+        title: item.title,
+        status: item.status,
+        generalAvailabilityDate: item.generalAvailabilityDate,
+        score: item.score,
+        roadmapUrl: generateReferenceUrls(item.id).roadmapUrlJa,
+      })),
+    },
+  );
+}
+
+function buildAdminNextMonth(
+  db: Database.Database,
+  args: Record<string, string>,
+  now: Date,
+): PromptResult {
+  const product = normalizeOptionalString(args.product);
+  const products = product ? resolveProducts(db, product) : undefined;
+  const { from: month } = resolveMonthRange("next-month", now);
+  const scope = products ? products.join(", ") : "all Microsoft 365 products";
+
+  return createPromptResult(
+    `What M365 admins should prepare for ${month}` +
+      (product ? ` (${product})` : ""),
+    [
+      `Prepare a checklist for Microsoft 365 administrators of what to get ready for ${month} (${scope}).`,
+      "Group the items by product. For each feature reaching general availability or preview, state the admin action " +
+        "(policy or settings to review, licensing, user communication, training, help desk readiness) and include its roadmapUrl.",
+      "Put items that need action before the rollout starts first. Keep the language plain for non-technical readers.",
+      "If totalCount is larger than the number of features listed, mention that more items exist and suggest search_m365_roadmap for the full list.",
+    ],
+    {
+      month,
+      products: products ?? null,
+      reachingGeneralAvailability: collectFeatures(db, {
+        products,
+        dateField: "ga",
+        dateFrom: month,
+        dateTo: month,
+        sortBy: "gaDate",
+        sortOrder: "asc",
+      }),
+      reachingPreview: collectFeatures(db, {
+        products,
+        dateField: "preview",
+        dateFrom: month,
+        dateTo: month,
+        sortBy: "previewDate",
+        sortOrder: "asc",
+      }),
+    },
+  );
+}
+
+/**
+ * プロンプトを引数とローカル DB のデータから組み立てる
+ *
+ * @throws Error 不明なプロンプト名・不正な引数・存在しないフィーチャーの場合
+ */
+export function getPrompt(
+  db: Database.Database,
+  name: string,
+  args: Record<string, string> = {},
+  now: Date = new Date(),
+): PromptResult {
+  switch (name) {
+    case "m365_monthly_briefing":
+      return buildMonthlyBriefing(db, args, now);
+
+    case "m365_feature_impact_review":
+      return buildFeatureImpactReview(db, args);
+
+    case "m365_admin_next_month":
+      return buildAdminNextMonth(db, args, now);
+
+    default:
+      throw new Error(`Unknown prompt: ${name}`);
+  }
+}
@@ -0,0 +1,127 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import Database from "better-sqlite3";
+
+import { runMigrations } from "../database/migrations.js";
+import { insertFeatureHistory } from "../database/queries.js";
+import { insertFeature } from "../database/testUtils.js";
+import {
+  listRecentFeatureResources,
+  readRoadmapResource,
+} from "./roadmapResources.js";
+
+describe("roadmapResources", () => {
+  let db: Database.Database;
+
+  beforeEach(() => {
+    db = new Database(":memory:");
+    runMigrations(db);
+
+    insertFeature(db, {
+      id: 1,
+      title: "Teams meeting recap | notes",
+      description: "Recap notes after meetings.",
+      products: ["Microsoft Teams"],
+      platforms: ["Desktop", "Web"],
+      generalAvailabilityDate: "2026-03",
+      status: "Rolling out",
+      modified: "2026-02-10T00:00:00.000Z",
+    });
+    insertFeature(db, {
+      id: 2,
+      title: "Outlook new calendar",
+      products: ["Outlook"],
+      generalAvailabilityDate: "2026-03",
+      modified: "2026-02-20T00:00:00.000Z",
+    });
+    insertFeature(db, {
+      id: 3,
+      title: "Teams town hall",
+      products: ["Microsoft Teams"],
+      generalAvailabilityDate: "2026-05",
+    });
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it("最近更新されたフィーチャーを新しい順にリソースとして一覧すること", () => {
+    const resources = listRecentFeatureResources(db);
+
+    expect(resources.map((r) => r.uri)).toEqual([
+      "m365-roadmap://feature/2",
+      "m365-roadmap://feature/1",
+      "m365-roadmap://feature/3",
+    ]);
+    expect(resources[0]).toMatchObject({
+      name: "2: Outlook new calendar",
+      mimeType: "text/markdown",
+    });
+  });
+
+  it("フィーチャーの詳細と変更履歴を Markdown で返すこと", () => {
+    insertFeatureHistory(
+      db,
+      1,
+      "2026-02-10T00:00:00.000Z",
+      "changed",
+      [
+        {
+          field: "generalAvailabilityDate",
+          oldValue: "2026-02",
+          newValue: "2026-03",
+        },
+      ],
+      "2026-02-10T00:00:01.000Z",
+    );
+
+    const contents = readRoadmapResource(db, "m365-roadmap://feature/1");
+
+    expect(contents?.mimeType).toBe("text/markdown");
+    expect(contents?.text).toContain("# Teams meeting recap | notes");
+    expect(contents?.text).toContain("- **Platforms**: Desktop, Web");
+    expect(contents?.text).toContain("Recap notes after meetings.");
+    expect(contents?.text).toContain("searchterms=1");
+    expect(contents?.text).toContain(
+      'generalAvailabilityDate "2026-02" → "2026-03"',
+    );
+  });
+
+  it("製品のフィーチャーをステータス別の件数付きで返すこと", () => {
+    const contents = readRoadmapResource(
+      db,
+      "m365-roadmap://product/microsoft%20teams",
+    );
+
+    expect(contents?.text).toContain("# Microsoft Teams — M365 Roadmap");
+    expect(contents?.text).toContain(
+      "- **By status**: In development: 1, Rolling out: 1",
+    );
+    expect(contents?.text).toContain("Teams meeting recap \\| notes");
+    expect(contents?.text).not.toContain("Outlook new calendar");
+  });
+
+  it("月の GA フィーチャーを製品別の件数付きで返すこと", () => {
+    const contents = readRoadmapResource(db, "m365-roadmap://month/2026-03");
+
+    expect(contents?.text).toContain("- **Features**: 2");
+    expect(contents?.text).toContain("Outlook new calendar");
+    expect(contents?.text).not.toContain("Teams town hall");
+  });
+
+  it("不正な URI や存在しない対象を扱うこと", () => {
+    expect(readRoadmapResource(db, "m365-roadmap://guide")).toBeNull();
+    expect(() => readRoadmapResource(db, "m365-roadmap://feature/abc")).toThrow(
+      "Invalid feature ID: abc",
+    );
+    expect(() => readRoadmapResource(db, "m365-roadmap://feature/999")).toThrow(
+      "Feature not found: 999",
+    );
+    expect(() =>
+      readRoadmapResource(db, "m365-roadmap://product/Yammer"),
+    ).toThrow("Unknown product: Yammer");
+    expect(() =>
+      readRoadmapResource(db, "m365-roadmap://month/2026-3"),
+    ).toThrow("Invalid month: 2026-3");
+  });
+});
@@ -0,0 +1,334 @@
+/**
+ * ロードマップのリソース
+ *
+ * 個々のフィーチャー・製品・月・保存済み検索を URI で指定できるリソーステンプレートと、
+ * 最近更新されたフィーチャーの具体的なリソースを Markdown で提供する
+ * （保存済み検索の読み取りは savedSearches の readSavedSearchResource が行う）
+ */
+
+import type Database from "better-sqlite3";
+import type {
+  M365SearchFilters,
+  M365SearchResultItem,
+  M365StoredFeature,
+} from "../api/types.js";
+import {
+  getAllProducts,
+  getFeatureById,
+  getFeatureHistory,
+  searchFeatures,
+} from "../database/queries.js";
+import { formatFeatureTimeline } from "../services/history.service.js";
+import { SAVED_SEARCH_URI_PREFIX } from "../tools/savedSearches.js";
+import { generateReferenceUrls } from "../utils/referenceUrls.js";
+
+const FEATURE_URI_PREFIX = "m365-roadmap://feature/";
+const PRODUCT_URI_PREFIX = "m365-roadmap://product/";
+const MONTH_URI_PREFIX = "m365-roadmap://month/";
+
+const MARKDOWN_MIME_TYPE = "text/markdown";
+
+/** リソース一覧に載せる最近更新されたフィーチャーの数 */
+const RECENT_FEATURE_COUNT = 20;
+
+/** 製品・月のリソースに載せるフィーチャーの最大数 */
+const MAX_LISTED_FEATURES = 200;
+
+/** フィーチャーのリソースに載せる変更履歴の件数（新しい順） */
+const MAX_HISTORY_ENTRIES = 10;
+
+/**
+ * リソーステンプレート一覧（resources/templates/list の要素）
+ */
+export const RESOURCE_TEMPLATES = [
+  {
+    uriTemplate: `${FEATURE_URI_PREFIX}{id}`,
+    name: "M365 Roadmap feature",
+    description:
+      "Details of a roadmap feature by ID: status, products, platforms, dates, description, availability, recent changes and reference URLs.",
+    mimeType: MARKDOWN_MIME_TYPE,
+  },
+  {
+    uriTemplate: `${PRODUCT_URI_PREFIX}{name}`,
+    name: "M365 Roadmap product",
+    description:
+      'Roadmap features of a product (e.g., "Microsoft Teams"), most recently updated first, with counts per status.',
+    mimeType: MARKDOWN_MIME_TYPE,
+  },
+  {
+    uriTemplate: `${MONTH_URI_PREFIX}{month}`,
+    name: "M365 Roadmap month",
+    description:
+      "Roadmap features with general availability in a month (YYYY-MM), with counts per product.",
+    mimeType: MARKDOWN_MIME_TYPE,
+  },
+  {
+    uriTemplate: `${SAVED_SEARCH_URI_PREFIX}{name}`,
+    name: "M365 Roadmap saved search",
+    description:
+      "Definition of a saved search by name (filters and how to run it). List names with list_m365_saved_searches.",
+    mimeType: "application/json",
+  },
+];
+
+/**
+ * フィーチャーのリソース URI
+ */
+export function getFeatureUri(id: number): string {
+  return `${FEATURE_URI_PREFIX}${id}`;
+}
+
+/**
+ * Markdown の表のセル用にエスケープ（改行は空白に置き換え）
+ */
+function escapeTableCell(value: string): string {
+  return value.replace(/\|/g, "\\|").replace(/\s*\n\s*/g, " ");
+}
+
+/**
+ * フィーチャー一覧の Markdown 表
+ */
+function formatFeatureTable(items: M365SearchResultItem[]): string[] {
+  if (items.length === 0) {
+    return ["No features found."];
+  }
+
+  return [
+    "| ID | Title | Status | Products | GA | Preview |",
+    "| --- | --- | --- | --- | --- | --- |",
+    ...items.map((item) => {
+      const cells = [
+        `[${item.id}](${generateReferenceUrls(item.id).roadmapUrlJa})`,
+        escapeTableCell(item.title),
+        item.status,
+        escapeTableCell(item.products.join(", ")),
+        item.generalAvailabilityDate ?? "-",
+        item.previewAvailabilityDate ?? "-",
+      ];
+      return `| ${cells.join(" | ")} |`;
+    }),
+  ];
+}
+
+/**
+ * 件数の内訳（例: "Rolling out: 3, In development: 2"）
+ */
+function formatCounts(counts: { value: string; count: number }[]): string {
+  return counts.length > 0
+    ? counts.map(({ value, count }) => `${value}: ${count}`).join(", ")
+    : "-";
+}
+
+/**
+ * 一覧で省略した件数の注記
+ */
+function formatOmittedNote(shown: number, totalCount: number): string[] {
+  return shown < totalCount
+    ? [
+        "",
+        `Showing ${shown} of ${totalCount} features. Use search_m365_roadmap for the rest.`,
+      ]
+    : [];
+}
+
+function formatFeatureMarkdown(
+  feature: M365StoredFeature,
+  history: ReturnType<typeof formatFeatureTimeline>,
+): string {
+  const list = (values: string[]) =>
+    values.length > 0 ? values.join(", ") : "-";
+  const urls = generateReferenceUrls(feature.id);
+  const lines = [
+    `# ${feature.title}`,
+    "",
+    `- **ID**: ${feature.id}`,
+    `- **Status**: ${feature.status}`,
+    `- **Products**: ${list(feature.products)}`,
+    `- **Platforms**: ${list(feature.platforms)}`,
+    `- **Cloud instances**: ${list(feature.cloudInstances)}`,
+    `- **Release rings**: ${list(feature.releaseRings)}`,
+    `- **GA date**: ${feature.generalAvailabilityDate ?? "-"}`,
+    `- **Preview date**: ${feature.previewAvailabilityDate ?? "-"}`,
+    `- **Created**: ${feature.created}`,
+    `- **Modified**: ${feature.modified}`,
+  ];
+  if (feature.removedAt) {
+    lines.push(`- **Removed from roadmap**: ${feature.removedAt}`);
+  }
+  lines.push(
+    `- **Roadmap**: ${urls.roadmapUrlJa}`,
+    `- **MS Learn**: ${urls.learnSearchUrlJa}`,
+    "",
+    "## Description",
+    "",
+    feature.description ?? "No description.",
+  );
+
+  if (feature.availabilities.length > 0) {
+    lines.push(
+      "",
+      "## Availability",
+      "",
+      "| Ring | Month |",
+      "| --- | --- |",
+      ...feature.availabilities.map(
+        (a) => `| ${escapeTableCell(a.ring)} | ${a.month} ${a.year} |`,
+      ),
+    );
+  }
+
+  if (history.length > 0) {
+    lines.push(
+      "",
+      "## Recent changes",
+      "",
+      ...history
+        .slice(-MAX_HISTORY_ENTRIES)
+        .reverse()
+        .map((entry) =>
+          entry.field === undefined
+            ? `- ${entry.changedAt}: ${entry.changeType}`
+            : `- ${entry.changedAt}: ${entry.field} ${JSON.stringify(entry.oldValue)} → ${JSON.stringify(entry.newValue)}`,
+        ),
+    );
+  }
+
+  return lines.join("\n");
+}
+
+function readFeature(db: Database.Database, value: string): string {
+  const id = /^\d+$/.test(value) ? Number(value) : NaN;
+  if (!Number.isSafeInteger(id) || id <= 0) {
+    throw new Error(
+      `Invalid feature ID: ${value} (must be a positive integer)`,
+    );
+  }
+
+  const feature = getFeatureById(db, id);
+  if (!feature) {
+    throw new Error(`Feature not found: ${id}`);
+  }
+
+  return formatFeatureMarkdown(
+    feature,
+    formatFeatureTimeline(getFeatureHistory(db, id)),
+  );
+}
+
+/**
+ * 検索結果（件数の内訳付き）の Markdown
+ */
+function formatFeatureList(
+  db: Database.Database,
+  title: string,
+  filters: M365SearchFilters,
+  breakdown: "products" | "statuses",
+): string {
+  const result = searchFeatures(db, {
+    ...filters,
+    limit: MAX_LISTED_FEATURES,
+    facets: true,
+  });
+  const label = breakdown === "products" ? "By product" : "By status";
+
+  return [
+    `# ${title}`,
+    "",
+    `- **Features**: ${result.totalCount}`,
+    `- **${label}**: ${formatCounts(result.facets?.[breakdown] ?? [])}`,
+    "",
+    ...formatFeatureTable(result.results),
+    ...formatOmittedNote(result.results.length, result.totalCount),
+  ].join("\n");
+}
+
+function readProduct(db: Database.Database, value: string): string {
+  const product = getAllProducts(db).find(
+    (name) => name.toLowerCase() === value.toLowerCase(),
+  );
+  if (!product) {
+    throw new Error(
+      `Unknown product: ${value} (see m365-roadmap://guide for available products)`,
+    );
+  }
+
+  return formatFeatureList(
+    db,
+    `${product} — M365 Roadmap`,
+    { products: [product], sortBy: "modified" },
+    "statuses",
+  );
+}
+
+function readMonth(db: Database.Database, value: string): string {
+  if (!/^\d{4}-(0[1-9]|1[0-2])$/.test(value)) {
+    throw new Error(`Invalid month: ${value} (must be YYYY-MM format)`);
+  }
+
+  return formatFeatureList(
+    db,
+    `M365 Roadmap — general availability in ${value}`,
+    {
+      dateField: "ga",
+      dateFrom: value,
+      dateTo: value,
+      sortBy: "gaDate",
+      sortOrder: "asc",
+    },
+    "products",
+  );
+}
+
+/**
+ * 最近更新されたフィーチャーのリソース一覧
+ */
+export function listRecentFeatureResources(db: Database.Database): {
+  uri: string;
+  name: string;
+  description: string;
+  mimeType: string;
+}[] {
+  return searchFeatures(db, {
+    sortBy: "modified",
+    limit: RECENT_FEATURE_COUNT,
+  }).results.map((item) => ({
+    uri: getFeatureUri(item.id),
+    name: `${item.id}: ${item.title}`,
+    description: `${item.status} · ${item.products.join(", ")} · updated ${item.modified.slice(0, 10)}`,
+    mimeType: MARKDOWN_MIME_TYPE,
+  }));
+}
+
+/**
+ * フィーチャー・製品・月のリソースを読み取る
+ *
+ * @returns URI がこれらのリソースを指していない場合は null
+ * @throws Error ID・月の形式が不正、またはフィーチャー・製品が存在しない場合
+ */
+export function readRoadmapResource(
+  db: Database.Database,
+  uri: string,
+): { uri: string; mimeType: string; text: string } | null {
+  const readers: Array<[string, (value: string) => string]> = [
+    [FEATURE_URI_PREFIX, (value) => readFeature(db, value)],
+    [PRODUCT_URI_PREFIX, (value) => readProduct(db, value)],
+    [MONTH_URI_PREFIX, (value) => readMonth(db, value)],
+  ];
+
+  for (const [prefix, read] of readers) {
+    if (!uri.startsWith(prefix)) {
+      continue;
+    }
+
+    let value: string;
+    try {
+      value = decodeURIComponent(uri.slice(prefix.length));
+    } catch {
+      return null;
+    }
+
+    return { uri, mimeType: MARKDOWN_MIME_TYPE, text: read(value) };
+  }
+
+  return null;
+}
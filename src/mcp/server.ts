@@ -9,8 +9,15 @@ import {
   ListToolsRequestSchema,
   CallToolRequestSchema,
   ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
   ReadResourceRequestSchema,
+  ListPromptsRequestSchema,
+  GetPromptRequestSchema,
+  type ProgressToken,
+  type ServerNotification,
+  type ServerRequest,
 } from "@modelcontextprotocol/sdk/types.js";
+import type { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
 import type Database from "better-sqlite3";
 
 import * as logger from "./utils/logger.js";
@@ -23,10 +30,46 @@ import {
   getM365UpdateSchema,
   handleGetM365Update,
 } from "./tools/getM365Update.js";
+import {
+  findRelatedM365FeaturesSchema,
+  handleFindRelatedM365Features,
+} from "./tools/findRelatedM365Features.js";
 import {
   syncM365RoadmapSchema,
   handleSyncM365Roadmap,
 } from "./tools/syncM365Roadmap.js";
+import {
+  getM365RoadmapChangesSchema,
+  handleGetM365RoadmapChanges,
+} from "./tools/getM365RoadmapChanges.js";
+import {
+  getM365ScheduleDriftSchema,
+  handleGetM365ScheduleDrift,
+} from "./tools/getM365ScheduleDrift.js";
+import {
+  getSyncHistorySchema,
+  handleGetSyncHistory,
+  summarizeSyncRuns,
+} from "./tools/getSyncHistory.js";
+import {
+  saveM365SearchSchema,
+  handleSaveM365Search,
+  listM365SavedSearchesSchema,
+  handleListM365SavedSearches,
+  runM365SavedSearchSchema,
+  handleRunM365SavedSearch,
+  deleteM365SavedSearchSchema,
+  handleDeleteM365SavedSearch,
+  listSavedSearchResources,
+  readSavedSearchResource,
+} from "./tools/savedSearches.js";
+import { PROMPTS, getPrompt } from "./prompts/roadmapPrompts.js";
+import {
+  RESOURCE_TEMPLATES,
+  listRecentFeatureResources,
+  readRoadmapResource,
+} from "./resources/roadmapResources.js";
+import { getSyncRuns } from "./database/queries.js";
 import { getSyncStatus } from "./services/sync.service.js";
 
 /**
@@ -51,6 +94,7 @@ export function createMCPServer(config: ServerConfig): Server {
       capabilities: {
         tools: {},
         resources: {},
+        prompts: {},
       },
     },
   );
@@ -58,11 +102,12 @@ export function createMCPServer(config: ServerConfig): Server {
   // ハンドラ登録
   registerToolHandlers(server, config.database);
   registerResourceHandlers(server, config.database);
+  registerPromptHandlers(server, config.database);
 
   logger.info("MCP server created", {
     name: config.name,
     version: config.version,
-    capabilities: ["tools", "resources"],
+    capabilities: ["tools", "resources", "prompts"],
   });
 
   return server;
@@ -80,13 +125,21 @@ function registerToolHandlers(server: Server, db: Database.Database): void {
       tools: [
         searchM365RoadmapSchema,
         getM365UpdateSchema,
+        findRelatedM365FeaturesSchema,
         syncM365RoadmapSchema,
+        getM365RoadmapChangesSchema,
+        getM365ScheduleDriftSchema,
+        getSyncHistorySchema,
+        saveM365SearchSchema,
+        listM365SavedSearchesSchema,
+        runM365SavedSearchSchema,
+        deleteM365SavedSearchSchema,
       ],
     };
   });
 
   // ツール呼び出し
-  server.setRequestHandler(CallToolRequestSchema, async (request) => {
+  server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
     logger.info("CallTool request received", {
       tool: request.params.name,
     });
@@ -98,8 +151,36 @@ function registerToolHandlers(server: Server, db: Database.Database): void {
       case "get_m365_update":
         return handleGetM365Update(db, request.params.arguments);
 
+      case "find_related_m365_features":
+        return handleFindRelatedM365Features(db, request.params.arguments);
+
       case "sync_m365_roadmap":
-        return await handleSyncM365Roadmap(db, request.params.arguments);
+        return await handleSyncM365Roadmap(
+          db,
+          request.params.arguments,
+          createProgressReporter(request.params._meta?.progressToken, extra),
+        );
+
+      case "get_m365_roadmap_changes":
+        return handleGetM365RoadmapChanges(db, request.params.arguments);
+
+      case "get_m365_schedule_drift":
+        return handleGetM365ScheduleDrift(db, request.params.arguments);
+
+      case "get_sync_history":
+        return handleGetSyncHistory(db, request.params.arguments);
+
+      case "save_m365_search":
+        return handleSaveM365Search(db, request.params.arguments);
+
+      case "list_m365_saved_searches":
+        return handleListM365SavedSearches(db);
+
+      case "run_m365_saved_search":
+        return handleRunM365SavedSearch(db, request.params.arguments);
+
+      case "delete_m365_saved_search":
+        return handleDeleteM365SavedSearch(db, request.params.arguments);
 
       default:
         throw new Error(`Unknown tool: ${request.params.name}`);
@@ -107,6 +188,35 @@ function registerToolHandlers(server: Server, db: Database.Database): void {
   });
 }
 
+/**
+ * 進捗通知関数を作成（progressToken がない場合は undefined）
+ */
+function createProgressReporter(
+  progressToken: ProgressToken | undefined,
+  extra: RequestHandlerExtra<ServerRequest, ServerNotification>,
+): ((processed: number) => void) | undefined {
+  if (progressToken === undefined) {
+    return undefined;
+  }
+
+  return (processed) => {
+    extra
+      .sendNotification({
+        method: "notifications/progress",
+        params: {
+          progressToken,
+          progress: processed,
+          message: `${processed} features processed`,
+        },
+      })
+      .catch((error: Error) => {
+        logger.warn("Failed to send progress notification", {
+          error: error.message,
+        });
+      });
+  };
+}
+
 /**
  * リソースハンドラ登録
  */
@@ -122,13 +232,22 @@ function registerResourceHandlers(server: Server, db: Database.Database): void {
           name: "M365 Roadmap Search Guide",
           description:
             "Available filter values and metadata to help construct valid search queries. " +
-            "Includes all available products, platforms, statuses, and data freshness info.",
+            "Includes all available products, platforms, statuses, cloud instances, release rings, availability rings, data freshness info, and recent sync runs.",
           mimeType: "application/json",
         },
+        ...listSavedSearchResources(db),
+        ...listRecentFeatureResources(db),
       ],
     };
   });
 
+  // リソーステンプレート一覧
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, () => {
+    logger.debug("ListResourceTemplates request received");
+
+    return { resourceTemplates: RESOURCE_TEMPLATES };
+  });
+
   // リソース読み取り
   server.setRequestHandler(ReadResourceRequestSchema, (request) => {
     logger.info("ReadResource request received", {
@@ -138,6 +257,7 @@ function registerResourceHandlers(server: Server, db: Database.Database): void {
     if (request.params.uri === "m365-roadmap://guide") {
       const guideData = getGuideData(db);
       const syncStatus = getSyncStatus(db);
+      const recentSyncRuns = getSyncRuns(db, { limit: 5 });
 
       return {
         contents: [
@@ -150,6 +270,9 @@ function registerResourceHandlers(server: Server, db: Database.Database): void {
                 availableProducts: guideData.products,
                 availablePlatforms: guideData.platforms,
                 availableStatuses: guideData.statuses,
+                availableCloudInstances: guideData.cloudInstances,
+                availableReleaseRings: guideData.releaseRings,
+                availableAvailabilityRings: guideData.availabilityRings,
                 dataFreshness: syncStatus
                   ? {
                       lastSync: syncStatus.lastSync,
@@ -157,11 +280,20 @@ function registerResourceHandlers(server: Server, db: Database.Database): void {
                       hoursSinceSync: syncStatus.hoursSinceSync,
                     }
                   : null,
+                recentSyncRuns: {
+                  summary: summarizeSyncRuns(recentSyncRuns),
+                  runs: recentSyncRuns,
+                  hint: "Use get_sync_history for the full sync log.",
+                },
                 examples: {
                   searchCopilot: {
                     query: "Copilot",
                     limit: 10,
                   },
+                  advancedQuery: {
+                    query:
+                      '"shared channels" -Android (title:Loop OR product:Whiteboard)',
+                  },
                   filterByProduct: {
                     products: ["Microsoft Teams"],
                     status: "In development",
@@ -170,6 +302,13 @@ function registerResourceHandlers(server: Server, db: Database.Database): void {
                     dateFrom: "2026-01",
                     dateTo: "2026-06",
                   },
+                  filterByCloudInstance: {
+                    cloudInstances: ["GCC High"],
+                  },
+                  filterByAvailability: {
+                    availabilityRing: "Targeted Release",
+                    availabilityMonth: "2026-03",
+                  },
                 },
               },
               null,
@@ -180,6 +319,37 @@ function registerResourceHandlers(server: Server, db: Database.Database): void {
       };
     }
 
+    const savedSearch = readSavedSearchResource(db, request.params.uri);
+    if (savedSearch) {
+      return { contents: [savedSearch] };
+    }
+
+    const roadmapResource = readRoadmapResource(db, request.params.uri);
+    if (roadmapResource) {
+      return { contents: [roadmapResource] };
+    }
+
     throw new Error(`Unknown resource: ${request.params.uri}`);
   });
 }
+
+/**
+ * プロンプトハンドラ登録
+ */
+function registerPromptHandlers(server: Server, db: Database.Database): void {
+  // プロンプト一覧
+  server.setRequestHandler(ListPromptsRequestSchema, () => {
+    logger.debug("ListPrompts request received");
+
+    return { prompts: PROMPTS };
+  });
+
+  // プロンプト取得
+  server.setRequestHandler(GetPromptRequestSchema, (request) => {
+    logger.info("GetPrompt request received", {
+      prompt: request.params.name,
+    });
+
+    return getPrompt(db, request.params.name, request.params.arguments);
+  });
+}
@@ -0,0 +1,62 @@
+import { describe, it, expect } from "vitest";
+import {
+  detectFeatureChanges,
+  formatFeatureTimeline,
+} from "./history.service.js";
+import type { M365RoadmapFeature } from "../api/types.js";
+
+const baseFeature: M365RoadmapFeature = {
+  id: 1,
+  title: "Shared channels",
+  description: null,
+  cloudInstances: [],
+  platforms: ["Web", "Desktop"],
+  releaseRings: [],
+  products: ["Microsoft Teams"],
+  generalAvailabilityDate: "2026-03",
+  previewAvailabilityDate: null,
+  status: "In development",
+  created: "2026-01-01T00:00:00.000Z",
+  modified: "2026-01-01T00:00:00.000Z",
+  availabilities: [],
+};
+
+describe("detectFeatureChanges", () => {
+  it("変更がない場合は空配列を返すこと", () => {
+    expect(detectFeatureChanges(baseFeature, { ...baseFeature })).toEqual([]);
+  });
+
+  it("配列の順序の違いは変更とみなさないこと", () => {
+    const reordered = { ...baseFeature, platforms: ["Desktop", "Web"] };
+    expect(detectFeatureChanges(baseFeature, reordered)).toEqual([]);
+  });
+
+  it("ステータスの変更を旧値・新値付きで検出すること", () => {
+    const next = { ...baseFeature, status: "Rolling out" };
+    expect(detectFeatureChanges(baseFeature, next)).toEqual([
+      { field: "status", oldValue: "In development", newValue: "Rolling out" },
+    ]);
+  });
+});
+
+describe("formatFeatureTimeline", () => {
+  it("配列項目の履歴値を配列に復元すること", () => {
+    const timeline = formatFeatureTimeline([
+      {
+        featureId: 1,
+        syncRun: "2026-02-01T00:00:00.000Z",
+        changeType: "changed",
+        field: "products",
+        oldValue: '["Microsoft Teams"]',
+        newValue: '["Microsoft Outlook","Microsoft Teams"]',
+        changedAt: "2026-02-01T00:00:01.000Z",
+      },
+    ]);
+
+    expect(timeline[0].oldValue).toEqual(["Microsoft Teams"]);
+    expect(timeline[0].newValue).toEqual([
+      "Microsoft Outlook",
+      "Microsoft Teams",
+    ]);
+  });
+});
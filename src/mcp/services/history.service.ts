@@ -0,0 +1,290 @@
+/**
+ * 変更履歴サービス
+ *
+ * 同期時にフィーチャーのフィールド単位の差分を検出し、
+ * get_m365_update で返すタイムラインに整形する
+ */
+
+import type { M365RoadmapFeature } from "../api/types.js";
+import type {
+  FeatureChangeEntry,
+  FeatureFieldChange,
+  FeatureHistoryEntry,
+} from "../database/queries.js";
+
+/** 履歴を記録するスカラー項目 */
+const SCALAR_FIELDS = [
+  "title",
+  "description",
+  "status",
+  "generalAvailabilityDate",
+  "previewAvailabilityDate",
+] as const;
+
+/** 履歴を記録する配列項目（JSON 文字列で保存） */
+const ARRAY_FIELDS = [
+  "products",
+  "platforms",
+  "cloudInstances",
+  "releaseRings",
+  "availabilities",
+] as const;
+
+type ArrayField = (typeof ARRAY_FIELDS)[number];
+
+/**
+ * 配列項目を比較・保存用に正規化（順序の違いは変更とみなさない）
+ */
+function serializeArrayField(
+  feature: M365RoadmapFeature,
+  field: ArrayField,
+): string {
+  if (field === "availabilities") {
+    const values = (feature.availabilities || [])
+      .map((a) => ({ ring: a.ring, year: a.year, month: a.month }))
+      .sort((a, b) =>
+        `${a.ring}|${a.year}|${a.month}`.localeCompare(
+          `${b.ring}|${b.year}|${b.month}`,
+        ),
+      );
+    return JSON.stringify(values);
+  }
+
+  return JSON.stringify([...(feature[field] || [])].sort());
+}
+
+/**
+ * 2 つのフィーチャー間で変更されたフィールドを検出
+ *
+ * @param previous DB に保存されていた値
+ * @param next API から取得した新しい値
+ * @returns 変更されたフィールドの一覧（変更なしなら空）
+ */
+export function detectFeatureChanges(
+  previous: M365RoadmapFeature,
+  next: M365RoadmapFeature,
+): FeatureFieldChange[] {
+  const changes: FeatureFieldChange[] = [];
+
+  for (const field of SCALAR_FIELDS) {
+    const oldValue = previous[field] ?? null;
+    const newValue = next[field] ?? null;
+    if (oldValue !== newValue) {
+      changes.push({ field, oldValue, newValue });
+    }
+  }
+
+  for (const field of ARRAY_FIELDS) {
+    const oldValue = serializeArrayField(previous, field);
+    const newValue = serializeArrayField(next, field);
+    if (oldValue !== newValue) {
+      changes.push({ field, oldValue, newValue });
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * 履歴値を表示用に復元（配列項目は JSON をパース）
+ */
+export function parseHistoryValue(
+  field: string | null,
+  value: string | null,
+): unknown {
+  if (
+    value === null ||
+    !(ARRAY_FIELDS as readonly string[]).includes(field ?? "")
+  ) {
+    return value;
+  }
+
+  try {
+    return JSON.parse(value) as unknown;
+  } catch {
+    return value;
+  }
+}
+
+/**
+ * 変更履歴をタイムライン形式に整形
+ */
+export function formatFeatureTimeline(entries: FeatureHistoryEntry[]): Array<{
+  changedAt: string;
+  syncRun: string;
+  changeType: string;
+  field?: string;
+  oldValue?: unknown;
+  newValue?: unknown;
+}> {
+  return entries.map((entry) =>
+    entry.field === null
+      ? {
+          changedAt: entry.changedAt,
+          syncRun: entry.syncRun,
+          changeType: entry.changeType,
+        }
+      : {
+          changedAt: entry.changedAt,
+          syncRun: entry.syncRun,
+          changeType: entry.changeType,
+          field: entry.field,
+          oldValue: parseHistoryValue(entry.field, entry.oldValue),
+          newValue: parseHistoryValue(entry.field, entry.newValue),
+        },
+  );
+}
+
+/**
+ * 変更サマリ（追加・変更・ステータス遷移・削除・復元）
+ */
+export interface FeatureChangeSummary {
+  added: Array<{ id: number; title: string; status: string; addedAt: string }>;
+  removed: Array<{
+    id: number;
+    title: string;
+    status: string;
+    removedAt: string;
+  }>;
+  restored: Array<{
+    id: number;
+    title: string;
+    status: string;
+    restoredAt: string;
+  }>;
+  changed: Array<{
+    id: number;
+    title: string;
+    status: string;
+    changedFields: string[];
+    changes: Array<{ field: string; oldValue: unknown; newValue: unknown }>;
+    lastChangedAt: string;
+  }>;
+  statusTransitions: Array<{
+    id: number;
+    title: string;
+    from: string | null;
+    to: string | null;
+    changedAt: string;
+  }>;
+}
+
+/**
+ * 変更履歴を追加・変更・ステータス遷移・削除・復元に分類
+ *
+ * 期間内に追加されたフィーチャーは added のみに含める。
+ * 同じフィールドが複数回変わった場合は最初の旧値と最後の新値にまとめ、
+ * 結果的に元に戻ったフィールドは除外する。
+ */
+export function summarizeFeatureChanges(
+  entries: FeatureChangeEntry[],
+): FeatureChangeSummary {
+  const added = new Map<number, FeatureChangeSummary["added"][number]>();
+  const changed = new Map<
+    number,
+    {
+      title: string;
+      status: string;
+      fields: Map<string, { oldValue: string | null; newValue: string | null }>;
+      lastChangedAt: string;
+    }
+  >();
+  const statusTransitions: FeatureChangeSummary["statusTransitions"] = [];
+  // 削除・復元は最後の状態のみ残す（削除後に復元されたものは restored）
+  const removed = new Map<number, FeatureChangeSummary["removed"][number]>();
+  const restored = new Map<number, FeatureChangeSummary["restored"][number]>();
+
+  for (const entry of entries) {
+    if (entry.changeType === "added") {
+      added.set(entry.featureId, {
+        id: entry.featureId,
+        title: entry.title,
+        status: entry.status,
+        addedAt: entry.changedAt,
+      });
+      continue;
+    }
+
+    if (entry.changeType === "removed") {
+      restored.delete(entry.featureId);
+      removed.set(entry.featureId, {
+        id: entry.featureId,
+        title: entry.title,
+        status: entry.status,
+        removedAt: entry.changedAt,
+      });
+      continue;
+    }
+
+    if (entry.changeType === "restored") {
+      removed.delete(entry.featureId);
+      restored.set(entry.featureId, {
+        id: entry.featureId,
+        title: entry.title,
+        status: entry.status,
+        restoredAt: entry.changedAt,
+      });
+      continue;
+    }
+
+    if (added.has(entry.featureId) || entry.field === null) {
+      continue;
+    }
+
+    if (entry.field === "status") {
+      statusTransitions.push({
+        id: entry.featureId,
+        title: entry.title,
+        from: entry.oldValue,
+        to: entry.newValue,
+        changedAt: entry.changedAt,
+      });
+    }
+
+    const item = changed.get(entry.featureId) ?? {
+      title: entry.title,
+      status: entry.status,
+      fields: new Map(),
+      lastChangedAt: entry.changedAt,
+    };
+    const existing = item.fields.get(entry.field);
+    item.fields.set(entry.field, {
+      oldValue: existing ? existing.oldValue : entry.oldValue,
+      newValue: entry.newValue,
+    });
+    item.lastChangedAt = entry.changedAt;
+    changed.set(entry.featureId, item);
+  }
+
+  const changedItems: FeatureChangeSummary["changed"] = [];
+  for (const [id, item] of changed) {
+    const changes = [...item.fields.entries()]
+      .filter(([, value]) => value.oldValue !== value.newValue)
+      .map(([field, value]) => ({
+        field,
+        oldValue: parseHistoryValue(field, value.oldValue),
+        newValue: parseHistoryValue(field, value.newValue),
+      }));
+
+    if (changes.length === 0) {
+      continue;
+    }
+
+    changedItems.push({
+      id,
+      title: item.title,
+      status: item.status,
+      changedFields: changes.map((c) => c.field),
+      changes,
+      lastChangedAt: item.lastChangedAt,
+    });
+  }
+
+  return {
+    added: [...added.values()],
+    changed: changedItems,
+    statusTransitions,
+    removed: [...removed.values()],
+    restored: [...restored.values()],
+  };
+}
@@ -0,0 +1,106 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import Database from "better-sqlite3";
+
+import { runMigrations } from "../database/migrations.js";
+import { markFeatureRemoved } from "../database/queries.js";
+import { insertFeature } from "../database/testUtils.js";
+import { findRelatedFeatures } from "./related.service.js";
+
+describe("findRelatedFeatures", () => {
+  let db: Database.Database;
+
+  beforeEach(() => {
+    db = new Database(":memory:");
+    runMigrations(db);
+
+    insertFeature(db, {
+      id: 1,
+      title: "Teams meeting recap with intelligent notes",
+      description: "Meeting recap shows notes and tasks after the meeting.",
+      products: ["Microsoft Teams"],
+      platforms: ["Desktop", "Web"],
+    });
+    insertFeature(db, {
+      id: 2,
+      title: "Intelligent recap for ad hoc meetings",
+      description: "Recap notes are available for ad hoc meeting calls.",
+      products: ["Microsoft Teams"],
+      platforms: ["Desktop", "Web"],
+    });
+    insertFeature(db, {
+      id: 3,
+      title: "Chat pinning in Teams",
+      description: "Pin chats to the top of the chat list.",
+      products: ["Microsoft Teams"],
+      platforms: ["iOS"],
+    });
+    insertFeature(db, {
+      id: 4,
+      title: "Outlook meeting notes",
+      description: "Take notes for a meeting in the calendar.",
+      products: ["Outlook"],
+      platforms: ["Web"],
+    });
+    insertFeature(db, {
+      id: 5,
+      title: "Excel formula suggestions",
+      description: "Formula suggestions in the grid.",
+      products: ["Excel"],
+      platforms: ["Web"],
+    });
+    insertFeature(db, {
+      id: 6,
+      title: "Word accessibility checker",
+      description: "Check the document for accessibility issues.",
+      products: ["Word"],
+      platforms: ["Desktop"],
+    });
+    insertFeature(db, {
+      id: 7,
+      title: "SharePoint site templates",
+      description: "Apply the new templates to a site.",
+      products: ["SharePoint"],
+      platforms: ["Web"],
+    });
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it("語の重なりと共通の製品・プラットフォームが多い順に返すこと", () => {
+    const result = findRelatedFeatures(db, 1, 10);
+
+    expect(result?.related.map((r) => r.id)).toEqual([2, 4, 3]);
+    expect(result?.related[0]).toMatchObject({
+      sharedProducts: ["Microsoft Teams"],
+      sharedPlatforms: ["Desktop", "Web"],
+    });
+    expect(result?.related[0].sharedTerms).toEqual(
+      expect.arrayContaining(["recap", "intelligent", "notes"]),
+    );
+    expect(result?.related[0].score).toBeGreaterThan(
+      result?.related[1].score ?? 1,
+    );
+  });
+
+  it("元のフィーチャーにしか現れない語は特徴語に含めないこと", () => {
+    const result = findRelatedFeatures(db, 5, 10);
+
+    expect(result?.keyTerms).not.toContain("formula");
+    expect(result?.related.some((r) => r.id === 5)).toBe(false);
+  });
+
+  it("削除済みのフィーチャーは候補に含めないこと", () => {
+    markFeatureRemoved(db, 2, "2026-02-01T00:00:00.000Z");
+
+    const result = findRelatedFeatures(db, 1, 10);
+
+    expect(result?.related.map((r) => r.id)).not.toContain(2);
+  });
+
+  it("件数の上限と存在しない ID を扱うこと", () => {
+    expect(findRelatedFeatures(db, 1, 1)?.related).toHaveLength(1);
+    expect(findRelatedFeatures(db, 999, 10)).toBeNull();
+  });
+});
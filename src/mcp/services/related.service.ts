@@ -0,0 +1,200 @@
+/**
+ * 関連フィーチャーサービス
+ *
+ * 指定したフィーチャーに似たフィーチャーを、共通の製品・プラットフォームと
+ * タイトル・説明の語の重なり（FTS インデックスの bm25）からローカルで算出する
+ */
+
+import type Database from "better-sqlite3";
+import type { M365StoredFeature } from "../api/types.js";
+import {
+  findFeaturesByTerms,
+  findFeaturesSharingProducts,
+  getFeatureCount,
+  getSearchTermDocCounts,
+  getStoredFeatures,
+} from "../database/queries.js";
+
+/**
+ * 関連フィーチャー
+ */
+export interface RelatedFeature {
+  id: number;
+  title: string;
+  status: string;
+  products: string[];
+  platforms: string[];
+  generalAvailabilityDate: string | null;
+  /** 類似度（0〜1） */
+  score: number;
+  sharedProducts: string[];
+  sharedPlatforms: string[];
+  /** 元のフィーチャーの特徴語のうち、タイトル・説明に含まれる語 */
+  sharedTerms: string[];
+}
+
+/** 類似度の重み（語の重なり・製品・プラットフォーム） */
+const TEXT_WEIGHT = 0.7;
+const PRODUCT_WEIGHT = 0.2;
+const PLATFORM_WEIGHT = 0.1;
+
+/** 検索に使う特徴語の数 */
+const MAX_QUERY_TERMS = 12;
+
+/** 特徴語から除く、半数を超えるフィーチャーに現れるありふれた語の割合 */
+const MAX_TERM_DOC_RATIO = 0.5;
+
+/** タイトル中の語の重み（説明中の語に対する倍率） */
+const TITLE_TERM_WEIGHT = 2;
+
+/** 類似度を計算する候補数（語・製品それぞれ） */
+const CANDIDATE_LIMIT = 200;
+
+/**
+ * FTS（unicode61）と同じ単位で語に分割（小文字）
+ */
+function tokenize(text: string | null): string[] {
+  return (text ?? "")
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((token) => token.length >= 2 && !/^\p{N}+$/u.test(token));
+}
+
+/**
+ * フィーチャーの特徴語を tf-idf の高い順に選ぶ
+ *
+ * 元のフィーチャーにしか現れない語は他のフィーチャーと一致せず、ありふれた語
+ * （"the" など）は類似性を表さないため除く。製品名の語（"teams" など）は製品の
+ * 共通性として別に評価するため除く
+ */
+function selectKeyTerms(
+  db: Database.Database,
+  feature: M365StoredFeature,
+): string[] {
+  const frequencies = new Map<string, number>();
+  for (const term of tokenize(feature.title)) {
+    frequencies.set(term, (frequencies.get(term) ?? 0) + TITLE_TERM_WEIGHT);
+  }
+  for (const term of tokenize(feature.description)) {
+    frequencies.set(term, (frequencies.get(term) ?? 0) + 1);
+  }
+
+  for (const term of feature.products.flatMap(tokenize)) {
+    frequencies.delete(term);
+  }
+
+  const docCounts = getSearchTermDocCounts(db, [...frequencies.keys()]);
+  const total = getFeatureCount(db);
+
+  return [...frequencies]
+    .map(([term, frequency]) => ({
+      term,
+      frequency,
+      docCount: docCounts.get(term) ?? 0,
+    }))
+    .filter(
+      ({ docCount }) => docCount > 1 && docCount <= total * MAX_TERM_DOC_RATIO,
+    )
+    .map(({ term, frequency, docCount }) => ({
+      term,
+      weight: frequency * Math.log(1 + total / docCount),
+    }))
+    .sort((a, b) => b.weight - a.weight || a.term.localeCompare(b.term))
+    .slice(0, MAX_QUERY_TERMS)
+    .map(({ term }) => term);
+}
+
+/**
+ * 2 つの集合の Jaccard 係数と共通要素
+ */
+function overlap(
+  a: string[],
+  b: string[],
+): { shared: string[]; similarity: number } {
+  const setB = new Set(b);
+  const shared = [...new Set(a)].filter((value) => setB.has(value));
+  const union = new Set([...a, ...b]).size;
+  return { shared, similarity: union === 0 ? 0 : shared.length / union };
+}
+
+/**
+ * 関連フィーチャーを類似度の高い順に取得
+ *
+ * 候補は特徴語のいずれかを含むフィーチャーと、製品が共通するフィーチャー（削除済みを除く）
+ *
+ * @returns 元のフィーチャーが存在しない場合は null
+ */
+export function findRelatedFeatures(
+  db: Database.Database,
+  featureId: number,
+  limit: number,
+): {
+  feature: M365StoredFeature;
+  keyTerms: string[];
+  related: RelatedFeature[];
+} | null {
+  const feature = getStoredFeatures(db, [featureId]).get(featureId);
+  if (!feature) {
+    return null;
+  }
+
+  const keyTerms = selectKeyTerms(db, feature);
+  const textMatches = findFeaturesByTerms(
+    db,
+    keyTerms,
+    featureId,
+    CANDIDATE_LIMIT,
+  );
+  const productMatches = findFeaturesSharingProducts(
+    db,
+    feature.products,
+    featureId,
+    CANDIDATE_LIMIT,
+  );
+
+  // bm25 は小さいほど関連度が高い（負の値）ため、最も高いものを 1 に正規化
+  const bestRank = Math.min(0, ...textMatches.map((m) => m.rank));
+  const textScores = new Map(
+    textMatches.map((m) => [m.id, bestRank < 0 ? m.rank / bestRank : 0]),
+  );
+
+  const candidates = getStoredFeatures(db, [
+    ...new Set([...textMatches.map((m) => m.id), ...productMatches]),
+  ]);
+  const keyTermSet = new Set(keyTerms);
+
+  return {
+    feature,
+    keyTerms,
+    related: [...candidates.values()]
+      .map((candidate) => {
+        const products = overlap(feature.products, candidate.products);
+        const platforms = overlap(feature.platforms, candidate.platforms);
+        const score =
+          TEXT_WEIGHT * (textScores.get(candidate.id) ?? 0) +
+          PRODUCT_WEIGHT * products.similarity +
+          PLATFORM_WEIGHT * platforms.similarity;
+        const candidateTerms = new Set([
+          ...tokenize(candidate.title),
+          ...tokenize(candidate.description),
+        ]);
+
+        return {
+          id: candidate.id,
+          title: candidate.title,
+          status: candidate.status,
+          products: candidate.products,
+          platforms: candidate.platforms,
+          generalAvailabilityDate: candidate.generalAvailabilityDate,
+          score: Math.round(score * 1000) / 1000,
+          sharedProducts: products.shared,
+          sharedPlatforms: platforms.shared,
+          sharedTerms: [...keyTermSet].filter((term) =>
+            candidateTerms.has(term),
+          ),
+        };
+      })
+      .sort((a, b) => b.score - a.score || a.id - b.id)
+      .slice(0, limit),
+  };
+}
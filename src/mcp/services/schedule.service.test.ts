@@ -0,0 +1,82 @@
+import { describe, it, expect } from "vitest";
+import { buildScheduleDriftReport } from "./schedule.service.js";
+import type { FeatureChangeEntry } from "../database/queries.js";
+
+function entry(
+  featureId: number,
+  field: string,
+  oldValue: string | null,
+  newValue: string | null,
+): FeatureChangeEntry {
+  return {
+    featureId,
+    syncRun: "2026-02-01T00:00:00.000Z",
+    changeType: "changed",
+    field,
+    oldValue,
+    newValue,
+    changedAt: "2026-02-01T00:00:01.000Z",
+    title: `Feature ${featureId}`,
+    status: "In development",
+  };
+}
+
+describe("buildScheduleDriftReport", () => {
+  it("延期・前倒し・繰り返し延期と製品別ドリフトを集計すること", () => {
+    const report = buildScheduleDriftReport(
+      [
+        entry(1, "generalAvailabilityDate", "2026-03", "2026-06"),
+        entry(1, "generalAvailabilityDate", "2026-06", "2026-08"),
+        entry(2, "generalAvailabilityDate", "2026-05", "2026-04"),
+        entry(3, "generalAvailabilityDate", null, "2026-07"),
+      ],
+      new Map([
+        [1, ["Microsoft Teams"]],
+        [2, ["Microsoft Teams"]],
+      ]),
+      2,
+    );
+
+    expect(report.delayed.map((d) => [d.id, d.netDriftMonths])).toEqual([
+      [1, 5],
+    ]);
+    expect(report.pulledIn.map((d) => [d.id, d.netDriftMonths])).toEqual([
+      [2, -1],
+    ]);
+    expect(report.repeatedlySlipping.map((d) => d.id)).toEqual([1]);
+    expect(report.byProduct).toEqual([
+      {
+        product: "Microsoft Teams",
+        featureCount: 2,
+        slips: 2,
+        pullIns: 1,
+        totalDriftMonths: 4,
+        averageDriftMonths: 2,
+      },
+    ]);
+  });
+
+  it("可用性のリングごとの月の移動を検出すること", () => {
+    const report = buildScheduleDriftReport(
+      [
+        entry(
+          1,
+          "availabilities",
+          JSON.stringify([{ ring: "Preview", year: 2026, month: "January" }]),
+          JSON.stringify([{ ring: "Preview", year: 2026, month: "March" }]),
+        ),
+      ],
+      new Map(),
+      2,
+    );
+
+    expect(report.delayed[0].moves).toEqual([
+      expect.objectContaining({
+        field: "availability:Preview",
+        from: "2026-01",
+        to: "2026-03",
+        deltaMonths: 2,
+      }),
+    ]);
+  });
+});
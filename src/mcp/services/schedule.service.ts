@@ -0,0 +1,252 @@
+/**
+ * スケジュールドリフト分析サービス
+ *
+ * 変更履歴に記録された GA / プレビュー予定日と可用性（feature_availabilities）の
+ * 移動を集計し、延期・前倒し・繰り返し延期されているフィーチャーを抽出する
+ */
+
+import type { M365Availability } from "../api/types.js";
+import type { FeatureChangeEntry } from "../database/queries.js";
+import { monthNameToNumber, yearMonthToIndex } from "../utils/months.js";
+
+/**
+ * 分析対象の日付項目
+ */
+export type ScheduleDateField = "ga" | "preview" | "availability";
+
+/** 日付項目 → 変更履歴のフィールド名 */
+export const SCHEDULE_HISTORY_FIELDS: Record<ScheduleDateField, string> = {
+  ga: "generalAvailabilityDate",
+  preview: "previewAvailabilityDate",
+  availability: "availabilities",
+};
+
+/**
+ * 日付の移動 1 回分
+ */
+export interface ScheduleMove {
+  /** 対象（generalAvailabilityDate / previewAvailabilityDate / availability:<ring>） */
+  field: string;
+  from: string;
+  to: string;
+  /** 移動した月数（正 = 延期、負 = 前倒し） */
+  deltaMonths: number;
+  changedAt: string;
+}
+
+/**
+ * フィーチャー単位のドリフト
+ */
+export interface FeatureScheduleDrift {
+  id: number;
+  title: string;
+  status: string;
+  products: string[];
+  slips: number;
+  pullIns: number;
+  netDriftMonths: number;
+  moves: ScheduleMove[];
+}
+
+/**
+ * 製品単位のドリフト集計
+ */
+export interface ProductScheduleDrift {
+  product: string;
+  featureCount: number;
+  slips: number;
+  pullIns: number;
+  totalDriftMonths: number;
+  averageDriftMonths: number;
+}
+
+/**
+ * ドリフト分析レポート
+ */
+export interface ScheduleDriftReport {
+  delayed: FeatureScheduleDrift[];
+  pulledIn: FeatureScheduleDrift[];
+  repeatedlySlipping: FeatureScheduleDrift[];
+  byProduct: ProductScheduleDrift[];
+}
+
+/**
+ * 可用性の JSON 履歴値をリング → YYYY-MM に変換
+ */
+function parseAvailabilityMonths(value: string | null): Map<string, string> {
+  const result = new Map<string, string>();
+  if (!value) {
+    return result;
+  }
+
+  let availabilities: M365Availability[];
+  try {
+    availabilities = JSON.parse(value) as M365Availability[];
+  } catch {
+    return result;
+  }
+
+  for (const availability of availabilities) {
+    const month = monthNameToNumber(availability.month ?? "");
+    if (!month || !availability.year) {
+      continue;
+    }
+    result.set(
+      availability.ring,
+      `${availability.year}-${String(month).padStart(2, "0")}`,
+    );
+  }
+
+  return result;
+}
+
+/**
+ * YYYY-MM 同士の移動を作成（解釈できない・移動なしの場合は null）
+ */
+function createMove(
+  field: string,
+  from: string | null,
+  to: string | null,
+  changedAt: string,
+): ScheduleMove | null {
+  const fromIndex = yearMonthToIndex(from);
+  const toIndex = yearMonthToIndex(to);
+  if (fromIndex === null || toIndex === null || fromIndex === toIndex) {
+    return null;
+  }
+
+  return {
+    field,
+    from: from as string,
+    to: to as string,
+    deltaMonths: toIndex - fromIndex,
+    changedAt,
+  };
+}
+
+/**
+ * 変更履歴エントリから日付の移動を抽出
+ */
+export function extractScheduleMoves(
+  entry: FeatureChangeEntry,
+): ScheduleMove[] {
+  if (entry.field === "availabilities") {
+    const before = parseAvailabilityMonths(entry.oldValue);
+    const after = parseAvailabilityMonths(entry.newValue);
+    const moves: ScheduleMove[] = [];
+
+    for (const [ring, from] of before) {
+      const move = createMove(
+        `availability:${ring}`,
+        from,
+        after.get(ring) ?? null,
+        entry.changedAt,
+      );
+      if (move) {
+        moves.push(move);
+      }
+    }
+
+    return moves;
+  }
+
+  if (!entry.field) {
+    return [];
+  }
+
+  const move = createMove(
+    entry.field,
+    entry.oldValue,
+    entry.newValue,
+    entry.changedAt,
+  );
+  return move ? [move] : [];
+}
+
+/**
+ * ドリフト分析レポートを作成
+ *
+ * @param entries 日付項目の変更履歴（古い順）
+ * @param productsMap フィーチャー ID → 製品一覧
+ * @param minSlips repeatedlySlipping とみなす延期回数
+ */
+export function buildScheduleDriftReport(
+  entries: FeatureChangeEntry[],
+  productsMap: Map<number, string[]>,
+  minSlips: number,
+): ScheduleDriftReport {
+  const features = new Map<number, FeatureScheduleDrift>();
+
+  for (const entry of entries) {
+    const moves = extractScheduleMoves(entry);
+    if (moves.length === 0) {
+      continue;
+    }
+
+    const drift = features.get(entry.featureId) ?? {
+      id: entry.featureId,
+      title: entry.title,
+      status: entry.status,
+      products: productsMap.get(entry.featureId) ?? [],
+      slips: 0,
+      pullIns: 0,
+      netDriftMonths: 0,
+      moves: [],
+    };
+
+    for (const move of moves) {
+      drift.moves.push(move);
+      drift.netDriftMonths += move.deltaMonths;
+      if (move.deltaMonths > 0) {
+        drift.slips++;
+      } else {
+        drift.pullIns++;
+      }
+    }
+
+    features.set(entry.featureId, drift);
+  }
+
+  const all = [...features.values()];
+
+  // 製品別集計
+  const products = new Map<string, ProductScheduleDrift>();
+  for (const drift of all) {
+    for (const product of drift.products) {
+      const summary = products.get(product) ?? {
+        product,
+        featureCount: 0,
+        slips: 0,
+        pullIns: 0,
+        totalDriftMonths: 0,
+        averageDriftMonths: 0,
+      };
+      summary.featureCount++;
+      summary.slips += drift.slips;
+      summary.pullIns += drift.pullIns;
+      summary.totalDriftMonths += drift.netDriftMonths;
+      products.set(product, summary);
+    }
+  }
+
+  const byProduct = [...products.values()]
+    .map((summary) => ({
+      ...summary,
+      averageDriftMonths:
+        Math.round((summary.totalDriftMonths / summary.featureCount) * 10) / 10,
+    }))
+    .sort((a, b) => b.totalDriftMonths - a.totalDriftMonths);
+
+  return {
+    delayed: all
+      .filter((d) => d.netDriftMonths > 0)
+      .sort((a, b) => b.netDriftMonths - a.netDriftMonths),
+    pulledIn: all
+      .filter((d) => d.netDriftMonths < 0)
+      .sort((a, b) => a.netDriftMonths - b.netDriftMonths),
+    repeatedlySlipping: all
+      .filter((d) => d.slips >= minSlips)
+      .sort((a, b) => b.slips - a.slips || b.netDriftMonths - a.netDriftMonths),
+    byProduct,
+  };
+}
@@ -0,0 +1,93 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import Database from "better-sqlite3";
+
+import { runMigrations } from "../database/migrations.js";
+import { insertFeature } from "../database/testUtils.js";
+import { getEditDistance, suggestQueryCorrection } from "./spelling.service.js";
+
+describe("getEditDistance", () => {
+  it("置換・挿入・削除をそれぞれ 1 と数えること", () => {
+    expect(getEditDistance("meeting", "meating", 2)).toBe(1);
+    expect(getEditDistance("meeting", "meetting", 2)).toBe(1);
+    expect(getEditDistance("meeting", "meting", 2)).toBe(1);
+  });
+
+  it("隣接文字の入れ替えを 1 と数えること", () => {
+    expect(getEditDistance("sharepiont", "sharepoint", 2)).toBe(1);
+  });
+
+  it("上限を超える場合は上限 + 1 を返すこと", () => {
+    expect(getEditDistance("teams", "planner", 2)).toBe(3);
+    expect(getEditDistance("a", "abcdef", 2)).toBe(3);
+  });
+});
+
+describe("suggestQueryCorrection", () => {
+  let db: Database.Database;
+
+  beforeEach(() => {
+    db = new Database(":memory:");
+    runMigrations(db);
+
+    insertFeature(db, {
+      id: 1,
+      title: "Document libraries support new views",
+      products: ["Microsoft SharePoint"],
+    });
+    insertFeature(db, {
+      id: 2,
+      title: "Meeting recap with Copilot",
+      description: "Meeting notes and tasks",
+      products: ["Microsoft Teams", "Microsoft Copilot (Microsoft 365)"],
+    });
+    insertFeature(db, {
+      id: 3,
+      title: "Meeting chat improvements",
+      products: ["Microsoft Teams"],
+    });
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it("インデックスの語彙から修正候補を返すこと", () => {
+    expect(suggestQueryCorrection(db, "meetnig recap")).toEqual({
+      query: "meeting recap",
+      corrections: [{ from: "meetnig", to: "meeting" }],
+    });
+  });
+
+  it("製品名に含まれる語はその表記で返すこと", () => {
+    expect(suggestQueryCorrection(db, "Sharepiont views")).toEqual({
+      query: "SharePoint views",
+      corrections: [{ from: "Sharepiont", to: "SharePoint" }],
+    });
+  });
+
+  it("構文を保ったまま語だけを置き換えること", () => {
+    const suggestion = suggestQueryCorrection(
+      db,
+      'title:"copliot recap" -chatt',
+    );
+    expect(suggestion?.query).toBe('title:"Copilot recap" -chat');
+  });
+
+  it("語彙に前方一致する語は修正しないこと", () => {
+    expect(suggestQueryCorrection(db, "meet recap")).toBeNull();
+  });
+
+  it("近い語がない・短すぎる・日本語の語は修正しないこと", () => {
+    expect(suggestQueryCorrection(db, "zzzzzz")).toBeNull();
+    expect(suggestQueryCorrection(db, "xy")).toBeNull();
+    expect(suggestQueryCorrection(db, "会議")).toBeNull();
+  });
+
+  it("製品・ステータスを対象とする語は修正しないこと", () => {
+    expect(suggestQueryCorrection(db, "product:Teems")).toBeNull();
+  });
+
+  it("構文エラーのクエリには null を返すこと", () => {
+    expect(suggestQueryCorrection(db, '"meetnig')).toBeNull();
+  });
+});
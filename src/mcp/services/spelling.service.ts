@@ -0,0 +1,211 @@
+/**
+ * 検索語のスペル候補サービス
+ *
+ * 検索結果が 0 件のとき、FTS インデックスの語彙と製品名から編集距離の近い語を探し、
+ * 修正したクエリを提案する（例: "Sharepiont" → "SharePoint"）
+ */
+
+import type Database from "better-sqlite3";
+import { getAllProducts, getSearchVocabulary } from "../database/queries.js";
+import {
+  containsCjk,
+  parseSearchQuery,
+  type SearchQueryNode,
+} from "../database/searchQuery.js";
+
+/**
+ * 修正した語
+ */
+export interface QueryCorrection {
+  from: string;
+  to: string;
+}
+
+/**
+ * 修正したクエリの提案
+ */
+export interface QuerySuggestion {
+  /** 修正後のクエリ */
+  query: string;
+  corrections: QueryCorrection[];
+}
+
+/** 修正対象とする語の最小文字数 */
+const MIN_TERM_LENGTH = 3;
+
+/**
+ * 許容する編集距離（短い語ほど厳しくする）
+ */
+function getMaxDistance(term: string): number {
+  return term.length <= 4 ? 1 : 2;
+}
+
+/**
+ * 編集距離（隣接文字の入れ替えを 1 とする OSA 距離）
+ *
+ * @returns max を超える場合は max + 1
+ */
+export function getEditDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) {
+    return max + 1;
+  }
+
+  // 直前 2 行だけを保持する
+  let previous2: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + cost,
+      );
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, previous2[j - 2] + 1);
+      }
+      current.push(value);
+      rowMin = Math.min(rowMin, value);
+    }
+    if (rowMin > max) {
+      return max + 1;
+    }
+    previous2 = previous;
+    previous = current;
+  }
+
+  return Math.min(previous[b.length], max + 1);
+}
+
+/**
+ * タイトル・説明を対象とする語（フレーズは単語に分割）を収集
+ */
+function collectWords(node: SearchQueryNode, words: Set<string>): void {
+  switch (node.type) {
+    case "term":
+      if (
+        node.field === null ||
+        node.field === "title" ||
+        node.field === "description"
+      ) {
+        for (const word of node.value.split(/[^\p{L}\p{N}]+/u)) {
+          words.add(word);
+        }
+      }
+      return;
+    case "not":
+      collectWords(node.child, words);
+      return;
+    default:
+      for (const child of node.children) {
+        collectWords(child, words);
+      }
+  }
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * 検索クエリの修正候補を提案
+ *
+ * 語彙に前方一致する語がない語だけを対象にし、編集距離が最小の語（同距離ならより多くの
+ * フィーチャーに含まれる語）に置き換える。製品名に含まれる語はその表記（例: "SharePoint"）を使う
+ *
+ * @returns 修正する語がない場合は null
+ */
+export function suggestQueryCorrection(
+  db: Database.Database,
+  query: string,
+): QuerySuggestion | null {
+  let parsed: SearchQueryNode | null;
+  try {
+    parsed = parseSearchQuery(query);
+  } catch {
+    return null;
+  }
+  if (!parsed) {
+    return null;
+  }
+
+  const words = new Set<string>();
+  collectWords(parsed, words);
+  const targets = [...words].filter(
+    (word) =>
+      word.length >= MIN_TERM_LENGTH &&
+      !/\p{N}/u.test(word) &&
+      !containsCjk(word),
+  );
+  if (targets.length === 0) {
+    return null;
+  }
+
+  // 語 → 含まれるフィーチャー数（製品名の語は FTS 語彙にない場合 0 件として加える）
+  const vocabulary = new Map<string, number>();
+  for (const { term, docCount } of getSearchVocabulary(db)) {
+    vocabulary.set(term, docCount);
+  }
+  const displayForms = new Map<string, string>();
+  for (const product of getAllProducts(db)) {
+    for (const word of product.split(/[^\p{L}\p{N}]+/u)) {
+      if (word.length >= MIN_TERM_LENGTH) {
+        const lower = word.toLowerCase();
+        displayForms.set(lower, word);
+        if (!vocabulary.has(lower)) {
+          vocabulary.set(lower, 0);
+        }
+      }
+    }
+  }
+
+  const corrections: QueryCorrection[] = [];
+  for (const word of targets) {
+    const lower = word.toLowerCase();
+    if ([...vocabulary.keys()].some((term) => term.startsWith(lower))) {
+      continue;
+    }
+
+    const max = getMaxDistance(lower);
+    let best: { term: string; distance: number; docCount: number } | null =
+      null;
+    for (const [term, docCount] of vocabulary) {
+      const distance = getEditDistance(lower, term, max);
+      if (
+        distance <= max &&
+        (!best ||
+          distance < best.distance ||
+          (distance === best.distance && docCount > best.docCount))
+      ) {
+        best = { term, distance, docCount };
+      }
+    }
+
+    if (best) {
+      corrections.push({
+        from: word,
+        to: displayForms.get(best.term) ?? best.term,
+      });
+    }
+  }
+
+  if (corrections.length === 0) {
+    return null;
+  }
+
+  let corrected = query;
+  for (const { from, to } of corrections) {
+    corrected = corrected.replace(
+      new RegExp(
+        `(?<![\\p{L}\\p{N}])${escapeRegExp(from)}(?![\\p{L}\\p{N}])`,
+        "gu",
+      ),
+      to,
+    );
+  }
+
+  return { query: corrected, corrections };
+}
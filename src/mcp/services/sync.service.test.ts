@@ -0,0 +1,439 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import Database from "better-sqlite3";
+
+import {
+  isSyncNeeded,
+  performSync,
+  verifySync,
+  SYNC_BATCH_SIZE,
+} from "./sync.service.js";
+import { runMigrations } from "../database/migrations.js";
+import {
+  getFeatureById,
+  getFeatureHistory,
+  getSyncRuns,
+  getSyncLease,
+  finishSyncRun,
+  searchFeatures,
+  startSyncRun,
+  upsertSyncLease,
+} from "../database/queries.js";
+import {
+  fetchAllFeaturesWithETag,
+  fetchFeatureStreamWithETag,
+} from "../api/m365RoadmapClient.js";
+import type { M365RoadmapFeature } from "../api/types.js";
+import { hostname } from "os";
+
+vi.mock("../api/m365RoadmapClient.js", () => ({
+  fetchAllFeaturesWithETag: vi.fn(),
+  fetchFeatureStreamWithETag: vi.fn(),
+  setCachedETag: vi.fn(),
+}));
+
+function createFeature(
+  overrides: Partial<M365RoadmapFeature> = {},
+): M365RoadmapFeature {
+  return {
+    id: 1001,
+    title: "Copilot Pages",
+    description: "Collaborative pages",
+    cloudInstances: ["Worldwide (Standard Multi-Tenant)"],
+    platforms: ["Web"],
+    releaseRings: ["General Availability"],
+    products: ["Microsoft Copilot (Microsoft 365)"],
+    generalAvailabilityDate: "2026-03",
+    previewAvailabilityDate: null,
+    status: "In development",
+    created: "2026-01-01T00:00:00.000Z",
+    modified: "2026-01-01T00:00:00.000Z",
+    availabilities: [
+      { ring: "General Availability", year: 2026, month: "March" },
+    ],
+    ...overrides,
+  };
+}
+
+async function* toStream(
+  features: M365RoadmapFeature[],
+): AsyncGenerator<M365RoadmapFeature> {
+  yield* features;
+}
+
+function mockFeed(features: M365RoadmapFeature[]): void {
+  vi.mocked(fetchFeatureStreamWithETag).mockResolvedValueOnce({
+    modified: true,
+    features: toStream(features),
+    etag: null,
+  });
+}
+
+function mockFullFeed(features: M365RoadmapFeature[]): void {
+  vi.mocked(fetchAllFeaturesWithETag).mockResolvedValueOnce({
+    modified: true,
+    features,
+    etag: null,
+  });
+}
+
+describe("performSync", () => {
+  let db: Database.Database;
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+    db = new Database(":memory:");
+    runMigrations(db);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    db.close();
+  });
+
+  it("新規フィーチャーを added として履歴に記録すること", async () => {
+    mockFeed([createFeature()]);
+
+    const result = await performSync(db);
+
+    expect(result.success).toBe(true);
+    const history = getFeatureHistory(db, 1001);
+    expect(history).toHaveLength(1);
+    expect(history[0].changeType).toBe("added");
+    expect(history[0].field).toBeNull();
+  });
+
+  it("変更されたフィールドだけを旧値・新値付きで記録すること", async () => {
+    mockFeed([createFeature()]);
+    await performSync(db);
+
+    mockFeed([
+      createFeature({
+        generalAvailabilityDate: "2026-06",
+        products: ["Microsoft Copilot (Microsoft 365)", "Microsoft Teams"],
+        modified: "2026-02-01T00:00:00.000Z",
+      }),
+    ]);
+    await performSync(db);
+
+    const changes = getFeatureHistory(db, 1001).filter(
+      (entry) => entry.changeType === "changed",
+    );
+    expect(changes.map((c) => c.field).sort()).toEqual([
+      "generalAvailabilityDate",
+      "products",
+    ]);
+    const gaChange = changes.find((c) => c.field === "generalAvailabilityDate");
+    expect(gaChange?.oldValue).toBe("2026-03");
+    expect(gaChange?.newValue).toBe("2026-06");
+  });
+
+  it("フィードから消えたフィーチャーを削除済みにし、再掲載で復元すること", async () => {
+    const features = [
+      createFeature({ id: 1 }),
+      createFeature({ id: 2 }),
+      createFeature({ id: 3 }),
+    ];
+    mockFeed(features);
+    await performSync(db);
+
+    mockFeed(features.slice(0, 2));
+    const result = await performSync(db);
+
+    expect(result.recordsRemoved).toBe(1);
+    expect(getFeatureById(db, 3)?.removedAt).not.toBeNull();
+    expect(searchFeatures(db, {}).results.map((r) => r.id)).not.toContain(3);
+    expect(
+      searchFeatures(db, { includeRemoved: true }).results.map((r) => r.id),
+    ).toContain(3);
+
+    mockFeed(features);
+    await performSync(db);
+
+    expect(getFeatureById(db, 3)?.removedAt).toBeNull();
+    expect(getFeatureHistory(db, 3).map((h) => h.changeType)).toEqual([
+      "added",
+      "removed",
+      "restored",
+    ]);
+  });
+
+  it("フィードの大半が欠けている場合は削除扱いにしないこと", async () => {
+    const features = [1, 2, 3, 4].map((id) => createFeature({ id }));
+    mockFeed(features);
+    await performSync(db);
+
+    mockFeed(features.slice(0, 1));
+    const result = await performSync(db);
+
+    expect(result.recordsRemoved).toBe(0);
+    expect(getFeatureById(db, 4)?.removedAt).toBeNull();
+  });
+
+  it("同期ごとにトリガー・HTTP 結果・件数を sync_runs に記録すること", async () => {
+    mockFeed([createFeature()]);
+    await performSync(db, false, "startup");
+
+    vi.mocked(fetchFeatureStreamWithETag).mockResolvedValueOnce({
+      modified: false,
+      features: toStream([]),
+      etag: '"abc"',
+    });
+    await performSync(db);
+
+    vi.mocked(fetchFeatureStreamWithETag).mockRejectedValueOnce(
+      new Error("HTTP 503: Service Unavailable"),
+    );
+    await performSync(db, true);
+
+    const runs = getSyncRuns(db, { limit: 10 });
+    expect(
+      runs.map((r) => [r.trigger, r.outcome, r.httpStatus]).reverse(),
+    ).toEqual([
+      ["startup", "success", 200],
+      ["tool", "not_modified", 304],
+      ["forced", "error", 503],
+    ]);
+    expect(runs[2].recordsInserted).toBe(1);
+    expect(runs[0].error).toContain("Service Unavailable");
+  });
+
+  it("同時刻に開始した同期でも実行ログの ID が重複しないこと", async () => {
+    vi.spyOn(Date, "now").mockReturnValue(
+      Date.parse("2026-03-01T00:00:00.000Z"),
+    );
+    // 同じ DB を共有する別プロセスが同じミリ秒に開始した実行ログ
+    db.prepare(
+      "INSERT INTO sync_runs (id, trigger, started_at, outcome) VALUES (?, 'scheduled', ?, 'running')",
+    ).run("2026-03-01T00:00:00.000Z", "2026-03-01T00:00:00.000Z");
+    mockFeed([createFeature()]);
+
+    const result = await performSync(db);
+
+    expect(result.success).toBe(true);
+    const runs = getSyncRuns(db, { limit: 10 });
+    expect(runs).toHaveLength(2);
+    expect(new Set(runs.map((r) => r.id)).size).toBe(2);
+  });
+
+  it("実行ログを記録できない場合は例外ではなく失敗結果を返すこと", async () => {
+    db.exec("DROP TABLE sync_runs");
+    mockFeed([createFeature()]);
+
+    const result = await performSync(db);
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain("sync_runs");
+    expect(getSyncLease(db)).toBeNull();
+  });
+
+  it("modified が同じでも内容が変わったフィーチャーを更新すること", async () => {
+    mockFeed([createFeature()]);
+    await performSync(db);
+
+    mockFeed([createFeature({ status: "Rolling out" })]);
+    const result = await performSync(db);
+
+    expect(result.recordsUpdated).toBe(1);
+    expect(getFeatureById(db, 1001)?.status).toBe("Rolling out");
+  });
+
+  it("内容が変わらなければ書き込まないこと", async () => {
+    mockFeed([createFeature()]);
+    await performSync(db);
+
+    mockFeed([createFeature({ platforms: ["Web"] })]);
+    const result = await performSync(db);
+
+    expect(result.recordsProcessed).toBe(0);
+    expect(getFeatureHistory(db, 1001)).toHaveLength(1);
+  });
+
+  it("コンテンツハッシュが変わったフィーチャーだけを更新件数に数えること", async () => {
+    mockFeed([1, 2, 3].map((id) => createFeature({ id })));
+    await performSync(db);
+    // 保存済みハッシュが古いだけのものは書き直すが、更新には数えない
+    db.prepare(
+      "UPDATE m365_features SET content_hash = NULL WHERE id = 2",
+    ).run();
+
+    mockFeed([
+      createFeature({ id: 1, status: "Rolling out" }),
+      createFeature({ id: 2 }),
+      createFeature({ id: 3 }),
+    ]);
+    const result = await performSync(db);
+
+    expect(result.recordsProcessed).toBe(2);
+    expect(result.recordsUpdated).toBe(1);
+    expect(getSyncRuns(db, { limit: 1 })[0].recordsUpdated).toBe(1);
+  });
+
+  it("ローカルの関連データの欠けを履歴に残さず修復すること", async () => {
+    mockFeed([createFeature()]);
+    await performSync(db);
+    db.prepare("DELETE FROM feature_products WHERE feature_id = ?").run(1001);
+
+    mockFeed([createFeature()]);
+    const result = await performSync(db);
+
+    // 修復はフィード側の更新として数えない
+    expect(result.recordsProcessed).toBe(1);
+    expect(result.recordsUpdated).toBe(0);
+    expect(getFeatureById(db, 1001)?.products).toEqual([
+      "Microsoft Copilot (Microsoft 365)",
+    ]);
+    expect(getFeatureHistory(db, 1001).map((h) => h.changeType)).toEqual([
+      "added",
+    ]);
+  });
+
+  it("verifySync は差分を報告するだけで書き込まないこと", async () => {
+    mockFeed([createFeature({ id: 1 }), createFeature({ id: 2 })]);
+    await performSync(db);
+    db.prepare("DELETE FROM feature_platforms WHERE feature_id = ?").run(2);
+
+    mockFullFeed([
+      createFeature({ id: 1, status: "Launched" }),
+      createFeature({ id: 2 }),
+      createFeature({ id: 3 }),
+    ]);
+    const report = await verifySync(db);
+
+    expect(report.missingLocally).toEqual([3]);
+    expect(report.changedUpstream).toEqual([
+      { id: 1, title: "Copilot Pages", fields: ["status"] },
+    ]);
+    expect(report.localDrift.map((d) => d.id)).toEqual([2]);
+    expect(getFeatureById(db, 1)?.status).toBe("In development");
+    expect(getFeatureById(db, 3)).toBeNull();
+    expect(getSyncRuns(db, { limit: 10 })).toHaveLength(1);
+  });
+
+  it("他プロセスが有効なリースを保持している間は同期をスキップすること", async () => {
+    upsertSyncLease(db, {
+      ownerId: "other",
+      ownerPid: process.pid,
+      ownerHost: hostname(),
+      acquiredAt: new Date().toISOString(),
+      expiresAt: new Date(Date.now() + 60_000).toISOString(),
+    });
+
+    const result = await performSync(db);
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBe("Sync already in progress");
+    expect(fetchFeatureStreamWithETag).not.toHaveBeenCalled();
+    expect(getSyncRuns(db, { limit: 10 }).map((r) => r.outcome)).toEqual([
+      "skipped",
+    ]);
+  });
+
+  it("強制終了したプロセスの期限切れリースを引き継ぎ、完了後に解放すること", async () => {
+    db.prepare(
+      "INSERT INTO sync_runs (id, trigger, started_at, outcome) VALUES ('crashed', 'scheduled', ?, 'running')",
+    ).run("2026-01-01T00:00:00.000Z");
+    upsertSyncLease(db, {
+      ownerId: "crashed",
+      ownerPid: process.pid,
+      ownerHost: hostname(),
+      acquiredAt: "2026-01-01T00:00:00.000Z",
+      expiresAt: "2026-01-01T00:10:00.000Z",
+    });
+    mockFeed([createFeature()]);
+
+    const result = await performSync(db);
+
+    expect(result.success).toBe(true);
+    expect(getSyncLease(db)).toBeNull();
+    // 引き継いだ保持者の実行ログは中断として閉じる
+    const runs = getSyncRuns(db, { limit: 10 });
+    expect(runs.map((r) => [r.id === "crashed", r.outcome])).toEqual([
+      [false, "success"],
+      [true, "abandoned"],
+    ]);
+    expect(runs[1].endedAt).not.toBeNull();
+  });
+
+  it("ストリームをバッチ単位で書き込み、進捗を通知すること", async () => {
+    const total = SYNC_BATCH_SIZE * 2 + 10;
+    mockFeed(
+      Array.from({ length: total }, (_, i) => createFeature({ id: i + 1 })),
+    );
+    const onProgress = vi.fn();
+
+    const result = await performSync(db, false, "tool", { onProgress });
+
+    expect(result.recordsInserted).toBe(total);
+    expect(onProgress.mock.calls.map((c) => c[0])).toEqual([
+      SYNC_BATCH_SIZE,
+      SYNC_BATCH_SIZE * 2,
+      total,
+    ]);
+  });
+
+  it("ストリームが途中で失敗した場合は何も書き込まずエラーを記録すること", async () => {
+    mockFeed([1, 2, 3].map((id) => createFeature({ id })));
+    await performSync(db);
+
+    async function* brokenStream(): AsyncGenerator<M365RoadmapFeature> {
+      // 失敗前のバッチの変更・追加も書き込まない
+      for (let id = 1; id <= SYNC_BATCH_SIZE + 1; id++) {
+        yield createFeature({ id, status: "Launched" });
+      }
+      throw new Error("Unexpected end of JSON stream");
+    }
+    vi.mocked(fetchFeatureStreamWithETag).mockResolvedValueOnce({
+      modified: true,
+      features: brokenStream(),
+      etag: '"new"',
+    });
+    const result = await performSync(db);
+
+    expect(result.success).toBe(false);
+    expect(getFeatureById(db, 3)?.removedAt).toBeNull();
+    expect(getFeatureById(db, 1)?.status).toBe("In development");
+    expect(getFeatureById(db, 4)).toBeNull();
+    expect(getFeatureHistory(db, 1)).toHaveLength(1);
+    expect(getSyncRuns(db, { limit: 1 })[0].outcome).toBe("error");
+  });
+});
+
+describe("isSyncNeeded", () => {
+  let db: Database.Database;
+
+  beforeEach(() => {
+    db = new Database(":memory:");
+    runMigrations(db);
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2026-03-01T12:00:00.000Z"));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    db.close();
+  });
+
+  function recordRun(
+    id: string,
+    outcome: "success" | "not_modified" | "error",
+  ) {
+    startSyncRun(db, id, "scheduled", new Date().toISOString());
+    finishSyncRun(db, id, { outcome });
+  }
+
+  it("完了した同期がなければ同期が必要と判定すること", () => {
+    expect(isSyncNeeded(db, 1)).toBe(true);
+  });
+
+  it("フィーチャーの modified が古くても、最後に完了した同期の終了時刻から判定すること", () => {
+    vi.setSystemTime(new Date("2026-03-01T11:30:00.000Z"));
+    // 304 でも完了した同期として扱う
+    recordRun("a", "not_modified");
+    vi.setSystemTime(new Date("2026-03-01T11:50:00.000Z"));
+    recordRun("b", "error");
+    vi.setSystemTime(new Date("2026-03-01T12:00:00.000Z"));
+
+    expect(isSyncNeeded(db, 1)).toBe(false);
+    expect(isSyncNeeded(db, 0.25)).toBe(true);
+  });
+});
@@ -9,11 +9,11 @@ import type Database from "better-sqlite3";
 import type { M365RoadmapFeature } from "../api/types.js";
 import {
   fetchAllFeaturesWithETag,
+  fetchFeatureStreamWithETag,
   setCachedETag,
 } from "../api/m365RoadmapClient.js";
 import {
   getSyncCheckpoint,
-  startSync,
   completeSyncSuccess,
   completeSyncFailure,
   upsertFeature,
@@ -23,20 +23,58 @@ import {
   replaceFeatureReleaseRings,
   replaceFeatureAvailabilities,
   getFeatureCount,
-  getLastModified,
   getStoredETag,
   saveETag,
+  getStoredFeatures,
+  insertFeatureHistory,
+  getActiveFeatureIds,
+  getRemovedFeatureIds,
+  markFeatureRemoved,
+  clearFeatureRemoved,
+  startSyncRun,
+  finishSyncRun,
+  getLatestCompletedSyncRun,
+  type SyncTrigger,
 } from "../database/queries.js";
+import { detectFeatureChanges } from "./history.service.js";
+import {
+  acquireSyncLease,
+  renewSyncLease,
+  releaseSyncLease,
+  createSyncLeaseOwner,
+  getActiveSyncLease,
+} from "./syncLease.service.js";
+import { computeFeatureContentHash } from "../utils/contentHash.js";
 import * as logger from "../utils/logger.js";
 
+/**
+ * 1 回の同期で削除扱いにできるアクティブ件数の上限割合
+ * （フィードが途中で欠けた場合に大量のフィーチャーを誤って削除しないため）
+ */
+const MAX_REMOVAL_RATIO = 0.5;
+
+/** ストリームからまとめてローカル DB と比較する件数 */
+export const SYNC_BATCH_SIZE = 500;
+
+/**
+ * 同期オプション
+ */
+export interface SyncOptions {
+  /** 進捗通知（フィードから処理したフィーチャー数） */
+  onProgress?: (processed: number) => void;
+}
+
 /**
  * 同期結果
  */
 export interface SyncResult {
   success: boolean;
+  /** 書き込んだ件数（ローカルの修復・ハッシュの更新を含む） */
   recordsProcessed: number;
   recordsInserted: number;
+  /** フィード側で内容（コンテンツハッシュ）が変わった件数 */
   recordsUpdated: number;
+  recordsRemoved: number;
   durationMs: number;
   error?: string;
 }
@@ -50,33 +88,112 @@ function createSyncFailureResult(startTime: number, error: string): SyncResult {
     recordsProcessed: 0,
     recordsInserted: 0,
     recordsUpdated: 0,
+    recordsRemoved: 0,
     durationMs: Date.now() - startTime,
     error,
   };
 }
 
+/** 直前に発行した同期実行 ID の時刻（同一ミリ秒での重複防止） */
+let lastSyncRunTime = 0;
+
+/**
+ * 変更履歴の同期ラベルを発行（開始時刻の ISO 8601 文字列、プロセス内で一意）
+ *
+ * 変更履歴は同期リースを持つ 1 プロセスだけが書き込むため、プロセス内で一意であればよい
+ */
+function createSyncRunId(startTime: number): string {
+  lastSyncRunTime = Math.max(startTime, lastSyncRunTime + 1);
+  return new Date(lastSyncRunTime).toISOString();
+}
+
+/**
+ * エラーメッセージから HTTP ステータスを抽出（fetchWithRetry の "HTTP 503: ..." 形式）
+ */
+function extractHttpStatus(message: string): number | null {
+  const match = /^HTTP (\d{3})\b/.exec(message);
+  return match ? Number(match[1]) : null;
+}
+
+/**
+ * 他の同期が実行中のためスキップした呼び出しを実行ログに記録
+ */
+function recordSkippedSyncRun(
+  db: Database.Database,
+  runId: string,
+  trigger: SyncTrigger,
+  startedAt: string,
+): void {
+  db.transaction(() => {
+    startSyncRun(db, runId, trigger, startedAt);
+    finishSyncRun(db, runId, {
+      outcome: "skipped",
+      error: "Sync already in progress",
+    });
+  })();
+}
+
 /**
  * M365 Roadmap データを同期（ETag 対応で高速化）
  *
+ * 呼び出しごとに sync_runs へ実行ログを記録する。
+ * フィードはストリームで読み込んで SYNC_BATCH_SIZE 件ごとにローカル DB と比較し、
+ * 変更分は最後まで読み終えてから削除扱い・実行ログと合わせて 1 トランザクションで書き込む
+ * （ストリームが途中で失敗した場合は何も書き込まない）。
+ *
  * @param db データベースインスタンス
  * @param force 強制同期（ETag キャッシュを無視）
+ * @param trigger 同期のきっかけ（実行ログ用）
+ * @param options 進捗通知など
  * @returns 同期結果
  */
 export async function performSync(
   db: Database.Database,
   force: boolean = false,
+  trigger: SyncTrigger = force ? "forced" : "tool",
+  options: SyncOptions = {},
 ): Promise<SyncResult> {
   const startTime = Date.now();
-
-  logger.info("Starting M365 Roadmap sync", { force });
-
-  // 同期ロック取得
-  const lockAcquired = startSync(db);
-  if (!lockAcquired) {
+  // 変更履歴の sync_run に記録する開始時刻
+  const syncRun = createSyncRunId(startTime);
+  // 同期リース取得（他プロセス・他の同期と排他）。保持者の ID を実行ログの ID にも使う
+  const leaseOwner = createSyncLeaseOwner();
+  const runId = leaseOwner.id;
+
+  logger.info("Starting M365 Roadmap sync", {
+    force,
+    trigger,
+    syncRun,
+    runId,
+  });
+  let acquired: boolean;
+  try {
+    acquired = acquireSyncLease(db, leaseOwner);
+  } catch (error) {
+    const err = error as Error;
+    logger.errorWithStack("Failed to acquire sync lease", err);
+    return createSyncFailureResult(startTime, err.message);
+  }
+  if (!acquired) {
     logger.warn("Sync already in progress, skipping");
+    try {
+      recordSkippedSyncRun(db, runId, trigger, syncRun);
+    } catch (error) {
+      logger.errorWithStack("Failed to record sync run", error as Error);
+    }
     return createSyncFailureResult(startTime, "Sync already in progress");
   }
 
+  // リースを取得してから実行ログを開始（取得できなかった同期が実行中のまま残らないように）
+  try {
+    startSyncRun(db, runId, trigger, syncRun);
+  } catch (error) {
+    const err = error as Error;
+    logger.errorWithStack("Failed to record sync run", err);
+    releaseSyncLease(db, leaseOwner);
+    return createSyncFailureResult(startTime, err.message);
+  }
+
   try {
     const checkpoint = getSyncCheckpoint(db);
     const recordCountBefore = getFeatureCount(db);
@@ -93,8 +210,16 @@ export async function performSync(
       storedETag: storedETag ? "exists" : "none",
     });
 
-    // API からフィーチャー取得（ETag 対応）
-    const fetchResult = await fetchAllFeaturesWithETag(!force);
+    // 取得・書き込みに時間がかかった場合に備えてリースを延長
+    const renewLease = (): void => {
+      if (!renewSyncLease(db, leaseOwner)) {
+        throw new Error("Sync lease was taken over by another process");
+      }
+    };
+
+    // API からフィーチャー取得（ETag 対応、ストリーム）
+    const fetchResult = await fetchFeatureStreamWithETag(!force);
+    renewLease();
 
     // 304 Not Modified - データ変更なし
     if (!fetchResult.modified) {
@@ -105,6 +230,11 @@ export async function performSync(
         recordCountBefore,
         durationMs,
       );
+      finishSyncRun(db, runId, {
+        outcome: "not_modified",
+        httpStatus: 304,
+        etag: fetchResult.etag,
+      });
       logger.info("Sync completed - no changes (304 Not Modified)", {
         durationMs,
       });
@@ -114,13 +244,61 @@ export async function performSync(
         recordsProcessed: 0,
         recordsInserted: 0,
         recordsUpdated: 0,
+        recordsRemoved: 0,
         durationMs,
       };
     }
 
-    const features = fetchResult.features;
+    // 差分同期: バッチごとにコンテンツハッシュで比較し、実際に変わったものだけを書き込み待ちにする
+    const feedIds = new Set<number>();
+    let latestModified = checkpoint?.lastSync || "1970-01-01T00:00:00.000Z";
+    const counts = { added: 0, changed: 0, repaired: 0, rehashed: 0 };
+    const staged: SyncItem[] = [];
+    let batch: M365RoadmapFeature[] = [];
+
+    const flushBatch = (): void => {
+      if (batch.length === 0) {
+        return;
+      }
+
+      const plan = classifyFeedFeatures(
+        getStoredFeatures(
+          db,
+          batch.map((f) => f.id),
+        ),
+        batch,
+      );
+      staged.push(
+        ...plan.added,
+        ...plan.changed,
+        ...plan.repaired,
+        ...plan.rehashed,
+      );
+
+      counts.added += plan.added.length;
+      counts.changed += plan.changed.length;
+      counts.repaired += plan.repaired.length;
+      counts.rehashed += plan.rehashed.length;
+      batch = [];
+
+      renewLease();
+      logger.debug("Sync progress", { processed: feedIds.size });
+      options.onProgress?.(feedIds.size);
+    };
+
+    for await (const feature of fetchResult.features) {
+      feedIds.add(feature.id);
+      if (feature.modified > latestModified) {
+        latestModified = feature.modified;
+      }
+      batch.push(feature);
+      if (batch.length >= SYNC_BATCH_SIZE) {
+        flushBatch();
+      }
+    }
+    flushBatch();
 
-    if (features.length === 0) {
+    if (feedIds.size === 0) {
       const durationMs = Date.now() - startTime;
       completeSyncSuccess(
         db,
@@ -128,6 +306,11 @@ export async function performSync(
         recordCountBefore,
         durationMs,
       );
+      finishSyncRun(db, runId, {
+        outcome: "success",
+        httpStatus: 200,
+        etag: fetchResult.etag,
+      });
       logger.info("Sync completed - no features found", { durationMs });
 
       return {
@@ -135,59 +318,75 @@ export async function performSync(
         recordsProcessed: 0,
         recordsInserted: 0,
         recordsUpdated: 0,
+        recordsRemoved: 0,
         durationMs,
       };
     }
 
-    // 差分同期: modified 日時で変更分のみ更新
-    const lastModified = getLastModified(db);
-    const featuresToSync = lastModified
-      ? features.filter((f) => f.modified > lastModified)
-      : features;
-
     logger.info("Differential sync", {
-      totalFeatures: features.length,
-      changedFeatures: featuresToSync.length,
-      lastModified,
+      totalFeatures: feedIds.size,
+      ...counts,
     });
 
-    // トランザクションで同期
-    const result =
-      featuresToSync.length > 0
-        ? syncFeaturesInTransaction(db, featuresToSync)
-        : { recordsProcessed: 0 };
-
-    const recordCountAfter = getFeatureCount(db);
-
-    // ETag を保存
-    if (fetchResult.etag) {
-      saveETag(db, fetchResult.etag);
-    }
-
-    // 最新の modified を取得
-    const latestModified = features.reduce((latest, f) => {
-      return f.modified > latest ? f.modified : latest;
-    }, checkpoint?.lastSync || "1970-01-01T00:00:00.000Z");
+    // フィード全体を読み終えてから、変更・削除扱い・ETag・実行ログをまとめて書き込む
+    const recordsInserted = counts.added;
+    const recordsUpdated = counts.changed;
+    const commit = db.transaction(() => {
+      // 書き込み中にリースを引き継がれていないことを確認（引き継がれていればロールバック）
+      renewLease();
+      const recordsProcessed =
+        staged.length > 0
+          ? syncFeaturesInTransaction(db, staged, syncRun).recordsProcessed
+          : 0;
+
+      // フィードから消えたフィーチャーを削除済みとしてマーク
+      const tombstones = applyTombstones(db, feedIds, syncRun);
+
+      const recordCountAfter = getFeatureCount(db);
+
+      // ETag を保存
+      if (fetchResult.etag) {
+        saveETag(db, fetchResult.etag);
+      }
 
-    const durationMs = Date.now() - startTime;
-    completeSyncSuccess(db, latestModified, recordCountAfter, durationMs);
+      const durationMs = Date.now() - startTime;
+      completeSyncSuccess(db, latestModified, recordCountAfter, durationMs);
+
+      finishSyncRun(db, runId, {
+        outcome: "success",
+        httpStatus: 200,
+        recordsInserted,
+        recordsUpdated,
+        recordsRemoved: tombstones.removed,
+        etag: fetchResult.etag,
+      });
 
-    const recordsInserted = Math.max(0, recordCountAfter - recordCountBefore);
-    const recordsUpdated = result.recordsProcessed - recordsInserted;
+      return {
+        recordsProcessed,
+        tombstones,
+        recordCountAfter,
+        durationMs,
+      };
+    });
+    const { recordsProcessed, tombstones, recordCountAfter, durationMs } =
+      commit.immediate();
 
     logger.info("Sync completed successfully", {
-      recordsProcessed: result.recordsProcessed,
+      recordsProcessed,
       recordsInserted,
       recordsUpdated,
+      recordsRemoved: tombstones.removed,
+      recordsRestored: tombstones.restored,
       totalRecords: recordCountAfter,
       durationMs,
     });
 
     return {
       success: true,
-      recordsProcessed: result.recordsProcessed,
+      recordsProcessed,
       recordsInserted,
       recordsUpdated,
+      recordsRemoved: tombstones.removed,
       durationMs,
     };
   } catch (error) {
@@ -195,94 +394,311 @@ export async function performSync(
     const durationMs = Date.now() - startTime;
 
     completeSyncFailure(db, err.message);
+    finishSyncRun(db, runId, {
+      outcome: "error",
+      httpStatus: extractHttpStatus(err.message),
+      error: err.message,
+    });
     logger.errorWithStack("Sync failed", err, { durationMs });
 
     return createSyncFailureResult(startTime, err.message);
+  } finally {
+    releaseSyncLease(db, leaseOwner);
+  }
+}
+
+/**
+ * 同期対象のフィーチャー
+ */
+interface SyncItem {
+  feature: M365RoadmapFeature;
+  /** フィードから計算したコンテンツハッシュ */
+  contentHash: string;
+  /** 変更前の DB の状態（新規の場合は null） */
+  previous: M365RoadmapFeature | null;
+  /** 変更履歴に記録するか（ローカルの修復のみの場合は記録しない） */
+  recordHistory: boolean;
+}
+
+/**
+ * フィードとローカル DB の比較結果
+ */
+export interface FeedClassification {
+  /** ローカルに存在しない */
+  added: SyncItem[];
+  /** フィード側で内容が変わった */
+  changed: SyncItem[];
+  /** 保存済みハッシュはフィードと一致するが、実データが異なる（部分書き込みなど） */
+  repaired: SyncItem[];
+  /** 実データは一致するが、保存済みハッシュが古い・未設定 */
+  rehashed: SyncItem[];
+  /** 変更なし */
+  unchangedCount: number;
+}
+
+/**
+ * フィードの各フィーチャーをローカル DB と比較して分類
+ *
+ * ローカル側は保存済みの content_hash だけでなく実データからもハッシュを計算し、
+ * 書き込みの欠けや不整合を検出する
+ */
+export function classifyFeedFeatures(
+  localFeatures: Map<
+    number,
+    M365RoadmapFeature & { contentHash: string | null }
+  >,
+  features: M365RoadmapFeature[],
+): FeedClassification {
+  const classification: FeedClassification = {
+    added: [],
+    changed: [],
+    repaired: [],
+    rehashed: [],
+    unchangedCount: 0,
+  };
+
+  for (const feature of features) {
+    const contentHash = computeFeatureContentHash(feature);
+    const local = localFeatures.get(feature.id);
+
+    if (!local) {
+      classification.added.push({
+        feature,
+        contentHash,
+        previous: null,
+        recordHistory: true,
+      });
+      continue;
+    }
+
+    const localHash = computeFeatureContentHash(local);
+    const item = { feature, contentHash, previous: local };
+
+    if (localHash !== contentHash) {
+      if (local.contentHash === contentHash) {
+        classification.repaired.push({ ...item, recordHistory: false });
+      } else {
+        classification.changed.push({ ...item, recordHistory: true });
+      }
+    } else if (local.contentHash !== contentHash) {
+      classification.rehashed.push({ ...item, recordHistory: false });
+    } else {
+      classification.unchangedCount++;
+    }
   }
+
+  return classification;
 }
 
 /**
  * トランザクション内でフィーチャーを同期
+ *
+ * 既存レコードとの差分をフィールド単位で feature_history に記録する
  */
 function syncFeaturesInTransaction(
   db: Database.Database,
-  features: M365RoadmapFeature[],
+  items: SyncItem[],
+  syncRun: string,
 ): { recordsProcessed: number } {
-  const syncTransaction = db.transaction(
-    (featuresToSync: M365RoadmapFeature[]) => {
-      let processed = 0;
-
-      for (const feature of featuresToSync) {
-        try {
-          // メインレコード UPSERT
-          upsertFeature(db, feature);
-
-          // 関連データ置換
-          replaceFeatureProducts(db, feature.id, feature.products || []);
-          replaceFeaturePlatforms(db, feature.id, feature.platforms || []);
-          replaceFeatureCloudInstances(
-            db,
-            feature.id,
-            feature.cloudInstances || [],
-          );
-          replaceFeatureReleaseRings(
-            db,
-            feature.id,
-            feature.releaseRings || [],
-          );
-          replaceFeatureAvailabilities(
-            db,
-            feature.id,
-            feature.availabilities || [],
-          );
-
-          processed++;
-
-          // 進捗ログ（100件ごと）
-          if (processed % 100 === 0) {
-            logger.debug("Sync progress", {
-              processed,
-              total: featuresToSync.length,
-            });
+  const syncTransaction = db.transaction((itemsToSync: SyncItem[]) => {
+    let processed = 0;
+    const changedAt = new Date().toISOString();
+
+    for (const {
+      feature,
+      contentHash,
+      previous,
+      recordHistory,
+    } of itemsToSync) {
+      try {
+        // メインレコード UPSERT
+        upsertFeature(db, feature, contentHash);
+
+        // 関連データ置換
+        replaceFeatureProducts(db, feature.id, feature.products || []);
+        replaceFeaturePlatforms(db, feature.id, feature.platforms || []);
+        replaceFeatureCloudInstances(
+          db,
+          feature.id,
+          feature.cloudInstances || [],
+        );
+        replaceFeatureReleaseRings(db, feature.id, feature.releaseRings || []);
+        replaceFeatureAvailabilities(
+          db,
+          feature.id,
+          feature.availabilities || [],
+        );
+
+        // 変更履歴を記録
+        if (!previous) {
+          insertFeatureHistory(db, feature.id, syncRun, "added", [], changedAt);
+        } else if (recordHistory) {
+          const changes = detectFeatureChanges(previous, feature);
+          if (changes.length > 0) {
+            insertFeatureHistory(
+              db,
+              feature.id,
+              syncRun,
+              "changed",
+              changes,
+              changedAt,
+            );
           }
-        } catch (error) {
-          const err = error as Error;
-          logger.warn("Failed to sync feature", {
-            featureId: feature.id,
-            error: err.message,
+        }
+
+        processed++;
+
+        // 進捗ログ（100件ごと）
+        if (processed % 100 === 0) {
+          logger.debug("Sync progress", {
+            processed,
+            total: itemsToSync.length,
           });
-          throw new Error(
-            `Failed to sync feature ${feature.id}: ${err.message}`,
-          );
         }
+      } catch (error) {
+        const err = error as Error;
+        logger.warn("Failed to sync feature", {
+          featureId: feature.id,
+          error: err.message,
+        });
+        throw new Error(`Failed to sync feature ${feature.id}: ${err.message}`);
       }
+    }
 
-      return processed;
-    },
-  );
+    return processed;
+  });
 
-  const processed = syncTransaction(features);
+  const processed = syncTransaction(items);
   return { recordsProcessed: processed };
 }
 
+/**
+ * フィードに存在しないフィーチャーを削除済みにし、再掲載されたものを復元
+ *
+ * 全件フィード（304 以外）を読み終えた場合のみ呼び出すこと。
+ * 行は削除せず removed_at を設定し、変更履歴に removed / restored を記録する。
+ */
+function applyTombstones(
+  db: Database.Database,
+  feedIds: Set<number>,
+  syncRun: string,
+): { removed: number; restored: number } {
+  const activeIds = getActiveFeatureIds(db);
+  let missingIds = activeIds.filter((id) => !feedIds.has(id));
+  const restoredIds = getRemovedFeatureIds(db).filter((id) => feedIds.has(id));
+
+  if (missingIds.length > activeIds.length * MAX_REMOVAL_RATIO) {
+    logger.warn("Too many features missing from feed, skipping removal", {
+      missing: missingIds.length,
+      active: activeIds.length,
+    });
+    missingIds = [];
+  }
+
+  if (missingIds.length === 0 && restoredIds.length === 0) {
+    return { removed: 0, restored: 0 };
+  }
+
+  const tombstoneTransaction = db.transaction(() => {
+    const changedAt = new Date().toISOString();
+
+    for (const id of missingIds) {
+      markFeatureRemoved(db, id, changedAt);
+      insertFeatureHistory(db, id, syncRun, "removed", [], changedAt);
+    }
+
+    for (const id of restoredIds) {
+      clearFeatureRemoved(db, id);
+      insertFeatureHistory(db, id, syncRun, "restored", [], changedAt);
+    }
+  });
+  tombstoneTransaction();
+
+  logger.info("Applied roadmap removals", {
+    removed: missingIds.length,
+    restored: restoredIds.length,
+  });
+
+  return { removed: missingIds.length, restored: restoredIds.length };
+}
+
+/**
+ * 検証モードの結果
+ */
+export interface SyncVerifyReport {
+  feedCount: number;
+  localCount: number;
+  unchanged: number;
+  /** ローカルに存在しないフィーチャー ID */
+  missingLocally: number[];
+  /** フィード側で内容が変わったフィーチャー */
+  changedUpstream: Array<{ id: number; title: string; fields: string[] }>;
+  /** 保存済みハッシュと実データが食い違うフィーチャー（部分書き込みなど） */
+  localDrift: Array<{ id: number; title: string; fields: string[] }>;
+  /** content_hash が古い・未設定のフィーチャー ID */
+  staleHashes: number[];
+  /** 次回の同期で削除済みになるフィーチャー ID */
+  notInFeed: number[];
+}
+
+/**
+ * フィードを取得してローカル DB との差分を報告（DB には書き込まない）
+ *
+ * ETag を使わず常に全件を取得する
+ */
+export async function verifySync(
+  db: Database.Database,
+): Promise<SyncVerifyReport> {
+  const fetchResult = await fetchAllFeaturesWithETag(false);
+  const features = fetchResult.features;
+  const localFeatures = getStoredFeatures(db);
+  const plan = classifyFeedFeatures(localFeatures, features);
+
+  const describe = (item: SyncItem) => ({
+    id: item.feature.id,
+    title: item.feature.title,
+    fields: item.previous
+      ? detectFeatureChanges(item.previous, item.feature).map((c) => c.field)
+      : [],
+  });
+
+  const feedIds = new Set(features.map((f) => f.id));
+
+  return {
+    feedCount: features.length,
+    localCount: localFeatures.size,
+    unchanged: plan.unchangedCount,
+    missingLocally: plan.added.map((item) => item.feature.id),
+    changedUpstream: plan.changed.map(describe),
+    localDrift: plan.repaired.map(describe),
+    staleHashes: plan.rehashed.map((item) => item.feature.id),
+    notInFeed:
+      features.length > 0
+        ? getActiveFeatureIds(db).filter((id) => !feedIds.has(id))
+        : [],
+  };
+}
+
 /**
  * 同期が必要か判定
  *
+ * フィーチャーの modified ではなく、最後に完了した同期（sync_runs）の終了時刻で判定する
+ *
  * @param db データベースインスタンス
- * @param stalenessHours 古さの閾値（時間）
+ * @param stalenessHours 最後の同期からの経過時間の閾値（時間）
  * @returns 同期が必要なら true
  */
 export function isSyncNeeded(
   db: Database.Database,
   stalenessHours: number,
 ): boolean {
-  const checkpoint = getSyncCheckpoint(db);
+  const lastRun = getLatestCompletedSyncRun(db);
 
-  if (!checkpoint || checkpoint.lastSync === "1970-01-01T00:00:00.000Z") {
+  if (!lastRun?.endedAt) {
     return true;
   }
 
-  const lastSyncTime = new Date(checkpoint.lastSync).getTime();
+  const lastSyncTime = new Date(lastRun.endedAt).getTime();
   const now = Date.now();
   const hoursSinceSync = (now - lastSyncTime) / (1000 * 60 * 60);
 
@@ -310,7 +726,7 @@ export function getSyncStatus(db: Database.Database): {
 
   return {
     lastSync: checkpoint.lastSync,
-    syncStatus: checkpoint.syncStatus,
+    syncStatus: getActiveSyncLease(db) ? "syncing" : "idle",
     recordCount: checkpoint.recordCount,
     hoursSinceSync: Math.round(hoursSinceSync * 10) / 10,
   };
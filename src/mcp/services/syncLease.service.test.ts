@@ -0,0 +1,122 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import Database from "better-sqlite3";
+
+import {
+  acquireSyncLease,
+  renewSyncLease,
+  releaseSyncLease,
+  getActiveSyncLease,
+  createSyncLeaseOwner,
+  type SyncLeaseOwner,
+} from "./syncLease.service.js";
+import { runMigrations } from "../database/migrations.js";
+import {
+  getSyncLease,
+  getSyncRuns,
+  startSyncRun,
+} from "../database/queries.js";
+
+const NOW = Date.parse("2026-03-01T00:00:00.000Z");
+const TTL_MS = 60_000;
+
+const ownerA: SyncLeaseOwner = { id: "run-a", pid: 1111, host: "host-1" };
+const ownerB: SyncLeaseOwner = { id: "run-b", pid: 2222, host: "host-1" };
+
+const alive = () => true;
+const dead = () => false;
+
+describe("syncLease.service", () => {
+  let db: Database.Database;
+
+  beforeEach(() => {
+    db = new Database(":memory:");
+    runMigrations(db);
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it("有効なリースがある間は他の保持者が取得できないこと", () => {
+    const options = { now: NOW, ttlMs: TTL_MS, isProcessAlive: alive };
+
+    expect(acquireSyncLease(db, ownerA, options)).toBe(true);
+    expect(acquireSyncLease(db, ownerB, options)).toBe(false);
+    expect(getSyncLease(db)?.ownerId).toBe("run-a");
+  });
+
+  it("期限切れのリースを引き継げること", () => {
+    acquireSyncLease(db, ownerA, { now: NOW, ttlMs: TTL_MS });
+
+    const acquired = acquireSyncLease(db, ownerB, {
+      now: NOW + TTL_MS + 1,
+      ttlMs: TTL_MS,
+      isProcessAlive: alive,
+    });
+
+    expect(acquired).toBe(true);
+    expect(getSyncLease(db)?.ownerPid).toBe(2222);
+  });
+
+  it("同じホストで保持プロセスが終了していれば期限内でも引き継げること", () => {
+    acquireSyncLease(db, ownerA, { now: NOW, ttlMs: TTL_MS });
+
+    expect(
+      acquireSyncLease(db, ownerB, {
+        now: NOW + 1000,
+        ttlMs: TTL_MS,
+        isProcessAlive: dead,
+      }),
+    ).toBe(true);
+  });
+
+  it("別ホストのリースは PID で判定せず期限まで待つこと", () => {
+    acquireSyncLease(db, { ...ownerA, host: "host-2" }, { now: NOW });
+
+    expect(
+      acquireSyncLease(db, ownerB, {
+        now: NOW + 1000,
+        ttlMs: TTL_MS,
+        isProcessAlive: dead,
+      }),
+    ).toBe(false);
+  });
+
+  it("引き継ぐときに前の保持者の実行中の実行ログだけを中断扱いにすること", () => {
+    acquireSyncLease(db, ownerA, { now: NOW, ttlMs: TTL_MS });
+    startSyncRun(db, ownerA.id, "scheduled", new Date(NOW).toISOString());
+    startSyncRun(db, "other", "tool", new Date(NOW).toISOString());
+
+    acquireSyncLease(db, ownerB, { now: NOW + TTL_MS + 1, ttlMs: TTL_MS });
+
+    const outcomes = Object.fromEntries(
+      getSyncRuns(db, { limit: 10 }).map((r) => [r.id, r.outcome]),
+    );
+    expect(outcomes).toEqual({ "run-a": "abandoned", other: "running" });
+  });
+
+  it("引き継がれたリースは延長・解放できないこと", () => {
+    acquireSyncLease(db, ownerA, { now: NOW, ttlMs: TTL_MS });
+    acquireSyncLease(db, ownerB, { now: NOW + TTL_MS + 1, ttlMs: TTL_MS });
+
+    expect(renewSyncLease(db, ownerA)).toBe(false);
+    releaseSyncLease(db, ownerA);
+    expect(getSyncLease(db)?.ownerId).toBe("run-b");
+
+    releaseSyncLease(db, ownerB);
+    expect(getActiveSyncLease(db)).toBeNull();
+  });
+
+  it("同じプロセスで同時刻に作成した保持者も別の ID を持つこと", () => {
+    const first = createSyncLeaseOwner();
+    const second = createSyncLeaseOwner();
+
+    expect(first.id).not.toBe(second.id);
+    expect(first.pid).toBe(second.pid);
+
+    acquireSyncLease(db, first, { now: NOW, ttlMs: TTL_MS });
+    expect(renewSyncLease(db, second)).toBe(false);
+    releaseSyncLease(db, second);
+    expect(getSyncLease(db)?.ownerId).toBe(first.id);
+  });
+});
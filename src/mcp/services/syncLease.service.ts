@@ -0,0 +1,163 @@
+/**
+ * 同期リースサービス
+ *
+ * 同じ DB を共有する複数の MCP Server プロセス（VS Code ウィンドウごとに 1 つ）の間で
+ * 同期を排他制御する。リースには保持プロセスの PID・ホスト名と有効期限を記録し、
+ * 期限切れ、または同じホストで保持プロセスが終了している場合は別プロセスが引き継げる。
+ * 保持者の ID は同期実行ログ（sync_runs）の ID を兼ね、引き継ぐときは前の保持者の
+ * 実行中のままの実行ログを中断（abandoned）として閉じる。
+ */
+
+import type Database from "better-sqlite3";
+import { randomUUID } from "crypto";
+import { hostname } from "os";
+import {
+  getSyncLease,
+  upsertSyncLease,
+  extendSyncLease,
+  deleteSyncLease,
+  abandonSyncRun,
+  type SyncLease,
+} from "../database/queries.js";
+import * as logger from "../utils/logger.js";
+
+/** リースの有効期間（同期中に延長する） */
+export const SYNC_LEASE_TTL_MS = 10 * 60 * 1000;
+
+/**
+ * リースの保持者
+ */
+export interface SyncLeaseOwner {
+  /** 同期ごとに一意な ID（他のプロセスや同一プロセス内の同時実行も区別する。実行ログの ID を兼ねる） */
+  id: string;
+  pid: number;
+  host: string;
+}
+
+/**
+ * リース取得オプション（テスト用に差し替え可能）
+ */
+export interface SyncLeaseOptions {
+  ttlMs?: number;
+  now?: number;
+  isProcessAlive?: (pid: number) => boolean;
+}
+
+/**
+ * 現在のプロセスをリース保持者として作成（ID はランダムに発行）
+ */
+export function createSyncLeaseOwner(): SyncLeaseOwner {
+  return { id: randomUUID(), pid: process.pid, host: hostname() };
+}
+
+/**
+ * プロセスが生存しているか確認
+ */
+export function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    // EPERM は存在するが権限がないプロセス
+    return (error as NodeJS.ErrnoException).code === "EPERM";
+  }
+}
+
+/**
+ * リースが有効期限内か判定
+ */
+function isLeaseActive(lease: SyncLease, now: number): boolean {
+  return Date.parse(lease.expiresAt) > now;
+}
+
+/**
+ * 同期リースを取得
+ *
+ * 読み取りから書き込みまでを IMMEDIATE トランザクションで行い、
+ * 複数プロセスが同時に取得しないようにする
+ *
+ * @returns 取得できた場合 true
+ */
+export function acquireSyncLease(
+  db: Database.Database,
+  owner: SyncLeaseOwner,
+  options: SyncLeaseOptions = {},
+): boolean {
+  const now = options.now ?? Date.now();
+  const ttlMs = options.ttlMs ?? SYNC_LEASE_TTL_MS;
+  const checkAlive = options.isProcessAlive ?? isProcessAlive;
+
+  const acquire = db.transaction(() => {
+    const lease = getSyncLease(db);
+
+    if (lease && isLeaseActive(lease, now)) {
+      // PID は同じホスト上でのみ意味を持つ
+      const ownerDead =
+        lease.ownerHost === owner.host && !checkAlive(lease.ownerPid);
+      if (!ownerDead) {
+        return false;
+      }
+      logger.warn("Taking over sync lease from terminated process", {
+        ownerPid: lease.ownerPid,
+        ownerHost: lease.ownerHost,
+      });
+    } else if (lease) {
+      logger.warn("Taking over expired sync lease", {
+        ownerPid: lease.ownerPid,
+        ownerHost: lease.ownerHost,
+        expiresAt: lease.expiresAt,
+      });
+    }
+
+    if (lease) {
+      abandonSyncRun(db, lease.ownerId, new Date(now).toISOString());
+    }
+
+    upsertSyncLease(db, {
+      ownerId: owner.id,
+      ownerPid: owner.pid,
+      ownerHost: owner.host,
+      acquiredAt: new Date(now).toISOString(),
+      expiresAt: new Date(now + ttlMs).toISOString(),
+    });
+    return true;
+  });
+
+  return acquire.immediate();
+}
+
+/**
+ * 保持中のリースを延長
+ *
+ * @returns 延長できた場合 true（期限切れで他のプロセスに引き継がれていた場合は false）
+ */
+export function renewSyncLease(
+  db: Database.Database,
+  owner: SyncLeaseOwner,
+  options: Pick<SyncLeaseOptions, "ttlMs" | "now"> = {},
+): boolean {
+  const now = options.now ?? Date.now();
+  const ttlMs = options.ttlMs ?? SYNC_LEASE_TTL_MS;
+  return extendSyncLease(db, owner.id, new Date(now + ttlMs).toISOString());
+}
+
+/**
+ * 保持中のリースを解放（他のプロセスのリースには影響しない）
+ */
+export function releaseSyncLease(
+  db: Database.Database,
+  owner: SyncLeaseOwner,
+): void {
+  deleteSyncLease(db, owner.id);
+}
+
+/**
+ * 有効な同期リースを取得（誰も同期していなければ null）
+ */
+export function getActiveSyncLease(
+  db: Database.Database,
+  now: number = Date.now(),
+): SyncLease | null {
+  const lease = getSyncLease(db);
+  return lease && isLeaseActive(lease, now) ? lease : null;
+}
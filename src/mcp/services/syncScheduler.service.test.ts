@@ -0,0 +1,155 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import Database from "better-sqlite3";
+
+import {
+  createSyncScheduler,
+  getNextDelayMs,
+  resolveSyncSchedulerConfig,
+  DEFAULT_SYNC_INTERVAL_MINUTES,
+} from "./syncScheduler.service.js";
+import { isSyncNeeded, performSync } from "./sync.service.js";
+import { runMigrations } from "../database/migrations.js";
+import { upsertSyncLease } from "../database/queries.js";
+
+vi.mock("./sync.service.js", () => ({
+  isSyncNeeded: vi.fn(),
+  performSync: vi.fn(),
+}));
+
+const failedSync = {
+  success: false,
+  recordsProcessed: 0,
+  recordsInserted: 0,
+  recordsUpdated: 0,
+  recordsRemoved: 0,
+  durationMs: 5,
+  error: "HTTP 503: Service Unavailable",
+};
+
+describe("resolveSyncSchedulerConfig", () => {
+  it("未指定時は有効・既定間隔になること", () => {
+    expect(resolveSyncSchedulerConfig([], {})).toEqual({
+      enabled: true,
+      intervalMinutes: DEFAULT_SYNC_INTERVAL_MINUTES,
+    });
+  });
+
+  it("環境変数で無効化・間隔指定できること", () => {
+    expect(
+      resolveSyncSchedulerConfig([], {
+        M365_UPDATE_DISABLE_SYNC: "true",
+        M365_UPDATE_SYNC_INTERVAL_MINUTES: "15",
+      }),
+    ).toEqual({ enabled: false, intervalMinutes: 15 });
+  });
+
+  it("CLI 引数を環境変数より優先し、不正な間隔は無視すること", () => {
+    expect(
+      resolveSyncSchedulerConfig(["--no-sync", "--sync-interval=30"], {
+        M365_UPDATE_SYNC_INTERVAL_MINUTES: "15",
+      }),
+    ).toEqual({ enabled: false, intervalMinutes: 30 });
+    expect(
+      resolveSyncSchedulerConfig(["--sync-interval", "0"], {}).intervalMinutes,
+    ).toBe(DEFAULT_SYNC_INTERVAL_MINUTES);
+  });
+});
+
+describe("getNextDelayMs", () => {
+  it("失敗回数に応じて間隔を倍にし、上限で打ち止めにすること", () => {
+    expect(getNextDelayMs(60, 0)).toBe(60 * 60 * 1000);
+    expect(getNextDelayMs(60, 2)).toBe(240 * 60 * 1000);
+    expect(getNextDelayMs(60, 20)).toBe(24 * 60 * 60 * 1000);
+  });
+});
+
+describe("createSyncScheduler", () => {
+  let db: Database.Database;
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+    db = new Database(":memory:");
+    runMigrations(db);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    db.close();
+  });
+
+  it("他プロセスがリースを保持している間は同期しないこと", async () => {
+    upsertSyncLease(db, {
+      ownerId: "other",
+      ownerPid: 1,
+      ownerHost: "other-host",
+      acquiredAt: new Date().toISOString(),
+      expiresAt: new Date(Date.now() + 60_000).toISOString(),
+    });
+    vi.mocked(isSyncNeeded).mockReturnValue(true);
+
+    await createSyncScheduler(db, {
+      enabled: true,
+      intervalMinutes: 60,
+    }).runOnce();
+
+    expect(performSync).not.toHaveBeenCalled();
+  });
+
+  it("失敗を数え、成功でリセットすること", async () => {
+    vi.mocked(isSyncNeeded).mockReturnValue(true);
+    vi.mocked(performSync)
+      .mockResolvedValueOnce(failedSync)
+      .mockRejectedValueOnce(new Error("network down"))
+      .mockResolvedValueOnce({
+        ...failedSync,
+        success: true,
+        error: undefined,
+      });
+    const scheduler = createSyncScheduler(db, {
+      enabled: true,
+      intervalMinutes: 60,
+    });
+
+    await scheduler.runOnce();
+    await scheduler.runOnce();
+    expect(scheduler.consecutiveFailures).toBe(2);
+
+    await scheduler.runOnce();
+    expect(scheduler.consecutiveFailures).toBe(0);
+    expect(vi.mocked(performSync).mock.calls.map((c) => c[2])).toEqual([
+      "startup",
+      "scheduled",
+      "scheduled",
+    ]);
+  });
+
+  it("設定した間隔で再確認し、stop で止まること", async () => {
+    vi.useFakeTimers();
+    vi.mocked(isSyncNeeded).mockReturnValue(false);
+    const scheduler = createSyncScheduler(db, {
+      enabled: true,
+      intervalMinutes: 10,
+    });
+
+    scheduler.start();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(isSyncNeeded).toHaveBeenCalledTimes(1);
+    expect(isSyncNeeded).toHaveBeenLastCalledWith(db, 10 / 60);
+
+    await vi.advanceTimersByTimeAsync(10 * 60 * 1000);
+    expect(isSyncNeeded).toHaveBeenCalledTimes(2);
+
+    scheduler.stop();
+    await vi.advanceTimersByTimeAsync(60 * 60 * 1000);
+    expect(isSyncNeeded).toHaveBeenCalledTimes(2);
+  });
+
+  it("無効化されている場合は何もしないこと", async () => {
+    vi.useFakeTimers();
+    createSyncScheduler(db, { enabled: false, intervalMinutes: 10 }).start();
+
+    await vi.advanceTimersByTimeAsync(60 * 60 * 1000);
+
+    expect(isSyncNeeded).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,217 @@
+/**
+ * バックグラウンド同期スケジューラ
+ *
+ * 起動時と一定間隔ごとにデータの古さを確認し、必要なら同期する。
+ * 失敗が続いた場合は間隔を延ばし、他プロセスが同期リースを保持している間はスキップする。
+ */
+
+import type Database from "better-sqlite3";
+import { isSyncNeeded, performSync } from "./sync.service.js";
+import { getActiveSyncLease } from "./syncLease.service.js";
+import * as logger from "../utils/logger.js";
+
+/** 既定の確認間隔（分） */
+export const DEFAULT_SYNC_INTERVAL_MINUTES = 60;
+
+/** バックオフ時の最大間隔（分） */
+const MAX_BACKOFF_MINUTES = 24 * 60;
+
+/**
+ * スケジューラ設定
+ */
+export interface SyncSchedulerConfig {
+  /** false の場合は同期しない（オフライン環境向け） */
+  enabled: boolean;
+  /** 確認間隔（分）。データがこれより古ければ同期する */
+  intervalMinutes: number;
+}
+
+/**
+ * スケジューラ
+ */
+export interface SyncScheduler {
+  /** 起動直後の確認を行い、以降を定期実行 */
+  start(): void;
+  /** 定期実行を停止 */
+  stop(): void;
+  /** 1 回分の確認・同期を実行（次回のスケジュールは行わない） */
+  runOnce(): Promise<void>;
+  /** 連続失敗回数 */
+  readonly consecutiveFailures: number;
+}
+
+function parseTruthy(value: string | undefined): boolean {
+  return (
+    value !== undefined &&
+    ["1", "true", "yes", "on"].includes(value.trim().toLowerCase())
+  );
+}
+
+function parseIntervalMinutes(value: string | undefined): number | null {
+  if (value === undefined) {
+    return null;
+  }
+  const minutes = Number(value);
+  if (!Number.isInteger(minutes) || minutes < 1) {
+    logger.warn("Ignoring invalid sync interval", { value });
+    return null;
+  }
+  return minutes;
+}
+
+/**
+ * CLI 引数と環境変数からスケジューラ設定を解決（CLI 引数を優先）
+ *
+ * - `--no-sync` / `M365_UPDATE_DISABLE_SYNC=1`: 同期を無効化
+ * - `--sync-interval <分>` / `M365_UPDATE_SYNC_INTERVAL_MINUTES=<分>`: 確認間隔
+ */
+export function resolveSyncSchedulerConfig(
+  argv: string[] = process.argv.slice(2),
+  env: NodeJS.ProcessEnv = process.env,
+): SyncSchedulerConfig {
+  let cliInterval: string | undefined;
+  let cliDisabled = false;
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === "--no-sync") {
+      cliDisabled = true;
+    } else if (arg === "--sync-interval") {
+      cliInterval = argv[++i];
+    } else if (arg.startsWith("--sync-interval=")) {
+      cliInterval = arg.slice("--sync-interval=".length);
+    }
+  }
+
+  return {
+    enabled: !cliDisabled && !parseTruthy(env.M365_UPDATE_DISABLE_SYNC),
+    intervalMinutes:
+      parseIntervalMinutes(cliInterval) ??
+      parseIntervalMinutes(env.M365_UPDATE_SYNC_INTERVAL_MINUTES) ??
+      DEFAULT_SYNC_INTERVAL_MINUTES,
+  };
+}
+
+/**
+ * 失敗回数に応じた次回までの待ち時間（ミリ秒）
+ */
+export function getNextDelayMs(
+  intervalMinutes: number,
+  consecutiveFailures: number,
+): number {
+  const minutes = Math.min(
+    intervalMinutes * 2 ** consecutiveFailures,
+    Math.max(intervalMinutes, MAX_BACKOFF_MINUTES),
+  );
+  return minutes * 60 * 1000;
+}
+
+/**
+ * バックグラウンド同期スケジューラを作成
+ */
+export function createSyncScheduler(
+  db: Database.Database,
+  config: SyncSchedulerConfig,
+): SyncScheduler {
+  let timer: NodeJS.Timeout | null = null;
+  let running = false;
+  let stopped = true;
+  let firstRun = true;
+  let consecutiveFailures = 0;
+
+  const runOnce = async (): Promise<void> => {
+    if (running) {
+      return;
+    }
+    running = true;
+    const trigger = firstRun ? "startup" : "scheduled";
+    firstRun = false;
+
+    try {
+      const lease = getActiveSyncLease(db);
+      if (lease) {
+        logger.info(
+          "Sync lease held by another sync, skipping scheduled sync",
+          {
+            ownerPid: lease.ownerPid,
+            ownerHost: lease.ownerHost,
+          },
+        );
+        return;
+      }
+
+      if (!isSyncNeeded(db, config.intervalMinutes / 60)) {
+        logger.info("Data is fresh, skipping background sync");
+        return;
+      }
+
+      logger.info("Starting background sync", { trigger });
+      const result = await performSync(db, false, trigger);
+      if (result.success) {
+        consecutiveFailures = 0;
+        logger.info("Background sync completed", {
+          recordsProcessed: result.recordsProcessed,
+          durationMs: result.durationMs,
+        });
+      } else {
+        consecutiveFailures++;
+        logger.warn("Background sync failed", {
+          error: result.error,
+          consecutiveFailures,
+        });
+      }
+    } catch (error) {
+      consecutiveFailures++;
+      logger.warn("Background sync failed", {
+        error: (error as Error).message,
+        consecutiveFailures,
+      });
+    } finally {
+      running = false;
+    }
+  };
+
+  const schedule = (delayMs: number): void => {
+    if (stopped) {
+      return;
+    }
+    timer = setTimeout(() => {
+      timer = null;
+      runOnce()
+        .catch(() => undefined)
+        .finally(() =>
+          schedule(getNextDelayMs(config.intervalMinutes, consecutiveFailures)),
+        );
+    }, delayMs);
+    // スケジューラだけでプロセスを生かし続けない
+    timer.unref();
+  };
+
+  return {
+    start() {
+      if (!config.enabled) {
+        logger.info("Background sync disabled");
+        return;
+      }
+      if (!stopped) {
+        return;
+      }
+      stopped = false;
+      logger.info("Background sync scheduler started", {
+        intervalMinutes: config.intervalMinutes,
+      });
+      schedule(0);
+    },
+    stop() {
+      stopped = true;
+      if (timer) {
+        clearTimeout(timer);
+        timer = null;
+      }
+    },
+    runOnce,
+    get consecutiveFailures() {
+      return consecutiveFailures;
+    },
+  };
+}
@@ -0,0 +1,119 @@
+/**
+ * find_related_m365_features ツール
+ *
+ * 指定したフィーチャーに似た M365 Roadmap フィーチャーを取得
+ */
+
+import type Database from "better-sqlite3";
+import { findRelatedFeatures } from "../services/related.service.js";
+import {
+  createSuccessResponse,
+  createErrorResponse,
+  type ToolResponse,
+} from "../types.js";
+import * as logger from "../utils/logger.js";
+import { generateReferenceUrls } from "../utils/referenceUrls.js";
+
+const DEFAULT_LIMIT = 10;
+const MAX_LIMIT = 50;
+
+/**
+ * ツールスキーマ
+ */
+export const findRelatedM365FeaturesSchema = {
+  name: "find_related_m365_features",
+  description:
+    'Find M365 Roadmap features similar to a given feature ("more like this"), e.g. sibling items announced together. ' +
+    "Similarity is computed locally from shared products and platforms and overlapping distinctive terms in the title and description. " +
+    "Returns related features ordered by score (0-1) with the shared products, platforms and terms, and roadmapUrl. " +
+    "Respond in the same language as the user's query (e.g., Japanese if asked in Japanese).",
+  inputSchema: {
+    type: "object",
+    properties: {
+      id: {
+        type: "integer",
+        description:
+          "ID of the M365 Roadmap feature to find related features for (required, positive integer).",
+      },
+      limit: {
+        type: "integer",
+        description: `Maximum number of related features (default: ${DEFAULT_LIMIT}).`,
+        minimum: 1,
+        maximum: MAX_LIMIT,
+      },
+    },
+    required: ["id"],
+  },
+};
+
+/**
+ * 関連フィーチャー取得ツールのハンドラ
+ */
+export function handleFindRelatedM365Features(
+  db: Database.Database,
+  args: unknown,
+): ToolResponse {
+  const params = (args ?? {}) as { id?: number; limit?: number };
+
+  if (
+    typeof params.id !== "number" ||
+    !Number.isInteger(params.id) ||
+    params.id <= 0
+  ) {
+    return createErrorResponse(
+      "Invalid required parameter: id (must be a positive integer)",
+    );
+  }
+
+  if (
+    params.limit !== undefined &&
+    (!Number.isInteger(params.limit) ||
+      params.limit < 1 ||
+      params.limit > MAX_LIMIT)
+  ) {
+    return createErrorResponse(
+      `Invalid parameter: limit (must be an integer between 1 and ${MAX_LIMIT})`,
+    );
+  }
+
+  const limit = params.limit ?? DEFAULT_LIMIT;
+
+  logger.info("find_related_m365_features called", { id: params.id, limit });
+
+  try {
+    const result = findRelatedFeatures(db, params.id, limit);
+
+    if (!result) {
+      logger.warn("Feature not found", { id: params.id });
+      return createErrorResponse(`Feature not found: ${params.id}`);
+    }
+
+    logger.info("find_related_m365_features completed", {
+      id: params.id,
+      resultCount: result.related.length,
+    });
+
+    return createSuccessResponse({
+      feature: {
+        id: result.feature.id,
+        title: result.feature.title,
+        products: result.feature.products,
+        platforms: result.feature.platforms,
+      },
+      keyTerms: result.keyTerms,
+      related: result.related.map((item) => ({
+        ...item,
+        roadmapUrl: generateReferenceUrls(item.id).roadmapUrlJa,
+      })),
+    });
+  } catch (error) {
+    const err = error as Error;
+    logger.error("find_related_m365_features failed", {
+      id: params.id,
+      error: err.message,
+    });
+    return createErrorResponse(
+      `Failed to find related features: ${err.message}`,
+    );
+  }
+}
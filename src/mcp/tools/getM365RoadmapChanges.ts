@@ -0,0 +1,187 @@
+/**
+ * get_m365_roadmap_changes ツール
+ *
+ * 指定日時以降（または直近の同期）で追加・変更・ステータス遷移したフィーチャーを取得
+ */
+
+import type Database from "better-sqlite3";
+import {
+  getFeatureChanges,
+  getLatestCompletedSyncRun,
+} from "../database/queries.js";
+import { summarizeFeatureChanges } from "../services/history.service.js";
+import {
+  createSuccessResponse,
+  createErrorResponse,
+  type ToolResponse,
+} from "../types.js";
+import * as logger from "../utils/logger.js";
+import {
+  normalizeOptionalString,
+  normalizeOptionalStringArray,
+} from "../utils/params.js";
+
+/**
+ * 変更取得パラメータ
+ */
+interface ChangesParams {
+  since?: string;
+  products?: string[];
+  platforms?: string[];
+  status?: string;
+  limit?: number;
+}
+
+const DEFAULT_LIMIT = 200;
+const MAX_LIMIT = 2000;
+
+function isValidTimestamp(value: string): boolean {
+  return (
+    /^\d{4}-\d{2}-\d{2}(T[\d:.]+(Z|[+-]\d{2}:?\d{2})?)?$/.test(value) &&
+    !Number.isNaN(Date.parse(value))
+  );
+}
+
+/**
+ * ツールスキーマ
+ */
+export const getM365RoadmapChangesSchema = {
+  name: "get_m365_roadmap_changes",
+  description:
+    "List M365 Roadmap features that were added, changed (with the changed fields and old/new values), " +
+    "had a status transition, or were removed from (or restored to) the official roadmap since a given timestamp. " +
+    "If 'since' is omitted, returns the changes recorded by the most recent completed sync (empty if that sync found no changes). " +
+    "Useful for weekly change-advisory reviews. " +
+    "Respond in the same language as the user's query (e.g., Japanese if asked in Japanese).",
+  inputSchema: {
+    type: "object",
+    properties: {
+      since: {
+        type: "string",
+        description:
+          'Return changes recorded at or after this timestamp (ISO 8601, e.g., "2026-02-01" or "2026-02-01T09:00:00Z").',
+      },
+      products: {
+        type: "array",
+        items: { type: "string" },
+        description:
+          'Filter by products (e.g., ["Microsoft Teams"]). Uses OR logic.',
+      },
+      platforms: {
+        type: "array",
+        items: { type: "string" },
+        description:
+          'Filter by platforms (e.g., ["Web", "iOS"]). Uses OR logic.',
+      },
+      status: {
+        type: "string",
+        description:
+          'Filter by current status (e.g., "Rolling out", "Launched").',
+      },
+      limit: {
+        type: "integer",
+        description: `Maximum number of items per category (default: ${DEFAULT_LIMIT}).`,
+        minimum: 1,
+        maximum: MAX_LIMIT,
+      },
+    },
+  },
+};
+
+/**
+ * 変更取得ツールのハンドラ
+ */
+export function handleGetM365RoadmapChanges(
+  db: Database.Database,
+  args: unknown,
+): ToolResponse {
+  const params = (args ?? {}) as ChangesParams;
+  const since = normalizeOptionalString(params.since);
+  const products = normalizeOptionalStringArray(params.products);
+  const platforms = normalizeOptionalStringArray(params.platforms);
+  const status = normalizeOptionalString(params.status);
+
+  if (since && !isValidTimestamp(since)) {
+    return createErrorResponse(
+      "Invalid parameter: since (must be an ISO 8601 date or timestamp)",
+    );
+  }
+
+  if (
+    params.limit !== undefined &&
+    (!Number.isInteger(params.limit) ||
+      params.limit < 1 ||
+      params.limit > MAX_LIMIT)
+  ) {
+    return createErrorResponse(
+      `Invalid parameter: limit (must be an integer between 1 and ${MAX_LIMIT})`,
+    );
+  }
+
+  const limit = params.limit ?? DEFAULT_LIMIT;
+
+  logger.info("get_m365_roadmap_changes called", {
+    since,
+    products,
+    platforms,
+    status,
+    limit,
+  });
+
+  try {
+    // since 未指定時は最後に完了した同期で記録された変更（変更がなかった同期なら空）
+    const sinceIso = since ? new Date(since).toISOString() : undefined;
+    const lastRun = sinceIso ? null : getLatestCompletedSyncRun(db);
+    // 変更履歴の sync_run は同期の開始時刻
+    const syncRun = lastRun?.startedAt;
+
+    if (!sinceIso && !syncRun) {
+      return createSuccessResponse({
+        message: "No completed sync recorded yet. Run sync_m365_roadmap first.",
+        added: [],
+        changed: [],
+        statusTransitions: [],
+        removed: [],
+        restored: [],
+      });
+    }
+
+    const entries = getFeatureChanges(db, {
+      since: sinceIso,
+      syncRun,
+      products,
+      platforms,
+      status,
+    });
+    const summary = summarizeFeatureChanges(entries);
+
+    logger.info("get_m365_roadmap_changes completed", {
+      added: summary.added.length,
+      changed: summary.changed.length,
+      statusTransitions: summary.statusTransitions.length,
+      removed: summary.removed.length,
+    });
+
+    return createSuccessResponse({
+      since: sinceIso ?? null,
+      syncRun: syncRun ?? null,
+      syncedAt: lastRun?.endedAt ?? null,
+      totals: {
+        added: summary.added.length,
+        changed: summary.changed.length,
+        statusTransitions: summary.statusTransitions.length,
+        removed: summary.removed.length,
+        restored: summary.restored.length,
+      },
+      added: summary.added.slice(0, limit),
+      changed: summary.changed.slice(0, limit),
+      statusTransitions: summary.statusTransitions.slice(0, limit),
+      removed: summary.removed.slice(0, limit),
+      restored: summary.restored.slice(0, limit),
+    });
+  } catch (error) {
+    const err = error as Error;
+    logger.error("get_m365_roadmap_changes failed", { error: err.message });
+    return createErrorResponse(`Failed to get changes: ${err.message}`);
+  }
+}
@@ -0,0 +1,196 @@
+/**
+ * get_m365_schedule_drift ツール
+ *
+ * GA / プレビュー予定日の延期・前倒しを集計し、日付の信頼性を評価
+ */
+
+import type Database from "better-sqlite3";
+import {
+  getFeatureChanges,
+  getFeatureProductsMap,
+} from "../database/queries.js";
+import {
+  buildScheduleDriftReport,
+  SCHEDULE_HISTORY_FIELDS,
+  type ScheduleDateField,
+} from "../services/schedule.service.js";
+import {
+  createSuccessResponse,
+  createErrorResponse,
+  type ToolResponse,
+} from "../types.js";
+import * as logger from "../utils/logger.js";
+import {
+  normalizeOptionalString,
+  normalizeOptionalStringArray,
+} from "../utils/params.js";
+
+/**
+ * ドリフト分析パラメータ
+ */
+interface ScheduleDriftParams {
+  dateFields?: string[];
+  products?: string[];
+  since?: string;
+  minSlips?: number;
+  limit?: number;
+}
+
+const DATE_FIELDS = Object.keys(SCHEDULE_HISTORY_FIELDS) as ScheduleDateField[];
+const DEFAULT_MIN_SLIPS = 2;
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 1000;
+
+function isValidDate(value: string): boolean {
+  return /^\d{4}-\d{2}-\d{2}/.test(value) && !Number.isNaN(Date.parse(value));
+}
+
+/**
+ * ツールスキーマ
+ */
+export const getM365ScheduleDriftSchema = {
+  name: "get_m365_schedule_drift",
+  description:
+    "Analyze how M365 Roadmap GA dates, preview dates and per-ring availability dates have moved across syncs. " +
+    "Returns delayed features, pulled-in features, repeatedly slipping features (with slip counts and drift in months), " +
+    "and per-product totals so you can judge which announced dates are reliable. " +
+    "Respond in the same language as the user's query (e.g., Japanese if asked in Japanese).",
+  inputSchema: {
+    type: "object",
+    properties: {
+      dateFields: {
+        type: "array",
+        items: { type: "string", enum: DATE_FIELDS },
+        description:
+          'Date fields to analyze: "ga", "preview", "availability" (per release ring). Default: all.',
+      },
+      products: {
+        type: "array",
+        items: { type: "string" },
+        description:
+          'Filter by products (e.g., ["Microsoft Teams"]). Uses OR logic.',
+      },
+      since: {
+        type: "string",
+        description:
+          'Only count date moves recorded at or after this date (ISO 8601, e.g., "2026-01-01").',
+      },
+      minSlips: {
+        type: "integer",
+        description: `Minimum number of slips to be listed as repeatedly slipping (default: ${DEFAULT_MIN_SLIPS}).`,
+        minimum: 1,
+      },
+      limit: {
+        type: "integer",
+        description: `Maximum number of features per list (default: ${DEFAULT_LIMIT}).`,
+        minimum: 1,
+        maximum: MAX_LIMIT,
+      },
+    },
+  },
+};
+
+/**
+ * ドリフト分析ツールのハンドラ
+ */
+export function handleGetM365ScheduleDrift(
+  db: Database.Database,
+  args: unknown,
+): ToolResponse {
+  const params = (args ?? {}) as ScheduleDriftParams;
+  const dateFields = normalizeOptionalStringArray(params.dateFields);
+  const products = normalizeOptionalStringArray(params.products);
+  const since = normalizeOptionalString(params.since);
+
+  const invalidField = dateFields?.find(
+    (field) => !DATE_FIELDS.includes(field as ScheduleDateField),
+  );
+  if (invalidField) {
+    return createErrorResponse(
+      `Invalid parameter: dateFields (unknown field "${invalidField}", expected ${DATE_FIELDS.join(", ")})`,
+    );
+  }
+
+  if (since && !isValidDate(since)) {
+    return createErrorResponse(
+      "Invalid parameter: since (must be an ISO 8601 date)",
+    );
+  }
+
+  if (
+    params.minSlips !== undefined &&
+    (!Number.isInteger(params.minSlips) || params.minSlips < 1)
+  ) {
+    return createErrorResponse(
+      "Invalid parameter: minSlips (must be a positive integer)",
+    );
+  }
+
+  if (
+    params.limit !== undefined &&
+    (!Number.isInteger(params.limit) ||
+      params.limit < 1 ||
+      params.limit > MAX_LIMIT)
+  ) {
+    return createErrorResponse(
+      `Invalid parameter: limit (must be an integer between 1 and ${MAX_LIMIT})`,
+    );
+  }
+
+  const selectedFields = (dateFields ?? DATE_FIELDS) as ScheduleDateField[];
+  const minSlips = params.minSlips ?? DEFAULT_MIN_SLIPS;
+  const limit = params.limit ?? DEFAULT_LIMIT;
+
+  logger.info("get_m365_schedule_drift called", {
+    dateFields: selectedFields,
+    products,
+    since,
+    minSlips,
+    limit,
+  });
+
+  try {
+    const entries = getFeatureChanges(db, {
+      since: since ? new Date(since).toISOString() : undefined,
+      fields: selectedFields.map((field) => SCHEDULE_HISTORY_FIELDS[field]),
+      products,
+    });
+    const featureIds = [...new Set(entries.map((e) => e.featureId))];
+    const report = buildScheduleDriftReport(
+      entries,
+      getFeatureProductsMap(db, featureIds),
+      minSlips,
+    );
+
+    // 製品フィルタ指定時は製品別集計も指定製品に限定
+    const byProduct = products
+      ? report.byProduct.filter((p) => products.includes(p.product))
+      : report.byProduct;
+
+    logger.info("get_m365_schedule_drift completed", {
+      delayed: report.delayed.length,
+      pulledIn: report.pulledIn.length,
+      repeatedlySlipping: report.repeatedlySlipping.length,
+    });
+
+    return createSuccessResponse({
+      dateFields: selectedFields,
+      since: since ?? null,
+      totals: {
+        delayed: report.delayed.length,
+        pulledIn: report.pulledIn.length,
+        repeatedlySlipping: report.repeatedlySlipping.length,
+      },
+      delayed: report.delayed.slice(0, limit),
+      pulledIn: report.pulledIn.slice(0, limit),
+      repeatedlySlipping: report.repeatedlySlipping.slice(0, limit),
+      byProduct,
+    });
+  } catch (error) {
+    const err = error as Error;
+    logger.error("get_m365_schedule_drift failed", { error: err.message });
+    return createErrorResponse(
+      `Failed to analyze schedule drift: ${err.message}`,
+    );
+  }
+}
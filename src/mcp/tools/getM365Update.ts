@@ -5,30 +5,15 @@
  */
 
 import type Database from "better-sqlite3";
-import { getFeatureById } from "../database/queries.js";
+import { getFeatureById, getFeatureHistory } from "../database/queries.js";
+import { formatFeatureTimeline } from "../services/history.service.js";
 import {
   createSuccessResponse,
   createErrorResponse,
   type ToolResponse,
 } from "../types.js";
 import * as logger from "../utils/logger.js";
-
-/**
- * M365 Roadmap の参考 URL を生成
- */
-function generateReferenceUrls(id: number): {
-  roadmapUrl: string;
-  roadmapUrlJa: string;
-  learnSearchUrl: string;
-  learnSearchUrlJa: string;
-} {
-  return {
-    roadmapUrl: `https://www.microsoft.com/en-us/microsoft-365/roadmap?filters=&searchterms=${id}`,
-    roadmapUrlJa: `https://www.microsoft.com/ja-jp/microsoft-365/roadmap?filters=&searchterms=${id}`,
-    learnSearchUrl: `https://learn.microsoft.com/en-us/search/?terms=${id}`,
-    learnSearchUrlJa: `https://learn.microsoft.com/ja-jp/search/?terms=${id}`,
-  };
-}
+import { generateReferenceUrls } from "../utils/referenceUrls.js";
 
 /**
  * ツールスキーマ
@@ -37,7 +22,8 @@ export const getM365UpdateSchema = {
   name: "get_m365_update",
   description:
     "Retrieve complete details of a specific M365 Roadmap feature by ID. " +
-    "Includes full description, platforms, cloud instances, availability details, and reference URLs. " +
+    "Includes full description, platforms, cloud instances, availability details, reference URLs, " +
+    "and a change history (field-level old/new values per sync, e.g. GA date slips). " +
     "Use after search_m365_roadmap to get detailed content. " +
     "Respond in the same language as the user's query (e.g., Japanese if asked in Japanese).",
   inputSchema: {
@@ -85,7 +71,10 @@ export function handleGetM365Update(
     // 参考 URL を生成
     const urls = generateReferenceUrls(params.id);
 
-    // レスポンスに参考 URL を追加
+    // 変更履歴（古い順）
+    const history = formatFeatureTimeline(getFeatureHistory(db, params.id));
+
+    // レスポンスに参考 URL・変更履歴を追加
     const responseWithUrls = {
       ...feature,
       references: {
@@ -94,6 +83,7 @@ export function handleGetM365Update(
         learnSearchUrl: urls.learnSearchUrlJa,
         learnSearchUrlEn: urls.learnSearchUrl,
       },
+      history,
     };
 
     logger.info("get_m365_update completed", { id: params.id });
@@ -0,0 +1,131 @@
+/**
+ * get_sync_history ツール
+ *
+ * 同期実行ログ（sync_runs）を取得し、データ鮮度の問題を調査する
+ */
+
+import type Database from "better-sqlite3";
+import { getSyncRuns, type SyncRun } from "../database/queries.js";
+import {
+  createSuccessResponse,
+  createErrorResponse,
+  type ToolResponse,
+} from "../types.js";
+import * as logger from "../utils/logger.js";
+
+const DEFAULT_DAYS = 7;
+const MAX_DAYS = 365;
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 500;
+
+/**
+ * ツールスキーマ
+ */
+export const getSyncHistorySchema = {
+  name: "get_sync_history",
+  description:
+    "Show the log of recent M365 Roadmap sync runs: start/end time, trigger (startup, scheduled, tool, forced), " +
+    "HTTP outcome (200, 304 or error; abandoned when the syncing process exited before finishing), inserted/updated/removed counts, ETag and error text. " +
+    "Use this when the user says the data looks stale or asks when the roadmap was last updated.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      days: {
+        type: "integer",
+        description: `Number of days to look back (default: ${DEFAULT_DAYS}).`,
+        minimum: 1,
+        maximum: MAX_DAYS,
+      },
+      limit: {
+        type: "integer",
+        description: `Maximum number of runs to return (default: ${DEFAULT_LIMIT}).`,
+        minimum: 1,
+        maximum: MAX_LIMIT,
+      },
+    },
+  },
+};
+
+/**
+ * 同期実行ログを集計
+ */
+export function summarizeSyncRuns(runs: SyncRun[]): {
+  total: number;
+  success: number;
+  notModified: number;
+  errors: number;
+  skipped: number;
+  abandoned: number;
+  lastSuccessAt: string | null;
+  lastError: string | null;
+} {
+  const lastSuccess = runs.find(
+    (run) => run.outcome === "success" || run.outcome === "not_modified",
+  );
+  const lastError = runs.find((run) => run.outcome === "error");
+
+  return {
+    total: runs.length,
+    success: runs.filter((run) => run.outcome === "success").length,
+    notModified: runs.filter((run) => run.outcome === "not_modified").length,
+    errors: runs.filter((run) => run.outcome === "error").length,
+    skipped: runs.filter((run) => run.outcome === "skipped").length,
+    abandoned: runs.filter((run) => run.outcome === "abandoned").length,
+    lastSuccessAt: lastSuccess?.endedAt ?? null,
+    lastError: lastError?.error ?? null,
+  };
+}
+
+/**
+ * 同期履歴ツールのハンドラ
+ */
+export function handleGetSyncHistory(
+  db: Database.Database,
+  args: unknown,
+): ToolResponse {
+  const params = (args ?? {}) as { days?: number; limit?: number };
+
+  if (
+    params.days !== undefined &&
+    (!Number.isInteger(params.days) ||
+      params.days < 1 ||
+      params.days > MAX_DAYS)
+  ) {
+    return createErrorResponse(
+      `Invalid parameter: days (must be an integer between 1 and ${MAX_DAYS})`,
+    );
+  }
+
+  if (
+    params.limit !== undefined &&
+    (!Number.isInteger(params.limit) ||
+      params.limit < 1 ||
+      params.limit > MAX_LIMIT)
+  ) {
+    return createErrorResponse(
+      `Invalid parameter: limit (must be an integer between 1 and ${MAX_LIMIT})`,
+    );
+  }
+
+  const days = params.days ?? DEFAULT_DAYS;
+  const limit = params.limit ?? DEFAULT_LIMIT;
+
+  logger.info("get_sync_history called", { days, limit });
+
+  try {
+    const since = new Date(
+      Date.now() - days * 24 * 60 * 60 * 1000,
+    ).toISOString();
+    const runs = getSyncRuns(db, { since, limit });
+
+    return createSuccessResponse({
+      since,
+      summary: summarizeSyncRuns(runs),
+      runs,
+    });
+  } catch (error) {
+    const err = error as Error;
+    logger.error("get_sync_history failed", { error: err.message });
+    return createErrorResponse(`Failed to get sync history: ${err.message}`);
+  }
+}
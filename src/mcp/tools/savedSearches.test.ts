@@ -0,0 +1,181 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import Database from "better-sqlite3";
+
+import { runMigrations } from "../database/migrations.js";
+import { replaceFeatureProducts, upsertFeature } from "../database/queries.js";
+import {
+  handleDeleteM365SavedSearch,
+  handleListM365SavedSearches,
+  handleRunM365SavedSearch,
+  handleSaveM365Search,
+  listSavedSearchResources,
+  readSavedSearchResource,
+} from "./savedSearches.js";
+import { RESOURCE_TEMPLATES } from "../resources/roadmapResources.js";
+import type { ToolResponse } from "../types.js";
+
+function parse<T>(response: ToolResponse): T {
+  return JSON.parse(response.content[0].text) as T;
+}
+
+describe("saved searches", () => {
+  let db: Database.Database;
+
+  beforeEach(() => {
+    db = new Database(":memory:");
+    runMigrations(db);
+
+    for (const [id, title, product] of [
+      [1, "Copilot in Teams meetings", "Microsoft Teams"],
+      [2, "Copilot in Outlook", "Outlook"],
+      [3, "Teams shared channels", "Microsoft Teams"],
+    ] as const) {
+      upsertFeature(db, {
+        id,
+        title,
+        description: null,
+        cloudInstances: [],
+        platforms: [],
+        releaseRings: [],
+        products: [product],
+        generalAvailabilityDate: null,
+        previewAvailabilityDate: null,
+        status: "Rolling out",
+        created: "2026-01-01T00:00:00.000Z",
+        modified: "2026-01-01T00:00:00.000Z",
+        availabilities: [],
+      });
+      replaceFeatureProducts(db, id, [product]);
+    }
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it("保存した検索を名前で実行できること", () => {
+    const saved = handleSaveM365Search(db, {
+      name: "Copilot + Teams",
+      description: "Copilot features in Teams",
+      filters: {
+        query: "Copilot",
+        products: ["Microsoft Teams", " "],
+        status: "Rolling out",
+      },
+    });
+
+    expect(saved.isError).toBeUndefined();
+    expect(parse<{ created: boolean }>(saved).created).toBe(true);
+
+    const response = handleRunM365SavedSearch(db, { name: "copilot + teams" });
+    const payload = parse<{ results: Array<{ id: number }> }>(response);
+    expect(payload.results.map((r) => r.id)).toEqual([1]);
+  });
+
+  it("相対日付を展開せずに保存し、同じ名前で保存すると置き換えること", () => {
+    handleSaveM365Search(db, {
+      name: "This quarter",
+      filters: { status: "Rolling out" },
+    });
+    const updated = handleSaveM365Search(db, {
+      name: "this quarter",
+      filters: { dateFrom: "this-quarter", includeRemoved: false },
+    });
+
+    expect(parse<{ created: boolean }>(updated).created).toBe(false);
+    const list = parse<{
+      savedSearches: Array<{
+        name: string;
+        filters: Record<string, unknown>;
+        resourceUri: string;
+      }>;
+    }>(handleListM365SavedSearches(db));
+    expect(list.savedSearches).toEqual([
+      expect.objectContaining({
+        name: "this quarter",
+        filters: { dateFrom: "this-quarter" },
+        resourceUri: "m365-roadmap://saved/this%20quarter",
+      }),
+    ]);
+  });
+
+  it("不正な名前や検索条件を保存しないこと", () => {
+    for (const args of [
+      { name: " ", filters: { query: "Copilot" } },
+      { name: "a".repeat(101), filters: { query: "Copilot" } },
+      { name: "paging", filters: { query: "Copilot", limit: 10 } },
+      { name: "empty", filters: { products: [] } },
+      { name: "bad date", filters: { dateFrom: "someday" } },
+      { name: "no filters" },
+    ]) {
+      const response = handleSaveM365Search(db, args);
+
+      expect(response.isError).toBe(true);
+    }
+    expect(
+      parse<{ totalCount: number }>(handleListM365SavedSearches(db)).totalCount,
+    ).toBe(0);
+  });
+
+  it("削除した検索は実行できないこと", () => {
+    handleSaveM365Search(db, { name: "Teams", filters: { query: "Teams" } });
+
+    expect(handleDeleteM365SavedSearch(db, { name: "TEAMS" }).isError).toBe(
+      undefined,
+    );
+    expect(handleDeleteM365SavedSearch(db, { name: "Teams" }).isError).toBe(
+      true,
+    );
+    const response = handleRunM365SavedSearch(db, { name: "Teams" });
+    expect(response.isError).toBe(true);
+    expect(parse<{ error: string }>(response).error).toContain(
+      "Saved search not found: Teams",
+    );
+  });
+
+  it("保存した検索をリソースとして一覧・読み取りできること", () => {
+    handleSaveM365Search(db, {
+      name: "Teams 共有チャネル",
+      filters: { query: "shared channels" },
+    });
+
+    const resources = listSavedSearchResources(db);
+    expect(resources).toHaveLength(1);
+
+    const contents = readSavedSearchResource(db, resources[0].uri);
+    expect(contents?.uri).toBe(resources[0].uri);
+    expect(JSON.parse(contents?.text ?? "{}")).toMatchObject({
+      name: "Teams 共有チャネル",
+      filters: { query: "shared channels" },
+    });
+    expect(() =>
+      readSavedSearchResource(db, "m365-roadmap://saved/unknown"),
+    ).toThrow("Saved search not found: unknown");
+    expect(readSavedSearchResource(db, "m365-roadmap://saved/%E0")).toBeNull();
+    expect(readSavedSearchResource(db, "m365-roadmap://guide")).toBeNull();
+  });
+
+  it("リソーステンプレートの URI から名前で保存済み検索を読み取れること", () => {
+    handleSaveM365Search(db, {
+      name: "Teams 共有チャネル",
+      filters: { query: "shared channels" },
+    });
+    const template = RESOURCE_TEMPLATES.find((t) =>
+      t.uriTemplate.startsWith("m365-roadmap://saved/"),
+    );
+    expect(template?.uriTemplate).toBe("m365-roadmap://saved/{name}");
+
+    // 名前は大文字小文字を区別しない
+    const uri = template?.uriTemplate.replace(
+      "{name}",
+      encodeURIComponent("teams 共有チャネル"),
+    );
+    const contents = readSavedSearchResource(db, uri ?? "");
+
+    expect(contents?.mimeType).toBe(template?.mimeType);
+    expect(JSON.parse(contents?.text ?? "{}")).toMatchObject({
+      name: "Teams 共有チャネル",
+      usage: { arguments: { name: "Teams 共有チャネル" } },
+    });
+  });
+});
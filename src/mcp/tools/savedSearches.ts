@@ -0,0 +1,478 @@
+/**
+ * 保存済み検索ツール
+ *
+ * search_m365_roadmap の検索条件に名前を付けて DB に保存し、一覧・実行・削除する。
+ * 保存した検索は m365-roadmap://saved/{name} リソースとしても公開する
+ */
+
+import type Database from "better-sqlite3";
+import {
+  deleteSavedSearch,
+  getSavedSearch,
+  getSavedSearches,
+  upsertSavedSearch,
+  type SavedSearch,
+} from "../database/queries.js";
+import {
+  handleSearchM365Roadmap,
+  resolveSearchFilters,
+  searchM365RoadmapSchema,
+  type SearchParams,
+} from "./searchM365Roadmap.js";
+import {
+  createSuccessResponse,
+  createErrorResponse,
+  type ToolResponse,
+} from "../types.js";
+import * as logger from "../utils/logger.js";
+import { normalizeOptionalString } from "../utils/params.js";
+
+/** 保存済み検索リソースの URI の接頭辞 */
+export const SAVED_SEARCH_URI_PREFIX = "m365-roadmap://saved/";
+
+const MAX_NAME_LENGTH = 100;
+const MAX_DESCRIPTION_LENGTH = 500;
+
+/**
+ * 保存できる検索パラメータ（ページング・応答形式のパラメータは実行時に指定する）
+ */
+const SAVED_SEARCH_KEYS = [
+  "query",
+  "products",
+  "productsMatch",
+  "excludeProducts",
+  "platforms",
+  "platformsMatch",
+  "excludePlatforms",
+  "status",
+  "cloudInstances",
+  "releaseRings",
+  "availabilityMonth",
+  "availabilityRing",
+  "dateField",
+  "dateFrom",
+  "dateTo",
+  "includeRemoved",
+  "sortBy",
+  "sortOrder",
+] as const satisfies readonly (keyof SearchParams)[];
+
+const savedSearchFilterProperties = Object.fromEntries(
+  SAVED_SEARCH_KEYS.map((key) => [
+    key,
+    searchM365RoadmapSchema.inputSchema.properties[key],
+  ]),
+);
+
+/**
+ * 保存済み検索リソースの URI
+ */
+export function getSavedSearchUri(name: string): string {
+  return SAVED_SEARCH_URI_PREFIX + encodeURIComponent(name);
+}
+
+/**
+ * 名前を検証（前後の空白を除いた 1〜100 文字、制御文字なし）
+ */
+function validateName(value: unknown): string | null {
+  const name = normalizeOptionalString(value);
+  return name && name.length <= MAX_NAME_LENGTH && !/\p{Cc}/u.test(name)
+    ? name
+    : null;
+}
+
+const INVALID_NAME_ERROR = `Invalid required parameter: name (must be a non-empty string of at most ${MAX_NAME_LENGTH} characters)`;
+
+/**
+ * 保存する検索条件を検証し、空の値を除いて正規化
+ */
+function normalizeSavedFilters(
+  value: unknown,
+): { filters: Record<string, unknown> } | { error: string } {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    return {
+      error: "Invalid required parameter: filters (must be an object)",
+    };
+  }
+
+  const unknownKeys = Object.keys(value).filter(
+    (key) => !(SAVED_SEARCH_KEYS as readonly string[]).includes(key),
+  );
+  if (unknownKeys.length > 0) {
+    return {
+      error:
+        `Invalid parameter: filters (unsupported keys: ${unknownKeys.join(", ")}; ` +
+        `allowed: ${SAVED_SEARCH_KEYS.join(", ")})`,
+    };
+  }
+
+  const params = value as SearchParams;
+  const resolved = resolveSearchFilters(params);
+  if ("error" in resolved) {
+    return resolved;
+  }
+
+  // 日付は相対表現のまま保存し、実行時に展開する
+  const filters: Record<string, unknown> = {};
+  for (const key of SAVED_SEARCH_KEYS) {
+    const normalized =
+      key === "dateFrom" || key === "dateTo"
+        ? normalizeOptionalString(params[key])
+        : resolved.filters[key];
+    if (normalized !== undefined && key !== "includeRemoved") {
+      filters[key] = normalized;
+    }
+  }
+  if (params.includeRemoved) {
+    filters.includeRemoved = true;
+  }
+
+  if (Object.keys(filters).length === 0) {
+    return {
+      error:
+        "Invalid parameter: filters (specify at least one query, filter or date)",
+    };
+  }
+
+  return { filters };
+}
+
+/**
+ * 応答用の保存済み検索
+ */
+function toSavedSearchResponse(search: SavedSearch) {
+  return {
+    ...search,
+    resourceUri: getSavedSearchUri(search.name),
+  };
+}
+
+// ============================================================
+// save_m365_search
+// ============================================================
+
+/**
+ * 保存ツールのスキーマ
+ */
+export const saveM365SearchSchema = {
+  name: "save_m365_search",
+  description:
+    "Save a named M365 Roadmap search (query, products, status, dates, ...) in the local database so it can be re-run later " +
+    "with run_m365_saved_search and shared as the resource m365-roadmap://saved/{name}. " +
+    "Saving with an existing name (case-insensitive) replaces its filters and description. " +
+    'Relative dates (e.g., dateFrom "this-quarter") are stored as is and resolved each time the search runs.',
+  inputSchema: {
+    type: "object",
+    properties: {
+      name: {
+        type: "string",
+        description: `Name of the saved search (required, up to ${MAX_NAME_LENGTH} characters, e.g., "Copilot Teams rolling out this quarter").`,
+        maxLength: MAX_NAME_LENGTH,
+      },
+      description: {
+        type: "string",
+        description: "Optional note describing what the search is for.",
+        maxLength: MAX_DESCRIPTION_LENGTH,
+      },
+      filters: {
+        type: "object",
+        description:
+          "Search parameters, same as search_m365_roadmap (paging and output options such as limit or cursor are given when running). " +
+          'Example: { "query": "Copilot", "products": ["Microsoft Teams"], "status": "Rolling out", "dateFrom": "this-quarter" }.',
+        properties: savedSearchFilterProperties,
+        additionalProperties: false,
+      },
+    },
+    required: ["name", "filters"],
+  },
+};
+
+/**
+ * 保存ツールのハンドラ
+ */
+export function handleSaveM365Search(
+  db: Database.Database,
+  args: unknown,
+): ToolResponse {
+  const params = (args ?? {}) as {
+    name?: unknown;
+    description?: unknown;
+    filters?: unknown;
+  };
+
+  const name = validateName(params.name);
+  if (!name) {
+    return createErrorResponse(INVALID_NAME_ERROR);
+  }
+
+  if (
+    params.description !== undefined &&
+    (typeof params.description !== "string" ||
+      params.description.length > MAX_DESCRIPTION_LENGTH)
+  ) {
+    return createErrorResponse(
+      `Invalid parameter: description (must be a string of at most ${MAX_DESCRIPTION_LENGTH} characters)`,
+    );
+  }
+
+  const normalized = normalizeSavedFilters(params.filters);
+  if ("error" in normalized) {
+    return createErrorResponse(normalized.error);
+  }
+
+  logger.info("save_m365_search called", {
+    name,
+    filters: normalized.filters,
+  });
+
+  try {
+    const created = getSavedSearch(db, name) === null;
+    const saved = upsertSavedSearch(db, {
+      name,
+      description: normalizeOptionalString(params.description) ?? null,
+      filters: normalized.filters,
+    });
+
+    return createSuccessResponse({
+      created,
+      savedSearch: toSavedSearchResponse(saved),
+      hint: `Run it with run_m365_saved_search { "name": ${JSON.stringify(saved.name)} }.`,
+    });
+  } catch (error) {
+    const err = error as Error;
+    logger.error("save_m365_search failed", { name, error: err.message });
+    return createErrorResponse(`Failed to save search: ${err.message}`);
+  }
+}
+
+// ============================================================
+// list_m365_saved_searches
+// ============================================================
+
+/**
+ * 一覧ツールのスキーマ
+ */
+export const listM365SavedSearchesSchema = {
+  name: "list_m365_saved_searches",
+  description:
+    "List the M365 Roadmap searches saved with save_m365_search, with their filters and resource URIs. " +
+    "Respond in the same language as the user's query (e.g., Japanese if asked in Japanese).",
+  inputSchema: {
+    type: "object",
+    properties: {},
+  },
+};
+
+/**
+ * 一覧ツールのハンドラ
+ */
+export function handleListM365SavedSearches(
+  db: Database.Database,
+): ToolResponse {
+  logger.info("list_m365_saved_searches called");
+
+  try {
+    const searches = getSavedSearches(db);
+    return createSuccessResponse({
+      savedSearches: searches.map(toSavedSearchResponse),
+      totalCount: searches.length,
+    });
+  } catch (error) {
+    const err = error as Error;
+    logger.error("list_m365_saved_searches failed", { error: err.message });
+    return createErrorResponse(`Failed to list saved searches: ${err.message}`);
+  }
+}
+
+// ============================================================
+// run_m365_saved_search
+// ============================================================
+
+/**
+ * 実行ツールのスキーマ
+ */
+export const runM365SavedSearchSchema = {
+  name: "run_m365_saved_search",
+  description:
+    "Run a saved M365 Roadmap search by name. Returns the same response as search_m365_roadmap; " +
+    "if hasMore is true, pass nextCursor as cursor to search_m365_roadmap to get the next page. " +
+    "IMPORTANT: Always include the roadmapUrl in your response so users can access the official page. " +
+    "Respond in the same language as the user's query (e.g., Japanese if asked in Japanese).",
+  inputSchema: {
+    type: "object",
+    properties: {
+      name: {
+        type: "string",
+        description:
+          "Name of the saved search (case-insensitive). Use list_m365_saved_searches to see the names.",
+      },
+      limit: searchM365RoadmapSchema.inputSchema.properties.limit,
+      maxTokens: searchM365RoadmapSchema.inputSchema.properties.maxTokens,
+    },
+    required: ["name"],
+  },
+};
+
+/**
+ * 実行ツールのハンドラ
+ */
+export function handleRunM365SavedSearch(
+  db: Database.Database,
+  args: unknown,
+): ToolResponse {
+  const params = (args ?? {}) as {
+    name?: unknown;
+    limit?: number;
+    maxTokens?: number;
+  };
+
+  const name = validateName(params.name);
+  if (!name) {
+    return createErrorResponse(INVALID_NAME_ERROR);
+  }
+
+  logger.info("run_m365_saved_search called", { name });
+
+  let saved: SavedSearch | null;
+  try {
+    saved = getSavedSearch(db, name);
+  } catch (error) {
+    const err = error as Error;
+    logger.error("run_m365_saved_search failed", { name, error: err.message });
+    return createErrorResponse(`Failed to run saved search: ${err.message}`);
+  }
+
+  if (!saved) {
+    logger.warn("Saved search not found", { name });
+    return createErrorResponse(`Saved search not found: ${name}`);
+  }
+
+  return handleSearchM365Roadmap(db, {
+    ...saved.filters,
+    limit: params.limit,
+    maxTokens: params.maxTokens,
+  });
+}
+
+// ============================================================
+// delete_m365_saved_search
+// ============================================================
+
+/**
+ * 削除ツールのスキーマ
+ */
+export const deleteM365SavedSearchSchema = {
+  name: "delete_m365_saved_search",
+  description: "Delete a saved M365 Roadmap search by name.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      name: {
+        type: "string",
+        description: "Name of the saved search to delete (case-insensitive).",
+      },
+    },
+    required: ["name"],
+  },
+};
+
+/**
+ * 削除ツールのハンドラ
+ */
+export function handleDeleteM365SavedSearch(
+  db: Database.Database,
+  args: unknown,
+): ToolResponse {
+  const params = (args ?? {}) as { name?: unknown };
+
+  const name = validateName(params.name);
+  if (!name) {
+    return createErrorResponse(INVALID_NAME_ERROR);
+  }
+
+  logger.info("delete_m365_saved_search called", { name });
+
+  try {
+    if (!deleteSavedSearch(db, name)) {
+      logger.warn("Saved search not found", { name });
+      return createErrorResponse(`Saved search not found: ${name}`);
+    }
+    return createSuccessResponse({ deleted: name });
+  } catch (error) {
+    const err = error as Error;
+    logger.error("delete_m365_saved_search failed", {
+      name,
+      error: err.message,
+    });
+    return createErrorResponse(`Failed to delete saved search: ${err.message}`);
+  }
+}
+
+// ============================================================
+// リソース
+// ============================================================
+
+/**
+ * 保存済み検索のリソース一覧
+ */
+export function listSavedSearchResources(db: Database.Database): {
+  uri: string;
+  name: string;
+  description: string;
+  mimeType: string;
+}[] {
+  return getSavedSearches(db).map((search) => ({
+    uri: getSavedSearchUri(search.name),
+    name: `Saved search: ${search.name}`,
+    description:
+      search.description ??
+      "Saved M365 Roadmap search. Run it with run_m365_saved_search.",
+    mimeType: "application/json",
+  }));
+}
+
+/**
+ * 保存済み検索リソースの内容（検索条件の定義）
+ *
+ * URI の名前部分をデコードし、名前（大文字小文字を区別しない）で保存済み検索を探す
+ *
+ * @returns URI が保存済み検索を指していない場合は null
+ * @throws Error 保存済み検索が存在しない場合
+ */
+export function readSavedSearchResource(
+  db: Database.Database,
+  uri: string,
+): { uri: string; mimeType: string; text: string } | null {
+  if (!uri.startsWith(SAVED_SEARCH_URI_PREFIX)) {
+    return null;
+  }
+
+  let name: string;
+  try {
+    name = decodeURIComponent(uri.slice(SAVED_SEARCH_URI_PREFIX.length));
+  } catch {
+    return null;
+  }
+
+  const saved = getSavedSearch(db, name);
+  if (!saved) {
+    throw new Error(`Saved search not found: ${name}`);
+  }
+
+  return {
+    uri,
+    mimeType: "application/json",
+    text: JSON.stringify(
+      {
+        ...saved,
+        usage: {
+          tool: "run_m365_saved_search",
+          arguments: { name: saved.name },
+          hint: "Or pass filters to search_m365_roadmap as arguments.",
+        },
+      },
+      null,
+      2,
+    ),
+  };
+}
@@ -0,0 +1,97 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import Database from "better-sqlite3";
+
+import { runMigrations } from "../database/migrations.js";
+import {
+  getSearchSnapshot,
+  insertSearchSnapshot,
+} from "../database/queries.js";
+import { insertFeature } from "../database/testUtils.js";
+import { handleSearchM365Roadmap } from "./searchM365Roadmap.js";
+
+interface SearchPage {
+  results: { id: number }[];
+  hasMore: boolean;
+  nextCursor: string | null;
+}
+
+function search(db: Database.Database, args: Record<string, unknown>) {
+  const response = handleSearchM365Roadmap(db, args);
+  expect(response.isError).toBeUndefined();
+  return JSON.parse(response.content[0].text) as SearchPage;
+}
+
+describe("search_m365_roadmap の関連度順のカーソル", () => {
+  let db: Database.Database;
+
+  beforeEach(() => {
+    db = new Database(":memory:");
+    runMigrations(db);
+
+    for (let id = 1; id <= 8; id++) {
+      insertFeature(db, {
+        id,
+        title: id % 2 === 0 ? "Copilot in Teams" : `Copilot notebook ${id}`,
+        description: "Copilot ".repeat(id % 3) + "agents and notes".repeat(id),
+      });
+    }
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it("ページの間に追加・削除されたフィーチャーで結果が重複・欠落しないこと", () => {
+    const expected = search(db, { query: "Copilot" }).results.map((r) => r.id);
+    const first = search(db, { query: "Copilot", limit: 3 });
+    expect(first.results.map((r) => r.id)).toEqual(expected.slice(0, 3));
+
+    // 関連度の統計が変わる追加（1 ページ目より上位に並ぶもの）と、未取得の結果の削除
+    const added = Array.from({ length: 10 }, (_, i) => 100 + i);
+    for (const id of added) {
+      insertFeature(db, {
+        id,
+        title: "Copilot Copilot",
+        description: "Copilot",
+      });
+    }
+    db.prepare("DELETE FROM m365_features WHERE id = ?").run(expected[5]);
+
+    const ids = first.results.map((r) => r.id);
+    let cursor = first.nextCursor;
+    while (cursor) {
+      const page = search(db, { cursor, limit: 3 });
+      ids.push(...page.results.map((r) => r.id));
+      cursor = page.hasMore ? page.nextCursor : null;
+      // 2 ページ目より後の追加は保存した並びに含まれない
+      insertFeature(db, { id: 200 + ids.length, title: "Copilot" });
+    }
+
+    expect(new Set(ids).size).toBe(ids.length);
+    expect([...ids].sort((a, b) => a - b)).toEqual(
+      [...expected.filter((id) => id !== expected[5]), ...added].sort(
+        (a, b) => a - b,
+      ),
+    );
+  });
+
+  it("1 ページ目ではスナップショットを保存せず、続きの取得時に期限切れのものと入れ替えること", () => {
+    const countSnapshots = () =>
+      (
+        db.prepare("SELECT COUNT(*) as count FROM search_snapshots").get() as {
+          count: number;
+        }
+      ).count;
+
+    insertSearchSnapshot(db, "old", [1], "2020-01-01T00:00:00.000Z");
+
+    const first = search(db, { query: "Copilot", limit: 2 });
+    expect(countSnapshots()).toBe(1);
+
+    const second = search(db, { cursor: first.nextCursor, limit: 2 });
+    search(db, { cursor: second.nextCursor, limit: 2 });
+    // 期限切れのものは保存時に削除する
+    expect(countSnapshots()).toBe(1);
+    expect(getSearchSnapshot(db, "old")).toBeNull();
+  });
+});
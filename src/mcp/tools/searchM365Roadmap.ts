@@ -5,59 +5,310 @@
  */
 
 import type Database from "better-sqlite3";
+import { randomUUID } from "crypto";
+import type {
+  M365DateField,
+  M365FilterMatch,
+  M365SearchPosition,
+  M365SortField,
+  M365SortOrder,
+} from "../api/types.js";
 import {
   searchFeatures,
+  isRelevanceOrdered,
+  getSearchResultIds,
+  insertSearchSnapshot,
+  getSearchSnapshot,
+  deleteSearchSnapshotsBefore,
   getAllProducts,
   getAllPlatforms,
   getAllStatuses,
+  getAllCloudInstances,
+  getAllReleaseRings,
+  getAllAvailabilityRings,
 } from "../database/queries.js";
+import { SearchQueryParseError } from "../database/searchQuery.js";
+import {
+  suggestQueryCorrection,
+  type QueryCorrection,
+} from "../services/spelling.service.js";
 import {
   createSuccessResponse,
   createErrorResponse,
   type ToolResponse,
 } from "../types.js";
 import * as logger from "../utils/logger.js";
+import {
+  decodeSearchCursor,
+  encodeSearchCursor,
+  type SearchCursor,
+} from "../utils/searchCursor.js";
+import { generateReferenceUrls } from "../utils/referenceUrls.js";
+import {
+  resolveRelativeDateRange,
+  RELATIVE_DATE_EXAMPLES,
+  type DateRange,
+} from "../utils/dateRange.js";
+import {
+  normalizeOptionalString,
+  normalizeOptionalStringArray,
+} from "../utils/params.js";
 
 /**
  * 検索パラメータ
  */
-interface SearchParams {
+export interface SearchParams {
   query?: string;
   products?: string[];
+  productsMatch?: string;
+  excludeProducts?: string[];
   platforms?: string[];
+  platformsMatch?: string;
+  excludePlatforms?: string[];
   status?: string;
+  cloudInstances?: string[];
+  releaseRings?: string[];
+  availabilityMonth?: string;
+  availabilityRing?: string;
+  dateField?: string;
   dateFrom?: string;
   dateTo?: string;
   limit?: number;
   offset?: number;
+  includeRemoved?: boolean;
+  sortBy?: string;
+  sortOrder?: string;
+  highlightStart?: string;
+  highlightEnd?: string;
+  includeFacets?: boolean;
+  autoCorrect?: boolean;
+  maxTokens?: number;
+  cursor?: string;
 }
 
 const MAX_LIMIT = 10000;
 
-function normalizeOptionalString(value: unknown): string | undefined {
-  if (typeof value !== "string") {
-    return undefined;
-  }
+/** 応答サイズの目安（トークン数の概算）の既定値と範囲 */
+const DEFAULT_MAX_TOKENS = 20000;
+const MIN_MAX_TOKENS = 1000;
+const MAX_MAX_TOKENS = 200000;
+
+/** 1 トークンあたりの文字数の概算 */
+const CHARS_PER_TOKEN = 4;
+
+/** 1 件あたりの最小トークン数の概算（取得件数の見積もり用） */
+const MIN_ITEM_TOKENS = 50;
+
+/** 関連度順のカーソルが参照する結果のスナップショットの保持期間 */
+const SEARCH_SNAPSHOT_TTL_MS = 24 * 60 * 60 * 1000;
+
+/** 関連度順のスナップショットに保存する ID の上限（関連度順の続きはこの件数まで） */
+const MAX_SNAPSHOT_IDS = MAX_LIMIT;
+
+/** カーソルに載せる ID 1 件あたりの文字数の上限（7 桁の ID と区切りを base64url にしたもの） */
+const CURSOR_CHARS_PER_ID = 11;
+
+/** 予算に収まらなくなったときに切り詰める説明の長さ */
+const TRIMMED_DESCRIPTION_LENGTH = 80;
+
+const DEFAULT_HIGHLIGHT_MARKER = "**";
+const MAX_HIGHLIGHT_MARKER_LENGTH = 16;
+
+const SORT_FIELDS: M365SortField[] = [
+  "relevance",
+  "modified",
+  "created",
+  "gaDate",
+  "previewDate",
+];
+const SORT_ORDERS: M365SortOrder[] = ["asc", "desc"];
+const FILTER_MATCHES: M365FilterMatch[] = ["any", "all"];
+
+const DATE_FIELDS: M365DateField[] = [
+  "ga",
+  "preview",
+  "created",
+  "modified",
+  "availability",
+];
 
-  const trimmed = value.trim();
-  return trimmed.length > 0 ? trimmed : undefined;
+function isValidYearMonth(value: string): boolean {
+  return /^\d{4}-(0[1-9]|1[0-2])$/.test(value);
+}
+
+function isValidDate(value: string): boolean {
+  return (
+    /^\d{4}-\d{2}-\d{2}$/.test(value) &&
+    new Date(`${value}T00:00:00Z`).toISOString().startsWith(value)
+  );
 }
 
-function normalizeOptionalStringArray(value: unknown): string[] | undefined {
-  if (!Array.isArray(value)) {
-    return undefined;
+function isValidDateTime(value: string): boolean {
+  return (
+    /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}/.test(value) &&
+    !Number.isNaN(Date.parse(value))
+  );
+}
+
+/**
+ * dateFrom / dateTo を検証し、相対表現を日付範囲に展開
+ *
+ * 相対表現は dateFrom では範囲の開始、dateTo では範囲の終了を表す。
+ * 片方だけ相対表現で指定した場合は、その範囲全体で絞り込む
+ */
+function resolveDateBounds(
+  dateFrom: string | undefined,
+  dateTo: string | undefined,
+  dateField: M365DateField,
+): { dateFrom?: string; dateTo?: string } | { error: string } {
+  const acceptsTimestamps = dateField === "created" || dateField === "modified";
+  const formats = acceptsTimestamps
+    ? "YYYY-MM, YYYY-MM-DD, an ISO 8601 date-time"
+    : "YYYY-MM format";
+
+  const resolve = (
+    name: "dateFrom" | "dateTo",
+    value: string | undefined,
+  ): { range: DateRange | null } | { error: string } => {
+    if (!value) {
+      return { range: null };
+    }
+    const range = resolveRelativeDateRange(value);
+    if (range) {
+      return { range };
+    }
+    if (
+      isValidYearMonth(value) ||
+      (acceptsTimestamps && (isValidDate(value) || isValidDateTime(value)))
+    ) {
+      return { range: null };
+    }
+    return {
+      error:
+        `Invalid parameter: ${name} (must be ${formats} or a relative expression such as ` +
+        `${RELATIVE_DATE_EXAMPLES.join(", ")})`,
+    };
+  };
+
+  const from = resolve("dateFrom", dateFrom);
+  if ("error" in from) {
+    return from;
+  }
+  const to = resolve("dateTo", dateTo);
+  if ("error" in to) {
+    return to;
   }
 
-  const normalized = value
-    .filter((item): item is string => typeof item === "string")
-    .map((item) => item.trim())
-    .filter((item) => item.length > 0);
+  let resolvedFrom = from.range?.from ?? dateFrom;
+  let resolvedTo = to.range?.to ?? dateTo;
+  if (from.range && !dateTo) {
+    resolvedTo = from.range.to;
+  }
+  if (to.range && !dateFrom) {
+    resolvedFrom = to.range.from;
+  }
 
-  return normalized.length > 0 ? normalized : undefined;
+  // 年月の対象は先頭 7 文字（YYYY-MM）で比較される
+  const comparable = (value: string) =>
+    acceptsTimestamps ? value : value.slice(0, 7);
+  if (
+    resolvedFrom &&
+    resolvedTo &&
+    comparable(resolvedFrom) > comparable(resolvedTo)
+  ) {
+    return {
+      error:
+        "Invalid parameters: dateFrom must be earlier than or equal to dateTo",
+    };
+  }
+
+  return { dateFrom: resolvedFrom, dateTo: resolvedTo };
 }
 
-function isValidYearMonth(value: string): boolean {
-  return /^\d{4}-(0[1-9]|1[0-2])$/.test(value);
+/**
+ * カーソルから復元した検索条件を、新規の検索パラメータと同じ検証にかける
+ *
+ * 展開済みの相対日付（YYYY-MM-DD）は、年月が対象の場合は YYYY-MM に戻して検証する
+ * （検索では先頭 7 文字で比較するため条件は変わらない）
+ */
+function resolveCursorFilters(
+  filters: SearchCursor["filters"],
+): ReturnType<typeof resolveSearchFilters> {
+  const monthField =
+    filters.dateField !== "created" && filters.dateField !== "modified";
+  const toParam = (value: unknown) =>
+    monthField && typeof value === "string" && isValidDate(value)
+      ? value.slice(0, 7)
+      : value;
+  const highlight = filters.highlight as
+    { start?: string; end?: string } | null | undefined;
+
+  return resolveSearchFilters({
+    ...(filters as SearchParams),
+    dateFrom: toParam(filters.dateFrom) as string | undefined,
+    dateTo: toParam(filters.dateTo) as string | undefined,
+    highlightStart: highlight?.start,
+    highlightEnd: highlight?.end,
+  });
+}
+
+/** 応答 JSON で results 配列の要素の各行に付くインデント */
+const RESULT_ITEM_INDENT = 4;
+
+/**
+ * 応答 JSON（インデント付き）での文字数
+ *
+ * @param indent 入れ子による各行のインデント（配列の要素は区切りの ",\n" も含める）
+ */
+function measureJson(value: unknown, indent = 0): number {
+  const json = JSON.stringify(value, null, 2);
+  return indent > 0
+    ? json.length + json.split("\n").length * indent + 2
+    : json.length;
+}
+
+/**
+ * 予算内に収まる分の結果を先頭から詰める
+ *
+ * 全件は収まらない場合、説明を切り詰め（スニペットは省略）て件数を優先する。
+ * 続きを取得できるよう最低 1 件は返す
+ *
+ * @param extraCharsPerItem 1 件ごとに応答の他の部分（カーソルなど）で増える文字数
+ */
+function fitResultsToBudget<
+  T extends { description: string | null; snippet?: string | null },
+>(
+  items: T[],
+  maxChars: number,
+  extraCharsPerItem = 0,
+): { items: T[]; trimmed: boolean } {
+  const fill = (candidates: T[]): T[] => {
+    const fitted: T[] = [];
+    let used = 0;
+    for (const candidate of candidates) {
+      used += measureJson(candidate, RESULT_ITEM_INDENT) + extraCharsPerItem;
+      if (used > maxChars && fitted.length > 0) {
+        break;
+      }
+      fitted.push(candidate);
+    }
+    return fitted;
+  };
+
+  const full = fill(items);
+  if (full.length === items.length) {
+    return { items: full, trimmed: false };
+  }
+
+  const trimmed = items.map((item) => ({
+    ...item,
+    description:
+      item.description && item.description.length > TRIMMED_DESCRIPTION_LENGTH
+        ? item.description.slice(0, TRIMMED_DESCRIPTION_LENGTH) + "..."
+        : item.description,
+    snippet: undefined,
+  }));
+  return { items: fill(trimmed), trimmed: true };
 }
 
 /**
@@ -66,7 +317,8 @@ function isValidYearMonth(value: string): boolean {
 export const searchM365RoadmapSchema = {
   name: "search_m365_roadmap",
   description:
-    "Search Microsoft 365 Roadmap features. Returns up to 10000 matching results by default with description summary and roadmapUrl. " +
+    "Search Microsoft 365 Roadmap features. Returns matching results with description summary and roadmapUrl, " +
+    "up to about maxTokens per response (default: 20000 tokens). If hasMore is true, pass nextCursor as cursor to get the next page. " +
     "IMPORTANT: Always include the roadmapUrl in your response so users can access the official page. " +
     "Use get_m365_update to retrieve full details including complete description and MS Learn links. " +
     "If no query/date/filter is specified, returns last 1 month's updates (Key Highlights mode). " +
@@ -78,43 +330,104 @@ export const searchM365RoadmapSchema = {
         type: "string",
         description:
           "Full-text search query (searches title and description). " +
-          'Use keywords like "Copilot", "Teams", "SharePoint". Case-insensitive.',
+          'Use keywords like "Copilot", "Teams", "SharePoint". Case-insensitive. ' +
+          "Words are prefix-matched and combined with AND. Supports " +
+          '"quoted phrases", OR, NOT or -word to exclude, (grouping) and field scopes ' +
+          "title:, description:, product:, platform:, status: " +
+          '(e.g., `"shared channels" -Android`, `title:Loop OR title:Whiteboard`, `product:Teams status:"Rolling out"`).',
       },
       products: {
         type: "array",
         items: { type: "string" },
         description:
           'Filter by products (e.g., ["Microsoft Teams", "Microsoft Copilot (Microsoft 365)"]). ' +
-          "Use OR logic - matches features containing ANY of the specified products.",
+          'Use OR logic - matches features containing ANY of the specified products, unless productsMatch is "all".',
+      },
+      productsMatch: {
+        type: "string",
+        enum: FILTER_MATCHES,
+        description:
+          '"any" (default) matches features with ANY of the products; "all" requires ALL of them (e.g., features touching both Teams and Outlook).',
+      },
+      excludeProducts: {
+        type: "array",
+        items: { type: "string" },
+        description: "Exclude features containing ANY of these products.",
       },
       platforms: {
         type: "array",
         items: { type: "string" },
         description:
           'Filter by platforms (e.g., ["Web", "Desktop", "iOS", "Android"]). ' +
-          "Use OR logic.",
+          'Use OR logic, unless platformsMatch is "all".',
+      },
+      platformsMatch: {
+        type: "string",
+        enum: FILTER_MATCHES,
+        description:
+          '"any" (default) matches features on ANY of the platforms; "all" requires ALL of them (e.g., available on both iOS and Android).',
+      },
+      excludePlatforms: {
+        type: "array",
+        items: { type: "string" },
+        description: "Exclude features available on ANY of these platforms.",
       },
       status: {
         type: "string",
         description:
           'Filter by status. Common values: "In development", "Rolling out", "Launched".',
       },
-      dateFrom: {
+      cloudInstances: {
+        type: "array",
+        items: { type: "string" },
+        description:
+          'Filter by cloud instances (e.g., ["GCC High"], ["Worldwide (Standard Multi-Tenant)"]). ' +
+          "Use OR logic. See m365-roadmap://guide for valid values.",
+      },
+      releaseRings: {
+        type: "array",
+        items: { type: "string" },
+        description:
+          'Filter by release rings (e.g., ["Preview"], ["General Availability"]). ' +
+          "Use OR logic. See m365-roadmap://guide for valid values.",
+      },
+      availabilityMonth: {
         type: "string",
         description:
-          'Filter by GA date range start (YYYY-MM format, e.g., "2026-01").',
+          'Filter by the month of a release availability entry (YYYY-MM format, e.g., "2026-03"). ' +
+          "Combined with availabilityRing, both must match the same entry.",
         pattern: "^\\d{4}-(0[1-9]|1[0-2])$",
       },
+      availabilityRing: {
+        type: "string",
+        description:
+          'Filter by the ring of a release availability entry (e.g., "Targeted Release", "Preview"). ' +
+          "See m365-roadmap://guide for valid values.",
+      },
+      dateField: {
+        type: "string",
+        enum: DATE_FIELDS,
+        description:
+          'Date that dateFrom/dateTo apply to: "ga" (GA date, default), "preview" (preview date), ' +
+          '"created" / "modified" (roadmap entry timestamps) or "availability" (month of any availability entry, ' +
+          "or of the availabilityRing entry when given).",
+      },
+      dateFrom: {
+        type: "string",
+        description:
+          'Date range start, inclusive (YYYY-MM, e.g., "2026-01"; created/modified also accept YYYY-MM-DD and ISO 8601 date-times). ' +
+          `Also accepts relative expressions (${RELATIVE_DATE_EXAMPLES.join(", ")}); ` +
+          'a relative expression alone covers its whole range (e.g., dateField "preview" + dateFrom "next-month").',
+      },
       dateTo: {
         type: "string",
         description:
-          'Filter by GA date range end (YYYY-MM format, e.g., "2026-06").',
-        pattern: "^\\d{4}-(0[1-9]|1[0-2])$",
+          'Date range end, inclusive (same formats as dateFrom, e.g., "2026-06").',
       },
       limit: {
         type: "integer",
         description:
-          "Maximum number of results (default: up to 10000 matching results).",
+          "Maximum number of results per page (default: as many as fit in maxTokens).",
         minimum: 1,
         maximum: MAX_LIMIT,
       },
@@ -123,6 +436,66 @@ export const searchM365RoadmapSchema = {
         description: "Number of results to skip for pagination (default: 0).",
         minimum: 0,
       },
+      includeRemoved: {
+        type: "boolean",
+        description:
+          "Include features that have been removed from the official roadmap (default: false). " +
+          "Removed features have a non-null removedAt date.",
+      },
+      sortBy: {
+        type: "string",
+        enum: SORT_FIELDS,
+        description:
+          'Sort results by "relevance" (BM25, title matches rank above description matches), "modified", "created", ' +
+          '"gaDate" or "previewDate". Default: "relevance" when query is given, otherwise "modified". ' +
+          "Features without the chosen date are listed last.",
+      },
+      sortOrder: {
+        type: "string",
+        enum: SORT_ORDERS,
+        description:
+          'Sort direction (default: "desc" = newest / most relevant first).',
+      },
+      highlightStart: {
+        type: "string",
+        description:
+          'Marker inserted before matched terms in highlightedTitle and snippet (default: "**" = Markdown bold). ' +
+          "Results for a query include highlightedTitle and a snippet of the description around the matched terms; description stays a plain summary.",
+        maxLength: MAX_HIGHLIGHT_MARKER_LENGTH,
+      },
+      highlightEnd: {
+        type: "string",
+        description: 'Marker inserted after matched terms (default: "**").',
+        maxLength: MAX_HIGHLIGHT_MARKER_LENGTH,
+      },
+      includeFacets: {
+        type: "boolean",
+        description:
+          "Include facet counts (top values per product, platform, status, cloud instance, release ring and GA month) " +
+          "for all matching results, not just the returned page (default: false). Request them on the first page when you need to summarize or narrow down results; they cost an extra aggregate query.",
+      },
+      autoCorrect: {
+        type: "boolean",
+        description:
+          'When a query finds nothing, retry with likely misspellings corrected (e.g. "Sharepiont" -> "SharePoint") (default: true). ' +
+          "The response includes didYouMean with the corrected query; applied tells whether the results are for it.",
+      },
+      maxTokens: {
+        type: "integer",
+        description:
+          `Approximate response size budget in tokens (default: ${DEFAULT_MAX_TOKENS}, ${MIN_MAX_TOKENS}-${MAX_MAX_TOKENS}). ` +
+          "Results stop being added when the budget is reached; descriptions are trimmed first (descriptionsTrimmed: true). " +
+          "Use get_m365_update for full details.",
+        minimum: MIN_MAX_TOKENS,
+        maximum: MAX_MAX_TOKENS,
+      },
+      cursor: {
+        type: "string",
+        description:
+          "nextCursor from a previous response to get the next page. The cursor keeps the original query and filters " +
+          "(other search parameters are ignored except limit and maxTokens). Pages do not repeat or skip results when data is synced between pages. " +
+          "Relevance-sorted paging covers up to 10,000 results, and its cursors expire 24 hours after the second page.",
+      },
     },
   },
 };
@@ -135,12 +508,6 @@ export function handleSearchM365Roadmap(
   args: unknown,
 ): ToolResponse {
   const params = (args ?? {}) as SearchParams;
-  const query = normalizeOptionalString(params.query);
-  const products = normalizeOptionalStringArray(params.products);
-  const platforms = normalizeOptionalStringArray(params.platforms);
-  const status = normalizeOptionalString(params.status);
-  const dateFrom = normalizeOptionalString(params.dateFrom);
-  const dateTo = normalizeOptionalString(params.dateTo);
 
   if (
     params.limit !== undefined &&
@@ -153,6 +520,49 @@ export function handleSearchM365Roadmap(
     );
   }
 
+  if (
+    params.maxTokens !== undefined &&
+    (!Number.isInteger(params.maxTokens) ||
+      params.maxTokens < MIN_MAX_TOKENS ||
+      params.maxTokens > MAX_MAX_TOKENS)
+  ) {
+    return createErrorResponse(
+      `Invalid parameter: maxTokens (must be an integer between ${MIN_MAX_TOKENS} and ${MAX_MAX_TOKENS})`,
+    );
+  }
+
+  // 全件返す（limit 指定がない場合は上限なし、応答サイズは maxTokens で抑える）
+  const effectiveLimit = params.limit ?? MAX_LIMIT;
+  const maxTokens = params.maxTokens ?? DEFAULT_MAX_TOKENS;
+
+  // 次ページ: 検索条件はカーソルから復元する
+  if (params.cursor !== undefined) {
+    const cursorValue = normalizeOptionalString(params.cursor);
+    const cursor = cursorValue ? decodeSearchCursor(cursorValue) : null;
+    const resolved = cursor ? resolveCursorFilters(cursor.filters) : null;
+    if (!cursor || !resolved || "error" in resolved) {
+      return createErrorResponse(
+        "Invalid parameter: cursor (pass nextCursor from a previous response as is)",
+      );
+    }
+
+    logger.info("search_m365_roadmap called", {
+      cursor: true,
+      limit: effectiveLimit,
+      maxTokens,
+    });
+
+    return runSearch(db, resolved.filters, {
+      limit: effectiveLimit,
+      maxTokens,
+      after: cursor.position,
+      seen: cursor.seen,
+      snapshot: cursor.snapshot,
+      facets: false,
+      spelling: "off",
+    });
+  }
+
   if (
     params.offset !== undefined &&
     (!Number.isInteger(params.offset) || params.offset < 0)
@@ -162,29 +572,156 @@ export function handleSearchM365Roadmap(
     );
   }
 
-  if (dateFrom && !isValidYearMonth(dateFrom)) {
+  if (
+    params.includeFacets !== undefined &&
+    typeof params.includeFacets !== "boolean"
+  ) {
     return createErrorResponse(
-      "Invalid parameter: dateFrom (must be YYYY-MM format)",
+      "Invalid parameter: includeFacets (must be a boolean)",
     );
   }
 
-  if (dateTo && !isValidYearMonth(dateTo)) {
+  if (
+    params.autoCorrect !== undefined &&
+    typeof params.autoCorrect !== "boolean"
+  ) {
     return createErrorResponse(
-      "Invalid parameter: dateTo (must be YYYY-MM format)",
+      "Invalid parameter: autoCorrect (must be a boolean)",
     );
   }
 
-  if (dateFrom && dateTo && dateFrom > dateTo) {
-    return createErrorResponse(
-      "Invalid parameters: dateFrom must be earlier than or equal to dateTo",
-    );
+  const resolved = resolveSearchFilters(params);
+  if ("error" in resolved) {
+    return createErrorResponse(resolved.error);
   }
 
+  const { filters } = resolved;
   const offset = params.offset ?? 0;
 
+  logger.info("search_m365_roadmap called", {
+    query: filters.query,
+    products: filters.products,
+    productsMatch: filters.productsMatch,
+    excludeProducts: filters.excludeProducts,
+    platforms: filters.platforms,
+    platformsMatch: filters.platformsMatch,
+    excludePlatforms: filters.excludePlatforms,
+    status: filters.status,
+    cloudInstances: filters.cloudInstances,
+    releaseRings: filters.releaseRings,
+    availabilityMonth: filters.availabilityMonth,
+    availabilityRing: filters.availabilityRing,
+    limit: effectiveLimit,
+    maxTokens,
+    offset,
+    dateField: filters.dateField,
+    dateFrom: filters.dateFrom,
+    dateTo: filters.dateTo,
+    includeRemoved: params.includeRemoved,
+    sortBy: filters.sortBy,
+    sortOrder: filters.sortOrder,
+  });
+
+  return runSearch(db, filters, {
+    limit: effectiveLimit,
+    maxTokens,
+    offset,
+    facets: params.includeFacets ?? false,
+    spelling: (params.autoCorrect ?? true) ? "correct" : "suggest",
+  });
+}
+
+/**
+ * 検索パラメータのうち検索条件を検証し、相対日付などを展開した検索条件に変換
+ *
+ * 日付・クエリ・フィルタがいずれもない場合は過去 1 ヶ月（Key Highlights モード）とする
+ */
+export function resolveSearchFilters(
+  params: SearchParams,
+): { filters: SearchCursor["filters"] } | { error: string } {
+  const query = normalizeOptionalString(params.query);
+  const products = normalizeOptionalStringArray(params.products);
+  const platforms = normalizeOptionalStringArray(params.platforms);
+  const productsMatch = normalizeOptionalString(params.productsMatch);
+  const platformsMatch = normalizeOptionalString(params.platformsMatch);
+  const excludeProducts = normalizeOptionalStringArray(params.excludeProducts);
+  const excludePlatforms = normalizeOptionalStringArray(
+    params.excludePlatforms,
+  );
+  const status = normalizeOptionalString(params.status);
+  const cloudInstances = normalizeOptionalStringArray(params.cloudInstances);
+  const releaseRings = normalizeOptionalStringArray(params.releaseRings);
+  const availabilityMonth = normalizeOptionalString(params.availabilityMonth);
+  const availabilityRing = normalizeOptionalString(params.availabilityRing);
+  const dateField = normalizeOptionalString(params.dateField);
+  const dateFrom = normalizeOptionalString(params.dateFrom);
+  const dateTo = normalizeOptionalString(params.dateTo);
+  const sortBy = normalizeOptionalString(params.sortBy);
+  const sortOrder = normalizeOptionalString(params.sortOrder);
+
+  if (
+    params.includeRemoved !== undefined &&
+    typeof params.includeRemoved !== "boolean"
+  ) {
+    return { error: "Invalid parameter: includeRemoved (must be a boolean)" };
+  }
+
+  if (sortBy && !SORT_FIELDS.includes(sortBy as M365SortField)) {
+    return {
+      error: `Invalid parameter: sortBy (must be one of ${SORT_FIELDS.join(", ")})`,
+    };
+  }
+
+  if (sortOrder && !SORT_ORDERS.includes(sortOrder as M365SortOrder)) {
+    return { error: 'Invalid parameter: sortOrder (must be "asc" or "desc")' };
+  }
+
+  for (const [key, match] of [
+    ["productsMatch", productsMatch],
+    ["platformsMatch", platformsMatch],
+  ] as const) {
+    if (match && !FILTER_MATCHES.includes(match as M365FilterMatch)) {
+      return { error: `Invalid parameter: ${key} (must be "any" or "all")` };
+    }
+  }
+
+  for (const key of ["highlightStart", "highlightEnd"] as const) {
+    const marker = params[key];
+    if (
+      marker !== undefined &&
+      (typeof marker !== "string" ||
+        marker.length > MAX_HIGHLIGHT_MARKER_LENGTH)
+    ) {
+      return {
+        error: `Invalid parameter: ${key} (must be a string of at most ${MAX_HIGHLIGHT_MARKER_LENGTH} characters)`,
+      };
+    }
+  }
+
+  if (dateField && !DATE_FIELDS.includes(dateField as M365DateField)) {
+    return {
+      error: `Invalid parameter: dateField (must be one of ${DATE_FIELDS.join(", ")})`,
+    };
+  }
+
+  const dateBounds = resolveDateBounds(
+    dateFrom,
+    dateTo,
+    (dateField as M365DateField | undefined) ?? "ga",
+  );
+  if ("error" in dateBounds) {
+    return dateBounds;
+  }
+
+  if (availabilityMonth && !isValidYearMonth(availabilityMonth)) {
+    return {
+      error: "Invalid parameter: availabilityMonth (must be YYYY-MM format)",
+    };
+  }
+
   // 日付指定がない場合は過去1ヶ月をデフォルトにする
-  let effectiveDateFrom = dateFrom;
-  let effectiveDateTo = dateTo;
+  let effectiveDateFrom = dateBounds.dateFrom;
+  let effectiveDateTo = dateBounds.dateTo;
 
   if (
     !effectiveDateFrom &&
@@ -192,7 +729,13 @@ export function handleSearchM365Roadmap(
     !query &&
     !products &&
     !platforms &&
-    !status
+    !excludeProducts &&
+    !excludePlatforms &&
+    !status &&
+    !cloudInstances &&
+    !releaseRings &&
+    !availabilityMonth &&
+    !availabilityRing
   ) {
     // Key Highlights モード: 日付・クエリ・フィルタがない場合は過去1ヶ月、全件返す
     const now = new Date();
@@ -201,52 +744,256 @@ export function handleSearchM365Roadmap(
     effectiveDateTo = `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, "0")}`;
   }
 
-  // 全件返す（limit 指定がない場合は上限なし）
-  const effectiveLimit = params.limit ?? MAX_LIMIT;
-
-  logger.info("search_m365_roadmap called", {
-    query,
-    products,
-    status,
-    limit: effectiveLimit,
-    offset,
-    dateFrom: effectiveDateFrom,
-    dateTo: effectiveDateTo,
-  });
-
-  try {
-    const result = searchFeatures(db, {
+  return {
+    filters: {
       query,
       products,
+      productsMatch: productsMatch as M365FilterMatch | undefined,
+      excludeProducts,
       platforms,
+      platformsMatch: platformsMatch as M365FilterMatch | undefined,
+      excludePlatforms,
       status,
+      cloudInstances,
+      releaseRings,
+      availabilityMonth,
+      availabilityRing,
+      dateField: dateField as M365DateField | undefined,
       dateFrom: effectiveDateFrom,
       dateTo: effectiveDateTo,
-      limit: effectiveLimit,
-      offset,
-    });
+      includeRemoved: params.includeRemoved ?? false,
+      sortBy: sortBy as M365SortField | undefined,
+      sortOrder: sortOrder as M365SortOrder | undefined,
+      highlight: {
+        start: params.highlightStart ?? DEFAULT_HIGHLIGHT_MARKER,
+        end: params.highlightEnd ?? DEFAULT_HIGHLIGHT_MARKER,
+      },
+    },
+  };
+}
 
-    logger.info("search_m365_roadmap completed", {
-      resultCount: result.results.length,
-      totalCount: result.totalCount,
+/**
+ * 検索結果の並びをスナップショットとして保存し、その ID を返す（期限切れのものは削除）
+ */
+function createSearchSnapshot(
+  db: Database.Database,
+  featureIds: number[],
+): string {
+  const id = randomUUID();
+  const now = Date.now();
+  deleteSearchSnapshotsBefore(
+    db,
+    new Date(now - SEARCH_SNAPSHOT_TTL_MS).toISOString(),
+  );
+  insertSearchSnapshot(
+    db,
+    id,
+    featureIds.slice(0, MAX_SNAPSHOT_IDS),
+    new Date(now).toISOString(),
+  );
+  return id;
+}
+
+/**
+ * 検索を実行し、応答サイズの予算内に収まる分の結果と次ページのカーソルを返す
+ */
+function runSearch(
+  db: Database.Database,
+  filters: SearchCursor["filters"],
+  options: {
+    limit: number;
+    maxTokens: number;
+    offset?: number;
+    /** この位置より後の結果を返す（カーソル指定時） */
+    after?: M365SearchPosition;
+    /** 関連度順の 1 ページ目で返した結果を除いて続きを返す（関連度順の 2 ページ目） */
+    seen?: SearchCursor["seen"];
+    /** スナップショットのこの位置以降の結果を返す（関連度順の 3 ページ目以降） */
+    snapshot?: SearchCursor["snapshot"];
+    facets: boolean;
+    /** 0 件時のスペル修正（off: しない / suggest: 提案のみ / correct: 修正して再検索） */
+    spelling: "off" | "suggest" | "correct";
+  },
+): ToolResponse {
+  // 予算に収まりうる件数 + 1 件（続きの有無の判定用）だけ取得する
+  const pageSize = Math.min(
+    options.limit,
+    Math.ceil(options.maxTokens / MIN_ITEM_TOKENS),
+  );
+  const search = (
+    searchFilters: SearchCursor["filters"],
+    featureIds?: number[],
+  ) =>
+    searchFeatures(db, {
+      ...searchFilters,
+      limit: pageSize + 1,
+      offset: options.offset,
+      after: options.after,
+      featureIds,
+      facets: options.facets,
     });
 
+  try {
+    // 関連度順の続き: 結果の並びから今回の分の ID を取り出す。2 ページ目は今の並びから
+    // 1 ページ目で返した結果を除いたもの（続きがあればスナップショットとして保存する）
+    let ordered: { ids: number[]; offset: number; snapshotId?: string } | null =
+      null;
+    if (options.snapshot) {
+      const ids = getSearchSnapshot(db, options.snapshot.id);
+      if (!ids) {
+        return createErrorResponse(
+          "Invalid parameter: cursor (expired; run the search again without cursor)",
+        );
+      }
+      ordered = {
+        ids,
+        offset: options.snapshot.offset,
+        snapshotId: options.snapshot.id,
+      };
+    } else if (options.seen) {
+      const seen = new Set(options.seen.ids);
+      const start = options.seen.offset;
+      ordered = {
+        ids: getSearchResultIds(db, filters)
+          .filter((id) => !seen.has(id))
+          .slice(start, start + MAX_SNAPSHOT_IDS),
+        offset: 0,
+      };
+    }
+    const pageIds = ordered?.ids.slice(
+      ordered.offset,
+      ordered.offset + pageSize + 1,
+    );
+
+    let searched = filters;
+    let result = search(filters, pageIds);
+
+    // 0 件の場合はスペルミスを修正したクエリを提案（correct 時は再検索）
+    let didYouMean:
+      | { query: string; corrections: QueryCorrection[]; applied: boolean }
+      | undefined;
+    if (
+      result.totalCount === 0 &&
+      filters.query &&
+      options.spelling !== "off"
+    ) {
+      const suggestion = suggestQueryCorrection(db, filters.query);
+      if (suggestion) {
+        const correctedFilters = { ...filters, query: suggestion.query };
+        const corrected =
+          options.spelling === "correct" ? search(correctedFilters) : null;
+        if (corrected && corrected.totalCount > 0) {
+          result = corrected;
+          searched = correctedFilters;
+        }
+        didYouMean = {
+          ...suggestion,
+          applied: searched === correctedFilters,
+        };
+        logger.info("search_m365_roadmap suggested correction", {
+          query: filters.query,
+          suggestion: suggestion.query,
+          applied: didYouMean.applied,
+        });
+      }
+    }
+
     // 各結果に参考 URL を追加
-    const resultsWithUrls = result.results.map((item) => ({
+    const resultsWithUrls = result.results.slice(0, pageSize).map((item) => ({
       ...item,
-      roadmapUrl: `https://www.microsoft.com/ja-jp/microsoft-365/roadmap?filters=&searchterms=${item.id}`,
+      roadmapUrl: generateReferenceUrls(item.id).roadmapUrlJa,
     }));
 
-    return createSuccessResponse({
-      results: resultsWithUrls,
+    const response = {
+      results: [] as typeof resultsWithUrls,
       totalCount: result.totalCount,
-      hasMore: offset + result.results.length < result.totalCount,
+      hasMore: false,
+      nextCursor: null as string | null,
+      descriptionsTrimmed: false,
+      facets: result.facets,
+      didYouMean,
       // フィルターヘルプ
       availableFilters: {
         hint: "Read resource m365-roadmap://guide for complete list of available filter values.",
       },
+    };
+
+    // 関連度はページの間の同期で変わるため、関連度順の 1 ページ目は位置ではなく返した結果の ID で続きを取得する
+    const firstRelevancePage =
+      !ordered && options.after === undefined && isRelevanceOrdered(searched);
+
+    // 結果以外の部分（カーソルを含む）を差し引いた残りを結果に割り当てる
+    const sampleCursor = encodeSearchCursor(
+      ordered
+        ? { filters: searched, snapshot: { id: randomUUID(), offset: 0 } }
+        : firstRelevancePage
+          ? {
+              filters: searched,
+              seen: { offset: options.offset ?? 0, ids: [] },
+            }
+          : { filters: searched, position: result.positions[0] ?? [] },
+    );
+    const overhead = measureJson({ ...response, nextCursor: sampleCursor });
+    const fitted = fitResultsToBudget(
+      resultsWithUrls,
+      options.maxTokens * CHARS_PER_TOKEN - overhead,
+      firstRelevancePage ? CURSOR_CHARS_PER_ID : 0,
+    );
+
+    response.results = fitted.items;
+    if (ordered && pageIds) {
+      // 並びの続き: 返さなかった最初の結果（なければ今回の分の末尾）から
+      const next =
+        fitted.items.length < result.results.length
+          ? pageIds.indexOf(result.results[fitted.items.length].id)
+          : pageIds.length;
+      const offset = ordered.offset + next;
+      response.hasMore = offset < ordered.ids.length;
+      response.nextCursor = response.hasMore
+        ? encodeSearchCursor({
+            filters: searched,
+            snapshot: {
+              id: ordered.snapshotId ?? createSearchSnapshot(db, ordered.ids),
+              offset,
+            },
+          })
+        : null;
+    } else {
+      // 1 ページ目は件数から、カーソル指定時は余分に取得した 1 件から続きの有無を判定
+      const offset = (options.offset ?? 0) + fitted.items.length;
+      response.hasMore = options.after
+        ? fitted.items.length < result.results.length
+        : offset < result.totalCount;
+      if (response.hasMore) {
+        response.nextCursor = encodeSearchCursor(
+          firstRelevancePage
+            ? {
+                filters: searched,
+                seen: {
+                  offset: options.offset ?? 0,
+                  ids: fitted.items.map((item) => item.id),
+                },
+              }
+            : {
+                filters: searched,
+                position: result.positions[fitted.items.length - 1],
+              },
+        );
+      }
+    }
+    response.descriptionsTrimmed = fitted.trimmed;
+
+    logger.info("search_m365_roadmap completed", {
+      resultCount: fitted.items.length,
+      totalCount: result.totalCount,
+      descriptionsTrimmed: fitted.trimmed,
     });
+
+    return createSuccessResponse(response);
   } catch (error) {
+    if (error instanceof SearchQueryParseError) {
+      return createErrorResponse(`Invalid parameter: query (${error.message})`);
+    }
     const err = error as Error;
     logger.error("search_m365_roadmap failed", { error: err.message });
     return createErrorResponse(`Search failed: ${err.message}`);
@@ -260,10 +1007,16 @@ export function getGuideData(db: Database.Database): {
   products: string[];
   platforms: string[];
   statuses: string[];
+  cloudInstances: string[];
+  releaseRings: string[];
+  availabilityRings: string[];
 } {
   return {
     products: getAllProducts(db),
     platforms: getAllPlatforms(db),
     statuses: getAllStatuses(db),
+    cloudInstances: getAllCloudInstances(db),
+    releaseRings: getAllReleaseRings(db),
+    availabilityRings: getAllAvailabilityRings(db),
   };
 }
@@ -5,7 +5,11 @@
  */
 
 import type Database from "better-sqlite3";
-import { performSync, getSyncStatus } from "../services/sync.service.js";
+import {
+  performSync,
+  getSyncStatus,
+  verifySync,
+} from "../services/sync.service.js";
 import {
   createSuccessResponse,
   createErrorResponse,
@@ -21,7 +25,8 @@ export const syncM365RoadmapSchema = {
   description:
     "Synchronize M365 Roadmap data from the official API. " +
     "Fetches all features and stores them in the local database. " +
-    "Use this to update the local cache with the latest roadmap data.",
+    "Use this to update the local cache with the latest roadmap data. " +
+    "Set verify=true to fetch the feed and report differences from the local database without writing anything.",
   inputSchema: {
     type: "object",
     properties: {
@@ -29,23 +34,51 @@ export const syncM365RoadmapSchema = {
         type: "boolean",
         description: "Force sync even if data is fresh (default: false).",
       },
+      verify: {
+        type: "boolean",
+        description:
+          "Dry run: report features missing locally, changed upstream, drifted locally or no longer in the feed, without writing (default: false).",
+      },
     },
   },
 };
 
 /**
  * 同期ツールのハンドラ
+ *
+ * @param onProgress 進捗通知（クライアントが progressToken を指定した場合）
  */
 export async function handleSyncM365Roadmap(
   db: Database.Database,
   args: unknown,
+  onProgress?: (processed: number) => void,
 ): Promise<ToolResponse> {
-  const params = (args ?? {}) as { force?: boolean };
+  const params = (args ?? {}) as { force?: boolean; verify?: boolean };
 
   if (params.force !== undefined && typeof params.force !== "boolean") {
     return createErrorResponse("Invalid parameter: force (must be a boolean)");
   }
 
+  if (params.verify !== undefined && typeof params.verify !== "boolean") {
+    return createErrorResponse("Invalid parameter: verify (must be a boolean)");
+  }
+
+  if (params.verify) {
+    logger.info("sync_m365_roadmap called", { verify: true });
+
+    try {
+      const report = await verifySync(db);
+      return createSuccessResponse({
+        message: "Verification completed (no changes written)",
+        ...report,
+      });
+    } catch (error) {
+      const err = error as Error;
+      logger.error("sync_m365_roadmap verify failed", { error: err.message });
+      return createErrorResponse(`Verification failed: ${err.message}`);
+    }
+  }
+
   const forceSync = params.force ?? false;
 
   logger.info("sync_m365_roadmap called", { force: forceSync });
@@ -68,7 +101,9 @@ export async function handleSyncM365Roadmap(
     }
 
     // 同期実行
-    const result = await performSync(db, forceSync);
+    const result = onProgress
+      ? await performSync(db, forceSync, undefined, { onProgress })
+      : await performSync(db, forceSync);
 
     if (!result.success) {
       return createErrorResponse(`Sync failed: ${result.error}`);
@@ -84,6 +119,7 @@ export async function handleSyncM365Roadmap(
       recordsProcessed: result.recordsProcessed,
       recordsInserted: result.recordsInserted,
       recordsUpdated: result.recordsUpdated,
+      recordsRemoved: result.recordsRemoved,
       durationMs: result.durationMs,
     });
   } catch (error) {
@@ -4,22 +4,75 @@ import type Database from "better-sqlite3";
 import { handleSearchM365Roadmap } from "./searchM365Roadmap.js";
 import { handleGetM365Update, getM365UpdateSchema } from "./getM365Update.js";
 import { handleSyncM365Roadmap } from "./syncM365Roadmap.js";
-import { performSync, getSyncStatus } from "../services/sync.service.js";
-import { searchFeatures } from "../database/queries.js";
+import { handleGetM365RoadmapChanges } from "./getM365RoadmapChanges.js";
+import { handleFindRelatedM365Features } from "./findRelatedM365Features.js";
+import {
+  performSync,
+  getSyncStatus,
+  verifySync,
+} from "../services/sync.service.js";
+import {
+  searchFeatures,
+  isRelevanceOrdered,
+  getSearchResultIds,
+  insertSearchSnapshot,
+  getSearchSnapshot,
+  getFeatureChanges,
+  getLatestCompletedSyncRun,
+  type SyncRun,
+} from "../database/queries.js";
+import { parseSearchQuery } from "../database/searchQuery.js";
+import { suggestQueryCorrection } from "../services/spelling.service.js";
+import { findRelatedFeatures } from "../services/related.service.js";
+import { decodeSearchCursor } from "../utils/searchCursor.js";
 
 vi.mock("../services/sync.service.js", () => ({
   performSync: vi.fn(),
   getSyncStatus: vi.fn(),
+  verifySync: vi.fn(),
+}));
+
+vi.mock("../services/spelling.service.js", () => ({
+  suggestQueryCorrection: vi.fn(),
+}));
+
+vi.mock("../services/related.service.js", () => ({
+  findRelatedFeatures: vi.fn(),
 }));
 
 vi.mock("../database/queries.js", () => ({
   searchFeatures: vi.fn(),
+  isRelevanceOrdered: vi.fn(() => false),
+  getSearchResultIds: vi.fn(() => []),
+  insertSearchSnapshot: vi.fn(),
+  getSearchSnapshot: vi.fn(() => null),
+  deleteSearchSnapshotsBefore: vi.fn(() => 0),
   getAllProducts: vi.fn(() => []),
   getAllPlatforms: vi.fn(() => []),
   getAllStatuses: vi.fn(() => []),
   getFeatureById: vi.fn(() => null),
+  getFeatureHistory: vi.fn(() => []),
+  getFeatureChanges: vi.fn(() => []),
+  getLatestCompletedSyncRun: vi.fn(() => null),
 }));
 
+function createSyncRun(overrides: Partial<SyncRun> = {}): SyncRun {
+  return {
+    id: "run-1",
+    trigger: "scheduled",
+    startedAt: "2026-02-28T00:00:00.000Z",
+    endedAt: "2026-02-28T00:01:00.000Z",
+    outcome: "success",
+    httpStatus: 200,
+    recordsInserted: 0,
+    recordsUpdated: 0,
+    recordsRemoved: 0,
+    etag: null,
+    error: null,
+    ...overrides,
+  };
+}
+
 describe("Tool Handlers", () => {
   const mockDb = {} as Database.Database;
 
@@ -51,6 +104,27 @@ describe("Tool Handlers", () => {
     });
   });
 
+  describe("find_related_m365_features", () => {
+    it("不正な id や limit でバリデーションエラーを返すこと", () => {
+      for (const args of [undefined, { id: 0 }, { id: 1, limit: 51 }]) {
+        const response = handleFindRelatedM365Features(mockDb, args);
+
+        expect(response.isError).toBe(true);
+      }
+      expect(findRelatedFeatures).not.toHaveBeenCalled();
+    });
+
+    it("存在しない id でエラーを返すこと", () => {
+      vi.mocked(findRelatedFeatures).mockReturnValue(null);
+
+      const response = handleFindRelatedM365Features(mockDb, { id: 999 });
+
+      expect(response.isError).toBe(true);
+      const payload = JSON.parse(response.content[0].text) as { error: string };
+      expect(payload.error).toContain("Feature not found: 999");
+    });
+  });
+
   describe("search_m365_roadmap", () => {
     it("不正な limit でバリデーションエラーを返すこと", () => {
       const response = handleSearchM365Roadmap(mockDb, { limit: 0 });
@@ -74,6 +148,7 @@ describe("Tool Handlers", () => {
             generalAvailabilityDate: "2026-01",
             previewAvailabilityDate: null,
             modified: "2026-01-01T00:00:00.000Z",
+            removedAt: null,
           },
           {
             id: 2,
@@ -85,9 +160,11 @@ describe("Tool Handlers", () => {
             generalAvailabilityDate: "2026-01",
             previewAvailabilityDate: null,
             modified: "2026-01-01T00:00:00.000Z",
+            removedAt: null,
           },
         ],
         totalCount: 5,
+        positions: [[1], [2]],
       });
 
       const response = handleSearchM365Roadmap(mockDb, {
@@ -113,6 +190,526 @@ describe("Tool Handlers", () => {
       expect(invalidRange.isError).toBe(true);
       expect(searchFeatures).not.toHaveBeenCalled();
     });
+
+    it("クラウドインスタンス・リリースリング・可用性フィルタを検証して渡すこと", () => {
+      const invalid = handleSearchM365Roadmap(mockDb, {
+        availabilityMonth: "2026-3",
+      });
+      expect(invalid.isError).toBe(true);
+      expect(searchFeatures).not.toHaveBeenCalled();
+
+      vi.mocked(searchFeatures).mockReturnValue({
+        results: [],
+        totalCount: 0,
+        positions: [],
+      });
+      handleSearchM365Roadmap(mockDb, {
+        cloudInstances: ["GCC High", " "],
+        releaseRings: ["Preview"],
+        availabilityMonth: "2026-03",
+        availabilityRing: "Targeted Release",
+      });
+
+      expect(searchFeatures).toHaveBeenCalledWith(
+        mockDb,
+        expect.objectContaining({
+          cloudInstances: ["GCC High"],
+          releaseRings: ["Preview"],
+          availabilityMonth: "2026-03",
+          availabilityRing: "Targeted Release",
+          // フィルタ指定時は Key Highlights モード（過去 1 ヶ月）にしない
+          dateFrom: undefined,
+        }),
+      );
+    });
+
+    it("相対表現の日付を範囲に展開し、対象に応じて形式を検証すること", () => {
+      vi.useFakeTimers({ now: new Date("2026-11-15T12:00:00.000Z") });
+      vi.mocked(searchFeatures).mockReturnValue({
+        results: [],
+        totalCount: 0,
+        positions: [],
+      });
+
+      handleSearchM365Roadmap(mockDb, {
+        dateField: "preview",
+        dateFrom: "next-month",
+      });
+      const invalidMonth = handleSearchM365Roadmap(mockDb, {
+        dateFrom: "2026-03-01",
+      });
+      handleSearchM365Roadmap(mockDb, {
+        dateField: "modified",
+        dateFrom: "2026-03-01",
+        dateTo: "this-month",
+      });
+      const invalidField = handleSearchM365Roadmap(mockDb, {
+        dateField: "removed",
+      });
+      vi.useRealTimers();
+
+      expect(invalidMonth.isError).toBe(true);
+      expect(invalidField.isError).toBe(true);
+      expect(
+        vi
+          .mocked(searchFeatures)
+          .mock.calls.map(([, filters]) => [
+            filters.dateField,
+            filters.dateFrom,
+            filters.dateTo,
+          ]),
+      ).toEqual([
+        ["preview", "2026-12-01", "2026-12-31"],
+        ["modified", "2026-03-01", "2026-11-30"],
+      ]);
+    });
+
+    it("includeFacets を指定したときだけファセットを集計してレスポンスに含めること", () => {
+      const facets = {
+        products: [{ value: "Microsoft Teams", count: 3 }],
+        platforms: [],
+        statuses: [{ value: "Rolling out", count: 3 }],
+        cloudInstances: [],
+        releaseRings: [],
+        gaMonths: [],
+      };
+      vi.mocked(searchFeatures).mockReturnValue({
+        results: [],
+        totalCount: 3,
+        positions: [],
+        facets,
+      });
+
+      const response = handleSearchM365Roadmap(mockDb, {
+        query: "Teams",
+        includeFacets: true,
+      });
+      handleSearchM365Roadmap(mockDb, { query: "Teams" });
+
+      expect(JSON.parse(response.content[0].text).facets).toEqual(facets);
+      expect(
+        vi.mocked(searchFeatures).mock.calls.map((c) => c[1].facets),
+      ).toEqual([true, false]);
+    });
+
+    it("sortBy / sortOrder を検証して searchFeatures に渡すこと", () => {
+      const invalid = handleSearchM365Roadmap(mockDb, { sortBy: "score" });
+      expect(invalid.isError).toBe(true);
+      expect(searchFeatures).not.toHaveBeenCalled();
+
+      vi.mocked(searchFeatures).mockReturnValue({
+        results: [],
+        totalCount: 0,
+        positions: [],
+      });
+      handleSearchM365Roadmap(mockDb, {
+        query: "Copilot",
+        sortBy: "gaDate",
+        sortOrder: "asc",
+      });
+
+      expect(searchFeatures).toHaveBeenCalledWith(
+        mockDb,
+        expect.objectContaining({ sortBy: "gaDate", sortOrder: "asc" }),
+      );
+    });
+
+    it("検索構文の誤りをツールエラーとして返すこと", () => {
+      vi.mocked(searchFeatures).mockImplementation(() => {
+        parseSearchQuery('"shared channels');
+        return { results: [], totalCount: 0, positions: [] };
+      });
+
+      const response = handleSearchM365Roadmap(mockDb, {
+        query: '"shared channels',
+      });
+
+      expect(response.isError).toBe(true);
+      expect(response.content[0].text).toContain(
+        "Invalid parameter: query (Unterminated quoted phrase",
+      );
+    });
+
+    it("ハイライトのマーカーを検証し、未指定時は Markdown の太字を使うこと", () => {
+      const invalid = handleSearchM365Roadmap(mockDb, {
+        highlightStart: "<".repeat(17),
+      });
+      expect(invalid.isError).toBe(true);
+      expect(searchFeatures).not.toHaveBeenCalled();
+
+      vi.mocked(searchFeatures).mockReturnValue({
+        results: [],
+        totalCount: 0,
+        positions: [],
+      });
+      handleSearchM365Roadmap(mockDb, { query: "Copilot" });
+      handleSearchM365Roadmap(mockDb, {
+        query: "Copilot",
+        highlightStart: "<mark>",
+        highlightEnd: "</mark>",
+      });
+
+      expect(
+        vi.mocked(searchFeatures).mock.calls.map((c) => c[1].highlight),
+      ).toEqual([
+        { start: "**", end: "**" },
+        { start: "<mark>", end: "</mark>" },
+      ]);
+    });
+
+    it("productsMatch / platformsMatch を検証して渡すこと", () => {
+      const invalid = handleSearchM365Roadmap(mockDb, {
+        products: ["Outlook"],
+        productsMatch: "both",
+      });
+      expect(invalid.isError).toBe(true);
+      expect(invalid.content[0].text).toContain(
+        "Invalid parameter: productsMatch",
+      );
+      expect(searchFeatures).not.toHaveBeenCalled();
+
+      vi.mocked(searchFeatures).mockReturnValue({
+        results: [],
+        totalCount: 0,
+        positions: [],
+      });
+      handleSearchM365Roadmap(mockDb, {
+        platforms: ["iOS", "Android"],
+        platformsMatch: "all",
+        excludeProducts: ["Outlook"],
+      });
+
+      expect(searchFeatures).toHaveBeenCalledWith(
+        mockDb,
+        expect.objectContaining({
+          platforms: ["iOS", "Android"],
+          platformsMatch: "all",
+          excludeProducts: ["Outlook"],
+        }),
+      );
+    });
+
+    it("応答サイズの予算に達したら説明を切り詰めて打ち切り、カーソルを返すこと", () => {
+      const items = Array.from({ length: 40 }, (_, i) => ({
+        id: i + 1,
+        title: `Item ${i + 1}`,
+        description: "x".repeat(200),
+        status: "Launched",
+        products: ["Microsoft Teams"],
+        platforms: ["Web"],
+        generalAvailabilityDate: "2026-01",
+        previewAvailabilityDate: null,
+        modified: "2026-01-01T00:00:00.000Z",
+        removedAt: null,
+      }));
+      vi.mocked(searchFeatures).mockReturnValue({
+        results: items,
+        totalCount: 100,
+        positions: items.map((item) => [item.id]),
+      });
+
+      const response = handleSearchM365Roadmap(mockDb, {
+        query: "Teams",
+        maxTokens: 2000,
+      });
+      const payload = JSON.parse(response.content[0].text) as {
+        results: { id: number; description: string }[];
+        hasMore: boolean;
+        nextCursor: string;
+        descriptionsTrimmed: boolean;
+      };
+
+      expect(response.content[0].text.length).toBeLessThanOrEqual(2000 * 4);
+      expect(payload.results.length).toBeLessThan(40);
+      expect(
+        payload.results.every((item) => item.description.length === 83),
+      ).toBe(true);
+      expect(payload.descriptionsTrimmed).toBe(true);
+      expect(payload.hasMore).toBe(true);
+
+      const cursor = decodeSearchCursor(payload.nextCursor);
+      expect(cursor?.filters.query).toBe("Teams");
+      expect(cursor?.position).toEqual([payload.results.at(-1)?.id]);
+    });
+
+    it("カーソルの検索条件と位置で続きを検索すること", () => {
+      vi.mocked(searchFeatures).mockReturnValue({
+        results: [],
+        totalCount: 0,
+        positions: [],
+      });
+      handleSearchM365Roadmap(mockDb, {
+        query: "Teams",
+        products: ["Microsoft Teams"],
+      });
+      const first = vi.mocked(searchFeatures).mock.calls[0][1];
+
+      const cursor = Buffer.from(
+        JSON.stringify({
+          v: 3,
+          filters: { query: "Teams", products: ["Microsoft Teams"] },
+          position: [-1.5, "2026-01-01T00:00:00.000Z", 3],
+        }),
+      ).toString("base64url");
+      handleSearchM365Roadmap(mockDb, { cursor, query: "ignored", limit: 5 });
+
+      expect(first).toMatchObject({ facets: false, after: undefined });
+      expect(vi.mocked(searchFeatures).mock.calls[1][1]).toMatchObject({
+        query: "Teams",
+        products: ["Microsoft Teams"],
+        after: [-1.5, "2026-01-01T00:00:00.000Z", 3],
+        limit: 6,
+        facets: false,
+      });
+    });
+
+    it("不正なカーソルと maxTokens でバリデーションエラーを返すこと", () => {
+      const invalidCursor = handleSearchM365Roadmap(mockDb, {
+        cursor: "broken",
+      });
+      const tamperedCursor = handleSearchM365Roadmap(mockDb, {
+        cursor: Buffer.from(
+          JSON.stringify({ v: 3, filters: { sortBy: "id" }, position: [1] }),
+        ).toString("base64url"),
+      });
+      const invalidBudget = handleSearchM365Roadmap(mockDb, { maxTokens: 10 });
+
+      expect(invalidCursor.content[0].text).toContain(
+        "Invalid parameter: cursor",
+      );
+      expect(tamperedCursor.isError).toBe(true);
+      expect(invalidBudget.content[0].text).toContain(
+        "Invalid parameter: maxTokens",
+      );
+      expect(searchFeatures).not.toHaveBeenCalled();
+    });
+
+    it("カーソルの検索条件も新規の検索と同じ検証にかけること", () => {
+      const encode = (filters: Record<string, unknown>) =>
+        Buffer.from(JSON.stringify({ v: 3, filters, position: [1] })).toString(
+          "base64url",
+        );
+
+      for (const filters of [
+        { dateFrom: "someday" },
+        { dateField: "ga", dateFrom: "2026-06", dateTo: "2026-01" },
+        { query: "Teams", highlight: { start: "x".repeat(17), end: "**" } },
+        { availabilityMonth: "2026-3" },
+      ]) {
+        const response = handleSearchM365Roadmap(mockDb, {
+          cursor: encode(filters),
+        });
+
+        expect(response.content[0].text).toContain("Invalid parameter: cursor");
+      }
+      expect(searchFeatures).not.toHaveBeenCalled();
+
+      // 検索条件以外の値は引き継がない
+      vi.mocked(searchFeatures).mockReturnValue({
+        results: [],
+        totalCount: 0,
+        positions: [],
+      });
+      handleSearchM365Roadmap(mockDb, {
+        cursor: encode({ query: "Teams", featureIds: [1], includeFacets: 1 }),
+      });
+      expect(vi.mocked(searchFeatures).mock.calls[0][1]).toMatchObject({
+        query: "Teams",
+        featureIds: undefined,
+        facets: false,
+      });
+    });
+
+    it("相対日付を展開した検索条件のカーソルで続きを検索できること", () => {
+      const items = [1, 2].map((id) => ({
+        id,
+        title: `Item ${id}`,
+        description: null,
+        status: "Launched",
+        products: [],
+        platforms: [],
+        generalAvailabilityDate: "2026-11",
+        previewAvailabilityDate: null,
+        modified: "2026-01-01T00:00:00.000Z",
+        removedAt: null,
+      }));
+      vi.mocked(searchFeatures).mockReturnValue({
+        results: items,
+        totalCount: 5,
+        positions: items.map((item) => [item.id]),
+      });
+      const first = JSON.parse(
+        handleSearchM365Roadmap(mockDb, {
+          dateFrom: "this-quarter",
+          sortBy: "gaDate",
+          limit: 1,
+        }).content[0].text,
+      ) as { nextCursor: string };
+
+      const next = handleSearchM365Roadmap(mockDb, {
+        cursor: first.nextCursor,
+      });
+
+      expect(next.isError).toBeUndefined();
+      expect(
+        vi.mocked(searchFeatures).mock.calls[1][1].dateFrom?.slice(0, 7),
+      ).toBe(vi.mocked(searchFeatures).mock.calls[0][1].dateFrom?.slice(0, 7));
+    });
+
+    it("関連度順では 1 ページ目で返した結果を除いた並びのスナップショットから続きを検索すること", () => {
+      const item = (id: number) => ({
+        id,
+        title: `Item ${id}`,
+        description: null,
+        status: "Launched",
+        products: [],
+        platforms: [],
+        generalAvailabilityDate: null,
+        previewAvailabilityDate: null,
+        modified: "2026-01-01T00:00:00.000Z",
+        removedAt: null,
+      });
+      const page = (ids: number[], totalCount: number) => ({
+        results: ids.map(item),
+        totalCount,
+        positions: ids.map((id) => [id]),
+      });
+      const search = (args: Record<string, unknown>) =>
+        JSON.parse(handleSearchM365Roadmap(mockDb, args).content[0].text) as {
+          results: { id: number }[];
+          hasMore: boolean;
+          nextCursor: string | null;
+        };
+      vi.mocked(isRelevanceOrdered).mockReturnValue(true);
+
+      // 1 ページ目: 返した結果の ID をカーソルに持ち、スナップショットは作らない
+      vi.mocked(searchFeatures).mockReturnValue(page([3, 1, 4], 5));
+      const first = search({ query: "Teams", limit: 2 });
+
+      expect(first.hasMore).toBe(true);
+      expect(decodeSearchCursor(first.nextCursor ?? "")).toEqual({
+        filters: expect.objectContaining({ query: "Teams" }),
+        seen: { offset: 0, ids: [3, 1] },
+      });
+      expect(getSearchResultIds).not.toHaveBeenCalled();
+      expect(insertSearchSnapshot).not.toHaveBeenCalled();
+
+      // 2 ページ目: 今の並び（7 は同期で追加）から返した結果を除き、続きの分をスナップショットに保存
+      vi.mocked(getSearchResultIds).mockReturnValue([7, 3, 1, 4, 5, 9]);
+      vi.mocked(searchFeatures).mockReturnValue(page([7, 4, 5], 6));
+      const second = search({ cursor: first.nextCursor, limit: 2 });
+
+      expect(vi.mocked(searchFeatures).mock.calls.at(-1)?.[1]).toMatchObject({
+        featureIds: [7, 4, 5],
+      });
+      expect(second.results.map((r) => r.id)).toEqual([7, 4]);
+      const [, snapshotId, snapshotIds] =
+        vi.mocked(insertSearchSnapshot).mock.calls[0];
+      expect(snapshotIds).toEqual([7, 4, 5, 9]);
+      expect(decodeSearchCursor(second.nextCursor ?? "")).toMatchObject({
+        snapshot: { id: snapshotId, offset: 2 },
+      });
+
+      // 3 ページ目: スナップショットの続き（5 は同期で条件に一致しなくなった）
+      vi.mocked(getSearchSnapshot).mockReturnValue([7, 4, 5, 9]);
+      vi.mocked(searchFeatures).mockReturnValue(page([9], 5));
+      const third = search({ cursor: second.nextCursor, limit: 2 });
+
+      expect(vi.mocked(searchFeatures).mock.calls.at(-1)?.[1]).toMatchObject({
+        featureIds: [5, 9],
+        after: undefined,
+      });
+      expect(third.results.map((r) => r.id)).toEqual([9]);
+      expect(third.hasMore).toBe(false);
+      expect(insertSearchSnapshot).toHaveBeenCalledTimes(1);
+    });
+
+    it("期限切れのスナップショットのカーソルはエラーを返すこと", () => {
+      const cursor = Buffer.from(
+        JSON.stringify({
+          v: 3,
+          filters: { query: "Teams" },
+          snapshot: { id: "expired", offset: 10 },
+        }),
+      ).toString("base64url");
+
+      const response = handleSearchM365Roadmap(mockDb, { cursor });
+
+      expect(response.isError).toBe(true);
+      expect(response.content[0].text).toContain("expired");
+      expect(searchFeatures).not.toHaveBeenCalled();
+    });
+
+    it("0 件の場合はスペルを修正したクエリで再検索すること", () => {
+      vi.mocked(searchFeatures).mockImplementation((_db, filters) =>
+        filters.query === "SharePoint"
+          ? {
+              results: [
+                {
+                  id: 1,
+                  title: "SharePoint",
+                  description: "",
+                  status: "Launched",
+                  products: [],
+                  platforms: [],
+                  generalAvailabilityDate: null,
+                  previewAvailabilityDate: null,
+                  modified: "2026-01-01T00:00:00.000Z",
+                  removedAt: null,
+                },
+              ],
+              totalCount: 1,
+              positions: [[1]],
+            }
+          : { results: [], totalCount: 0, positions: [] },
+      );
+      vi.mocked(suggestQueryCorrection).mockReturnValue({
+        query: "SharePoint",
+        corrections: [{ from: "Sharepiont", to: "SharePoint" }],
+      });
+
+      const response = handleSearchM365Roadmap(mockDb, {
+        query: "Sharepiont",
+      });
+      const payload = JSON.parse(response.content[0].text) as {
+        totalCount: number;
+        didYouMean: { query: string; applied: boolean };
+      };
+
+      expect(payload.totalCount).toBe(1);
+      expect(payload.didYouMean).toMatchObject({
+        query: "SharePoint",
+        applied: true,
+      });
+    });
+
+    it("autoCorrect が false の場合は修正候補だけを返すこと", () => {
+      vi.mocked(searchFeatures).mockReturnValue({
+        results: [],
+        totalCount: 0,
+        positions: [],
+      });
+      vi.mocked(suggestQueryCorrection).mockReturnValue({
+        query: "SharePoint",
+        corrections: [{ from: "Sharepiont", to: "SharePoint" }],
+      });
+
+      const response = handleSearchM365Roadmap(mockDb, {
+        query: "Sharepiont",
+        autoCorrect: false,
+      });
+      const payload = JSON.parse(response.content[0].text) as {
+        totalCount: number;
+        didYouMean: { query: string; applied: boolean };
+      };
+
+      expect(searchFeatures).toHaveBeenCalledTimes(1);
+      expect(payload.totalCount).toBe(0);
+      expect(payload.didYouMean).toMatchObject({
+        query: "SharePoint",
+        applied: false,
+      });
+    });
   });
 
   describe("sync_m365_roadmap", () => {
@@ -139,6 +736,7 @@ describe("Tool Handlers", () => {
         recordsProcessed: 10,
         recordsInserted: 1,
         recordsUpdated: 9,
+        recordsRemoved: 0,
         durationMs: 25,
       });
 
@@ -159,8 +757,128 @@ describe("Tool Handlers", () => {
       const response = await handleSyncM365Roadmap(mockDb, undefined);
 
       expect(performSync).not.toHaveBeenCalled();
-      const payload = JSON.parse(response.content[0].text) as { message: string };
+      const payload = JSON.parse(response.content[0].text) as {
+        message: string;
+      };
       expect(payload.message).toContain("sync skipped");
     });
+
+    it("verify=true では同期せず差分レポートを返すこと", async () => {
+      vi.mocked(verifySync).mockResolvedValue({
+        feedCount: 2,
+        localCount: 2,
+        unchanged: 1,
+        missingLocally: [],
+        changedUpstream: [
+          { id: 1, title: "Shared channels", fields: ["status"] },
+        ],
+        localDrift: [],
+        staleHashes: [],
+        notInFeed: [],
+      });
+
+      const response = await handleSyncM365Roadmap(mockDb, { verify: true });
+
+      expect(performSync).not.toHaveBeenCalled();
+      const payload = JSON.parse(response.content[0].text) as {
+        changedUpstream: Array<{ id: number }>;
+      };
+      expect(payload.changedUpstream[0].id).toBe(1);
+    });
+  });
+
+  describe("get_m365_roadmap_changes", () => {
+    it("不正な since でバリデーションエラーを返すこと", () => {
+      const response = handleGetM365RoadmapChanges(mockDb, {
+        since: "last week",
+      });
+
+      expect(response.isError).toBe(true);
+      const payload = JSON.parse(response.content[0].text) as { error: string };
+      expect(payload.error).toContain("Invalid parameter: since");
+      expect(getFeatureChanges).not.toHaveBeenCalled();
+    });
+
+    it("since 未指定時は直近の同期の変更を返すこと", () => {
+      vi.mocked(getLatestCompletedSyncRun).mockReturnValue(
+        createSyncRun({ outcome: "success", recordsInserted: 1 }),
+      );
+      vi.mocked(getFeatureChanges).mockReturnValue([
+        {
+          featureId: 1,
+          syncRun: "2026-02-28T00:00:00.000Z",
+          changeType: "changed",
+          field: "status",
+          oldValue: "In development",
+          newValue: "Rolling out",
+          changedAt: "2026-02-28T00:00:01.000Z",
+          title: "Item 1",
+          status: "Rolling out",
+        },
+        {
+          featureId: 2,
+          syncRun: "2026-02-28T00:00:00.000Z",
+          changeType: "added",
+          field: null,
+          oldValue: null,
+          newValue: null,
+          changedAt: "2026-02-28T00:00:01.000Z",
+          title: "Item 2",
+          status: "In development",
+        },
+      ]);
+
+      const response = handleGetM365RoadmapChanges(mockDb, {
+        products: ["Microsoft Teams"],
+      });
+
+      expect(getFeatureChanges).toHaveBeenCalledWith(
+        mockDb,
+        expect.objectContaining({
+          syncRun: "2026-02-28T00:00:00.000Z",
+          products: ["Microsoft Teams"],
+        }),
+      );
+      const payload = JSON.parse(response.content[0].text) as {
+        added: Array<{ id: number }>;
+        changed: Array<{ id: number; changedFields: string[] }>;
+        statusTransitions: Array<{ from: string; to: string }>;
+      };
+      expect(payload.added.map((a) => a.id)).toEqual([2]);
+      expect(payload.changed[0].changedFields).toEqual(["status"]);
+      expect(payload.statusTransitions[0]).toMatchObject({
+        from: "In development",
+        to: "Rolling out",
+      });
+    });
+
+    it("最後に完了した同期が何も記録していなければ空の結果を返すこと", () => {
+      vi.mocked(getLatestCompletedSyncRun).mockReturnValue(
+        createSyncRun({ outcome: "not_modified", httpStatus: 304 }),
+      );
+      vi.mocked(getFeatureChanges).mockReturnValue([]);
+
+      const response = handleGetM365RoadmapChanges(mockDb, {});
+
+      expect(getFeatureChanges).toHaveBeenCalledWith(
+        mockDb,
+        expect.objectContaining({ syncRun: "2026-02-28T00:00:00.000Z" }),
+      );
+      const payload = JSON.parse(response.content[0].text) as {
+        syncedAt: string;
+        totals: Record<string, number>;
+      };
+      expect(payload.syncedAt).toBe("2026-02-28T00:01:00.000Z");
+      expect(Object.values(payload.totals)).toEqual([0, 0, 0, 0, 0]);
+    });
+
+    it("完了した同期がなければ同期を促すこと", () => {
+      const response = handleGetM365RoadmapChanges(mockDb, {});
+
+      expect(JSON.parse(response.content[0].text).message).toContain(
+        "Run sync_m365_roadmap first",
+      );
+      expect(getFeatureChanges).not.toHaveBeenCalled();
+    });
   });
 });
@@ -0,0 +1,39 @@
+/**
+ * フィーチャーのコンテンツハッシュ
+ *
+ * メインレコードと関連データ（製品・プラットフォーム・クラウドインスタンス・
+ * リリースリング・可用性）を正規化して SHA-256 を計算する。
+ * 配列の順序はハッシュに影響しない。
+ */
+
+import { createHash } from "crypto";
+import type { M365RoadmapFeature } from "../api/types.js";
+
+function sortedStrings(values: string[] | undefined): string[] {
+  return [...(values || [])].sort();
+}
+
+/**
+ * コンテンツハッシュを計算
+ */
+export function computeFeatureContentHash(feature: M365RoadmapFeature): string {
+  const canonical = {
+    id: feature.id,
+    title: feature.title,
+    description: feature.description ?? null,
+    status: feature.status,
+    generalAvailabilityDate: feature.generalAvailabilityDate ?? null,
+    previewAvailabilityDate: feature.previewAvailabilityDate ?? null,
+    created: feature.created,
+    modified: feature.modified,
+    products: sortedStrings(feature.products),
+    platforms: sortedStrings(feature.platforms),
+    cloudInstances: sortedStrings(feature.cloudInstances),
+    releaseRings: sortedStrings(feature.releaseRings),
+    availabilities: (feature.availabilities || [])
+      .map((a) => [a.ring, a.year, a.month] as const)
+      .sort((a, b) => a.join("|").localeCompare(b.join("|"))),
+  };
+
+  return createHash("sha256").update(JSON.stringify(canonical)).digest("hex");
+}
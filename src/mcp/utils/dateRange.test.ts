@@ -0,0 +1,28 @@
+import { describe, it, expect } from "vitest";
+import { resolveRelativeDateRange } from "./dateRange.js";
+
+const NOW = new Date("2026-11-15T12:00:00.000Z");
+
+describe("resolveRelativeDateRange", () => {
+  it.each([
+    ["today", "2026-11-15", "2026-11-15"],
+    ["this-month", "2026-11-01", "2026-11-30"],
+    ["next-month", "2026-12-01", "2026-12-31"],
+    ["last-month", "2026-10-01", "2026-10-31"],
+    ["this-quarter", "2026-10-01", "2026-12-31"],
+    ["Next-Quarter", "2027-01-01", "2027-03-31"],
+    ["last-year", "2025-01-01", "2025-12-31"],
+    ["next-3-months", "2026-12-01", "2027-02-28"],
+    ["last-2-months", "2026-09-01", "2026-10-31"],
+    ["last-30-days", "2026-10-16", "2026-11-15"],
+    ["next-7-days", "2026-11-15", "2026-11-22"],
+  ])("%s を日付範囲に変換すること", (expression, from, to) => {
+    expect(resolveRelativeDateRange(expression, NOW)).toEqual({ from, to });
+  });
+
+  it("相対表現でない値や範囲外の数は null を返すこと", () => {
+    expect(resolveRelativeDateRange("2026-03", NOW)).toBeNull();
+    expect(resolveRelativeDateRange("next-0-months", NOW)).toBeNull();
+    expect(resolveRelativeDateRange("last-week", NOW)).toBeNull();
+  });
+});
@@ -0,0 +1,100 @@
+/**
+ * 日付範囲ユーティリティ
+ *
+ * 検索の dateFrom / dateTo に指定する相対表現（例: "next-3-months"）を
+ * 具体的な日付範囲に変換する。計算は UTC で行う
+ */
+
+/**
+ * 日付範囲（両端を含む、YYYY-MM-DD 形式）
+ */
+export interface DateRange {
+  from: string;
+  to: string;
+}
+
+/** 相対表現の例（エラーメッセージ・ツール説明用） */
+export const RELATIVE_DATE_EXAMPLES = [
+  "today",
+  "this-month",
+  "next-month",
+  "last-quarter",
+  "this-year",
+  "next-3-months",
+  "last-30-days",
+];
+
+/** 相対表現で指定できる最大の日数・月数 */
+const MAX_RELATIVE_AMOUNT = 999;
+
+function formatDate(time: number): string {
+  return new Date(time).toISOString().slice(0, 10);
+}
+
+/**
+ * year / month（0 始まり、範囲外は繰り上げ・繰り下げ）から始まる months か月分の範囲
+ */
+function monthRange(year: number, month: number, months: number): DateRange {
+  return {
+    from: formatDate(Date.UTC(year, month, 1)),
+    to: formatDate(Date.UTC(year, month + months, 0)),
+  };
+}
+
+/**
+ * 相対表現を日付範囲に変換
+ *
+ * - `today`
+ * - `this-` / `last-` / `next-` + `month` / `quarter` / `year`: 暦の月・四半期・年
+ * - `last-N-days` / `next-N-days`: 今日から N 日前まで / N 日後まで（今日を含む）
+ * - `last-N-months` / `next-N-months`: 今月を含まない直近 N か月 / 翌月からの N か月
+ *
+ * @returns 相対表現でない場合は null
+ */
+export function resolveRelativeDateRange(
+  expression: string,
+  now: Date = new Date(),
+): DateRange | null {
+  const value = expression.trim().toLowerCase();
+  const year = now.getUTCFullYear();
+  const month = now.getUTCMonth();
+  const today = Date.UTC(year, month, now.getUTCDate());
+
+  if (value === "today") {
+    return { from: formatDate(today), to: formatDate(today) };
+  }
+
+  const period = /^(this|last|next)-(month|quarter|year)$/.exec(value);
+  if (period) {
+    const offset = { this: 0, last: -1, next: 1 }[period[1] as "this"];
+    switch (period[2]) {
+      case "month":
+        return monthRange(year, month + offset, 1);
+      case "quarter":
+        return monthRange(year, month - (month % 3) + offset * 3, 3);
+      default:
+        return monthRange(year + offset, 0, 12);
+    }
+  }
+
+  const rolling = /^(last|next)-(\d+)-(days|months)$/.exec(value);
+  if (rolling) {
+    const amount = Number(rolling[2]);
+    if (amount < 1 || amount > MAX_RELATIVE_AMOUNT) {
+      return null;
+    }
+    const past = rolling[1] === "last";
+
+    if (rolling[3] === "days") {
+      const day = 24 * 60 * 60 * 1000;
+      return past
+        ? { from: formatDate(today - amount * day), to: formatDate(today) }
+        : { from: formatDate(today), to: formatDate(today + amount * day) };
+    }
+    return past
+      ? monthRange(year, month - amount, amount)
+      : monthRange(year, month + 1, amount);
+  }
+
+  return null;
+}
@@ -0,0 +1,60 @@
+/**
+ * 月の表現変換ユーティリティ
+ *
+ * API の availabilities は月を英語名（例: "February"）で返すため、
+ * YYYY-MM 形式との相互変換に使用する
+ */
+
+/** 英語の月名（1 月始まり） */
+export const MONTH_NAMES = [
+  "January",
+  "February",
+  "March",
+  "April",
+  "May",
+  "June",
+  "July",
+  "August",
+  "September",
+  "October",
+  "November",
+  "December",
+] as const;
+
+/**
+ * 月名を月番号（1-12）に変換
+ *
+ * @returns 不明な月名の場合は null
+ */
+export function monthNameToNumber(name: string): number | null {
+  const normalized = name.trim().toLowerCase();
+  const index = MONTH_NAMES.findIndex(
+    (m) =>
+      m.toLowerCase() === normalized ||
+      m.slice(0, 3).toLowerCase() === normalized,
+  );
+  return index >= 0 ? index + 1 : null;
+}
+
+/**
+ * YYYY-MM（以降の日付部分は無視）を通算月数に変換
+ *
+ * @returns 解釈できない場合は null
+ */
+export function yearMonthToIndex(value: string | null): number | null {
+  if (!value) {
+    return null;
+  }
+
+  const match = /^(\d{4})-(\d{2})/.exec(value);
+  if (!match) {
+    return null;
+  }
+
+  const month = Number(match[2]);
+  if (month < 1 || month > 12) {
+    return null;
+  }
+
+  return Number(match[1]) * 12 + (month - 1);
+}
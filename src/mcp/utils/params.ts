@@ -0,0 +1,33 @@
+/**
+ * ツール引数の正規化ユーティリティ
+ */
+
+/**
+ * 文字列引数を正規化（空文字・非文字列は undefined）
+ */
+export function normalizeOptionalString(value: unknown): string | undefined {
+  if (typeof value !== "string") {
+    return undefined;
+  }
+
+  const trimmed = value.trim();
+  return trimmed.length > 0 ? trimmed : undefined;
+}
+
+/**
+ * 文字列配列引数を正規化（空要素を除去し、空配列は undefined）
+ */
+export function normalizeOptionalStringArray(
+  value: unknown,
+): string[] | undefined {
+  if (!Array.isArray(value)) {
+    return undefined;
+  }
+
+  const normalized = value
+    .filter((item): item is string => typeof item === "string")
+    .map((item) => item.trim())
+    .filter((item) => item.length > 0);
+
+  return normalized.length > 0 ? normalized : undefined;
+}
@@ -0,0 +1,25 @@
+/**
+ * 参考 URL ユーティリティ
+ *
+ * フィーチャーの M365 Roadmap ページと MS Learn 検索の URL を生成する。
+ * 応答に含める URL の形式とロケールはここで管理する
+ */
+
+/**
+ * M365 Roadmap の参考 URL を生成
+ *
+ * 既定のリンクには日本語版（*Ja）を使用する
+ */
+export function generateReferenceUrls(id: number): {
+  roadmapUrl: string;
+  roadmapUrlJa: string;
+  learnSearchUrl: string;
+  learnSearchUrlJa: string;
+} {
+  return {
+    roadmapUrl: `https://www.microsoft.com/en-us/microsoft-365/roadmap?filters=&searchterms=${id}`,
+    roadmapUrlJa: `https://www.microsoft.com/ja-jp/microsoft-365/roadmap?filters=&searchterms=${id}`,
+    learnSearchUrl: `https://learn.microsoft.com/en-us/search/?terms=${id}`,
+    learnSearchUrlJa: `https://learn.microsoft.com/ja-jp/search/?terms=${id}`,
+  };
+}
@@ -0,0 +1,79 @@
+import { describe, it, expect } from "vitest";
+import { decodeSearchCursor, encodeSearchCursor } from "./searchCursor.js";
+
+describe("searchCursor", () => {
+  it("エンコードしたカーソルを元の内容にデコードできること", () => {
+    const cursor = {
+      filters: { query: "会議 録画", products: ["Microsoft Teams"] },
+      position: [-1.25, "2026-01-01T00:00:00.000Z", 42],
+    };
+
+    const encoded = encodeSearchCursor(cursor);
+
+    expect(encoded).toMatch(/^[A-Za-z0-9_-]+$/);
+    expect(decodeSearchCursor(encoded)).toEqual(cursor);
+  });
+
+  it("スナップショットのカーソルをデコードできること", () => {
+    const cursor = {
+      filters: { query: "Copilot" },
+      snapshot: { id: "0b7c7d1e-5c3c-4f0e-9d6a-2f1e7a1c9b10", offset: 20 },
+    };
+
+    expect(decodeSearchCursor(encodeSearchCursor(cursor))).toEqual(cursor);
+    expect(
+      decodeSearchCursor(
+        encodeSearchCursor({
+          filters: { query: "Copilot" },
+          seen: { offset: 0, ids: [3, 1] },
+        }),
+      ),
+    ).toEqual({
+      filters: { query: "Copilot" },
+      seen: { offset: 0, ids: [3, 1] },
+    });
+  });
+
+  it("不正な文字列には null を返すこと", () => {
+    expect(decodeSearchCursor("not a cursor")).toBeNull();
+    expect(
+      decodeSearchCursor(Buffer.from("[1, 2]").toString("base64url")),
+    ).toBeNull();
+  });
+
+  it("バージョンや位置・スナップショットの形式が異なる場合は null を返すこと", () => {
+    const encode = (data: unknown) =>
+      Buffer.from(JSON.stringify(data)).toString("base64url");
+
+    expect(
+      decodeSearchCursor(encode({ v: 0, filters: {}, position: [1] })),
+    ).toBeNull();
+    expect(
+      decodeSearchCursor(encode({ v: 2, filters: {}, position: [1] })),
+    ).toBeNull();
+    expect(
+      decodeSearchCursor(encode({ v: 3, filters: {}, position: [{}] })),
+    ).toBeNull();
+    expect(
+      decodeSearchCursor(
+        encode({ v: 3, filters: {}, snapshot: { id: "a", offset: -1 } }),
+      ),
+    ).toBeNull();
+    expect(
+      decodeSearchCursor(
+        encode({
+          v: 3,
+          filters: {},
+          position: [1],
+          snapshot: { id: "a", offset: 1 },
+        }),
+      ),
+    ).toBeNull();
+    expect(
+      decodeSearchCursor(
+        encode({ v: 3, filters: {}, seen: { offset: 0, ids: ["1"] } }),
+      ),
+    ).toBeNull();
+    expect(decodeSearchCursor(encode({ v: 3, filters: {} }))).toBeNull();
+  });
+});
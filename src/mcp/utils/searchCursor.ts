@@ -0,0 +1,122 @@
+/**
+ * 検索カーソル
+ *
+ * search_m365_roadmap の次ページ取得用。検索条件と続きの取得位置を JSON にして
+ * base64url でエンコードする。日付などの並び順では最後に返した結果の位置で続きを取得する。
+ * 関連度順（同期でスコアが変わる）では 1 ページ目で返した結果の ID を持ち、2 ページ目で
+ * それを除いた結果の並びをスナップショットとして保存して以降はその並びから取得する。
+ * そのため、ページの間に同期が走ってフィーチャーが増減しても結果が重複・欠落しない
+ */
+
+import type { M365SearchFilters, M365SearchPosition } from "../api/types.js";
+
+/** カーソル形式のバージョン（形式を変えたら上げる） */
+const CURSOR_VERSION = 3;
+
+/**
+ * カーソルの内容（position・seen・snapshot のいずれか 1 つを持つ）
+ */
+export interface SearchCursor {
+  /** 検索条件（相対日付などは解決済み） */
+  filters: Omit<
+    M365SearchFilters,
+    "limit" | "offset" | "after" | "featureIds" | "facets"
+  >;
+  /** 最後に返した結果の位置 */
+  position?: M365SearchPosition;
+  /** 関連度順の 1 ページ目の offset と、そのページで返した結果の ID */
+  seen?: { offset: number; ids: number[] };
+  /** 結果の並びのスナップショットの ID と、次に返す結果のスナップショット内の位置 */
+  snapshot?: { id: string; offset: number };
+}
+
+/**
+ * カーソルをエンコード
+ */
+export function encodeSearchCursor(cursor: SearchCursor): string {
+  return Buffer.from(
+    JSON.stringify({ v: CURSOR_VERSION, ...cursor }),
+    "utf8",
+  ).toString("base64url");
+}
+
+function isPosition(value: unknown): value is M365SearchPosition {
+  return (
+    Array.isArray(value) &&
+    value.every(
+      (key) =>
+        key === null || typeof key === "string" || typeof key === "number",
+    )
+  );
+}
+
+function isSeen(value: unknown): value is SearchCursor["seen"] {
+  if (typeof value !== "object" || value === null) {
+    return false;
+  }
+  const { offset, ids } = value as Record<string, unknown>;
+  return (
+    Number.isInteger(offset) &&
+    (offset as number) >= 0 &&
+    Array.isArray(ids) &&
+    ids.every((id) => Number.isSafeInteger(id))
+  );
+}
+
+function isSnapshot(value: unknown): value is SearchCursor["snapshot"] {
+  if (typeof value !== "object" || value === null) {
+    return false;
+  }
+  const { id, offset } = value as Record<string, unknown>;
+  return (
+    typeof id === "string" &&
+    id.length > 0 &&
+    Number.isInteger(offset) &&
+    (offset as number) >= 0
+  );
+}
+
+/**
+ * カーソルをデコード
+ *
+ * @returns 形式が不正・バージョンが異なる場合は null
+ */
+export function decodeSearchCursor(value: string): SearchCursor | null {
+  let data: unknown;
+  try {
+    data = JSON.parse(Buffer.from(value, "base64url").toString("utf8"));
+  } catch {
+    return null;
+  }
+
+  if (typeof data !== "object" || data === null) {
+    return null;
+  }
+  const { v, filters, position, seen, snapshot } = data as Record<
+    string,
+    unknown
+  >;
+  if (
+    v !== CURSOR_VERSION ||
+    typeof filters !== "object" ||
+    filters === null ||
+    Array.isArray(filters)
+  ) {
+    return null;
+  }
+
+  const cursorFilters = filters as SearchCursor["filters"];
+  if (
+    [position, seen, snapshot].filter((value) => value !== undefined).length !==
+    1
+  ) {
+    return null;
+  }
+  if (position !== undefined) {
+    return isPosition(position) ? { filters: cursorFilters, position } : null;
+  }
+  if (seen !== undefined) {
+    return isSeen(seen) ? { filters: cursorFilters, seen } : null;
+  }
+  return isSnapshot(snapshot) ? { filters: cursorFilters, snapshot } : null;
+}